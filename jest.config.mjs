@@ -1,6 +1,7 @@
 export default {
   preset: 'ts-jest/presets/js-with-ts-esm',
   testEnvironment: 'node',
+  roots: ['<rootDir>/src'],
   verbose: true,
   extensionsToTreatAsEsm: ['.ts'],
   moduleNameMapper: {
@@ -0,0 +1,183 @@
+import { ADAPTERS, extractKeys, type AdapterName } from '../adapters/index.js';
+import { parseSource } from '../ast.js';
+
+// Keys one adapter finds in a fixture, as "namespace:key=default" for compact expectations
+function keysFrom(adapter: AdapterName, sourceCode: string, filePath?: string): string[] {
+  return ADAPTERS[adapter].extract(parseSource(sourceCode, [], filePath)).map(key =>
+    `${key.namespace ? `${key.namespace}:` : ''}${key.key}${key.dynamic ? '*' : ''}${key.defaultValue !== null ? `=${key.defaultValue}` : ''}`
+  );
+}
+
+describe('next-intl adapter', () => {
+  it('resolves namespaces of hooks and their aliases through scopes', () => {
+    const source = `
+      import { useTranslations } from 'next-intl';
+      export function Home() {
+        const t = useTranslations('Home');
+        return <h1>{t('title')}{t.rich('intro')}</h1>;
+      }
+      export function Footer() {
+        const label = useTranslations('Footer');
+        return <p>{label('copyright') || 'All rights reserved'}</p>;
+      }
+    `;
+    expect(keysFrom('next-intl', source)).toEqual(['Home:title', 'Home:intro', 'Footer:copyright=All rights reserved']);
+  });
+
+  it('reads getTranslations with a namespace option and dynamic keys', async () => {
+    const source = `
+      export default async function Page({ status }) {
+        const t = await getTranslations({ namespace: 'Orders' });
+        return t(\`status.\${status}\`);
+      }
+    `;
+    expect(keysFrom('next-intl', source)).toEqual(['Orders:status.*']);
+  });
+});
+
+describe('i18next adapter', () => {
+  it('finds hook, instance and Trans usages', () => {
+    const source = `
+      import { Trans, useTranslation } from 'react-i18next';
+      import i18n from 'i18next';
+      export function Profile() {
+        const { t } = useTranslation(['profile', 'common']);
+        i18n.t('common:save');
+        return (
+          <>
+            {t('name', { defaultValue: 'Name' })}
+            {t('cancel', { ns: 'common' })}
+            <Trans i18nKey="welcome">Hello <b>{{ name }}</b></Trans>
+          </>
+        );
+      }
+    `;
+    expect(keysFrom('i18next', source)).toEqual([
+      'common:save',
+      'profile:name=Name',
+      'common:cancel',
+      'welcome=Hello <1>{{name}}</1>',
+    ]);
+  });
+});
+
+describe('react-intl adapter', () => {
+  it('reads message descriptors from every API', () => {
+    const source = `
+      const messages = defineMessages({
+        greeting: { id: 'app.greeting', defaultMessage: 'Hello', description: 'Shown on top' },
+      });
+      const single = defineMessage({ id: 'app.single', defaultMessage: 'One' });
+      intl.formatMessage({ id: 'app.formatted', defaultMessage: 'Formatted' });
+      const element = <FormattedMessage id="app.element" defaultMessage="Element" />;
+    `;
+    expect(keysFrom('react-intl', source)).toEqual(['app.greeting=Hello', 'app.single=One', 'app.formatted=Formatted', 'app.element=Element']);
+    expect(ADAPTERS['react-intl'].extract(parseSource(source))[0].description).toBe('Shown on top');
+  });
+});
+
+describe('vue-i18n adapter', () => {
+  it('finds global, composer and instance calls', () => {
+    const source = `
+      const { t } = useI18n();
+      t('setup.title');
+      this.$t('options.title');
+      $tc('items', 2);
+      i18n.global.t('global.title');
+    `;
+    expect(keysFrom('vue-i18n', source)).toEqual(['setup.title', 'options.title', 'items', 'global.title']);
+  });
+
+  it('finds calls in single-file component templates at their position in the file', () => {
+    const source = [
+      '<template>',
+      '  <h1 :title="$t(\'home.tooltip\')">{{ $t(\'home.title\') }}</h1>',
+      '  <p v-t="\'home.directive\'"></p>',
+      '</template>',
+      '<script setup>',
+      'const { t } = useI18n();',
+      't(\'home.script\');',
+      '</script>',
+    ].join('\n');
+    const keys = ADAPTERS['vue-i18n'].extract(parseSource(source, [], 'Home.vue'));
+    expect(keys.map(key => [key.key, key.line, key.column])).toEqual([
+      ['home.tooltip', 2, 14],
+      ['home.title', 2, 37],
+      ['home.directive', 3, 10],
+      ['home.script', 7, 0],
+    ]);
+  });
+
+  it('merges <script> and <script setup> blocks that import the same binding', () => {
+    const source = [
+      '<script>',
+      "import { useI18n } from 'vue-i18n';",
+      "export default { name: 'Home' };",
+      '</script>',
+      '<script setup>',
+      "import { useI18n } from 'vue-i18n';",
+      'const { t } = useI18n();',
+      "t('home.setup');",
+      '</script>',
+      "<template><p>{{ t('home.template') }}</p></template>",
+    ].join('\n');
+    expect(keysFrom('vue-i18n', source, 'Home.vue')).toEqual(['home.setup', 'home.template']);
+  });
+
+  it('rejects script blocks that declare the same binding differently', () => {
+    const source = "<script>\nconst title = 'a';\n</script>\n<script setup>\nconst title = 'b';\n</script>";
+    expect(() => parseSource(source, [], 'Home.vue')).toThrow("Identifier 'title' has already been declared in another script block");
+  });
+});
+
+describe('svelte-i18n adapter', () => {
+  it('finds store calls in scripts, markup and logic blocks', () => {
+    const source = `
+      <script>
+        const title = $_('nav.title');
+      </script>
+      <nav aria-label={$_('nav.label')}>
+        {#if $_('nav.cond')}{$_('nav.home', { default: 'Home' })}{/if}
+        {$format({ id: 'nav.other', default: 'Other' })}
+      </nav>
+    `;
+    expect(keysFrom('svelte-i18n', source, 'Nav.svelte')).toEqual(['nav.title', 'nav.label', 'nav.cond', 'nav.home=Home', 'nav.other=Other']);
+  });
+});
+
+describe('ngx-translate adapter', () => {
+  it('finds service calls', () => {
+    const source = `
+      class Page {
+        constructor(private translate: TranslateService) {}
+        load() {
+          this.translate.instant('page.title');
+          this.translate.get(['page.a', 'page.b']);
+          this.http.get('/api');
+        }
+      }
+    `;
+    expect(keysFrom('ngx-translate', source)).toEqual(['page.title', 'page.a', 'page.b']);
+  });
+
+  it('finds the translate pipe and directive in Angular templates', () => {
+    const source = `<h1>{{ 'page.heading' | translate | uppercase }}</h1>\n<p [translate]="'page.body'"></p>`;
+    expect(keysFrom('ngx-translate', source, 'page.component.html')).toEqual(['page.heading', 'page.body']);
+  });
+});
+
+describe('extractKeys', () => {
+  it('reports each usage once, claimed by the first adapter that matches', () => {
+    const source = `
+      const { t } = useTranslation('common');
+      t('save');
+      $t('vue.key');
+    `;
+    expect(extractKeys(parseSource(source)).map(key => `${key.namespace}:${key.key}`)).toEqual(['common:save', ':vue.key']);
+  });
+
+  it('runs only the selected adapters', () => {
+    const source = `const t = useTranslations('Home'); t('title'); $t('vue.key');`;
+    expect(extractKeys(parseSource(source), ['vue-i18n']).map(key => key.key)).toEqual(['vue.key']);
+  });
+});
@@ -0,0 +1,44 @@
+import { auditSource } from '../audit.js';
+
+// Texts of the findings in a component rendering the given JSX
+const findings = (jsx: string, options = {}) => auditSource(`export function Page() {\n  return (\n${jsx}\n  );\n}\n`, options).map(finding => finding.text);
+
+describe('auditSource', () => {
+  it('reports text, translatable attributes and thrown error messages', () => {
+    const source = "export function Page() {\n  if (!ok) throw new Error('Something went wrong');\n  return <img alt=\"Company logo\" />;\n}\n";
+    expect(auditSource(source)).toEqual([
+      { line: 2, column: 27, kind: 'error-message', text: 'Something went wrong', suggestedKey: 'Page.somethingWentWrong' },
+      { line: 3, column: 18, kind: 'jsx-attribute', text: 'Company logo', attribute: 'alt', suggestedKey: 'Page.companyLogo' },
+    ]);
+  });
+
+  it('skips the line of an i18n-ignore comment and the line below it', () => {
+    expect(findings([
+      '    <div>',
+      '      {/* i18n-ignore */}',
+      '      Internal note',
+      '      <p>Shown text</p>',
+      '    </div>',
+    ].join('\n'))).toEqual(['Shown text']);
+  });
+
+  it('skips a file with an i18n-ignore-file comment', () => {
+    expect(auditSource('// i18n-ignore-file\nexport function Page() {\n  return <p>Debug panel</p>;\n}\n')).toEqual([]);
+  });
+
+  it('skips URLs, paths and anchors', () => {
+    expect(findings('    <a title="https://example.com/docs" href="/docs">Read the docs</a>')).toEqual(['Read the docs']);
+    for (const text of ['https://example.com', 'mailto:team@example.com', '/settings/profile', './docs/setup', '#top', 'www.example.com']) {
+      expect(findings(`    <p>${text}</p>`)).toEqual([]);
+    }
+  });
+
+  it('skips className and test id attributes even when the allowlist matches them', () => {
+    expect(findings('    <div className="Main panel" data-testid="Save button" data-cy="Main form" data-label="Main form" />', { attributes: ['*'] }))
+      .toEqual(['Main form']);
+  });
+
+  it('skips text inside code and pre elements', () => {
+    expect(findings('    <div><code>Run the build</code><pre>Usage text</pre><p>See the example</p></div>')).toEqual(['See the example']);
+  });
+});
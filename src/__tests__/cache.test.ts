@@ -0,0 +1,98 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { CACHE_DIR } from '../cache.js';
+import { I18nCore } from '../core.js';
+
+const HOME = `
+export function Home() {
+  const t = useTranslations('Home');
+  return <main>{t('title')}{t('save')}</main>;
+}
+`;
+const ABOUT = `
+export function About() {
+  const t = useTranslations('About');
+  return <h1>{t('title')}</h1>;
+}
+`;
+
+describe('batch extraction cache', () => {
+  let root: string;
+  let core: I18nCore;
+
+  beforeEach(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'mcp-i18n-cache-'));
+    await fs.writeFile(path.join(root, 'package.json'), '{}');
+    await fs.mkdir(path.join(root, 'src'));
+    await fs.writeFile(path.join(root, 'src', 'Home.tsx'), HOME);
+    await fs.writeFile(path.join(root, 'src', 'About.tsx'), ABOUT);
+    core = new I18nCore();
+  });
+
+  afterEach(async () => {
+    core.close();
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  const extract = async () => {
+    const result = await core.extractBatch({ rootDir: path.join(root, 'src'), outputDir: path.join(root, 'locales'), manifest: true });
+    expect(result.failed).toBeFalsy();
+    return result.structured as { cached: number; files: { file: string }[]; keys: { namespace: string; key: string; value: unknown }[] };
+  };
+  const extractedKeys = (run: { keys: { namespace: string; key: string }[] }) => run.keys.map(key => `${key.namespace}.${key.key}`).sort();
+  const cacheEntries = async () => (await fs.readdir(path.join(root, CACHE_DIR))).filter(name => name.endsWith('.json'));
+  const manifestKeys = async (namespace: string) =>
+    Object.keys(JSON.parse(await fs.readFile(path.join(root, 'locales', 'en', `${namespace}.manifest.json`), 'utf-8')).entries).sort();
+
+  it('reads unchanged files from the cache', async () => {
+    expect((await extract()).cached).toBe(0);
+    const second = await extract();
+    expect(second.cached).toBe(2);
+    expect(extractedKeys(second)).toEqual(['About.title', 'Home.save', 'Home.title']);
+  });
+
+  it('re-extracts a file when a t() call is removed', async () => {
+    await extract();
+    await fs.writeFile(path.join(root, 'src', 'Home.tsx'), HOME.replace("{t('save')}", ''));
+    const run = await extract();
+    expect(run.cached).toBe(1);
+    expect(extractedKeys(run)).toEqual(['About.title', 'Home.title']);
+    expect(await manifestKeys('Home')).toEqual(['title']);
+  });
+
+  it('drops the results of a deleted file', async () => {
+    await extract();
+    expect(await cacheEntries()).toHaveLength(2);
+    await fs.rm(path.join(root, 'src', 'About.tsx'));
+    const run = await extract();
+    expect(run.files.map(file => file.file)).toEqual(['Home.tsx']);
+    expect(extractedKeys(run)).toEqual(['Home.save', 'Home.title']);
+    expect(await cacheEntries()).toHaveLength(1);
+  });
+
+  it('leaves the cache alone on dry runs and checks', async () => {
+    await extract();
+    const entries = await cacheEntries();
+    await fs.writeFile(path.join(root, 'src', 'Home.tsx'), HOME.replace("{t('save')}", ''));
+    await fs.rm(path.join(root, 'src', 'About.tsx'));
+    const dryRun = await core.extractBatch({ rootDir: path.join(root, 'src'), outputDir: path.join(root, 'locales'), dryRun: true });
+    expect(dryRun.failed).toBeFalsy();
+    await core.check({ rootDir: path.join(root, 'src'), outputDir: path.join(root, 'locales') });
+    expect(await cacheEntries()).toEqual(entries);
+  });
+
+  it('re-extracts a locale module when a file it imports changes', async () => {
+    await fs.rm(path.join(root, 'src', 'Home.tsx'));
+    await fs.rm(path.join(root, 'src', 'About.tsx'));
+    // The imported file lives outside the scanned directory, so only the dependency check can notice the change
+    await fs.writeFile(path.join(root, 'shared.ts'), "export const brand = 'Acme';\n");
+    await fs.writeFile(path.join(root, 'src', 'en.ts'), "import { brand } from '../shared';\nexport default { title: brand };\n");
+    await extract();
+    expect((await extract()).cached).toBe(1);
+    await fs.writeFile(path.join(root, 'shared.ts'), "export const brand = 'Acme Corp';\n");
+    const run = await extract();
+    expect(run.cached).toBe(0);
+    expect(run.keys.map(key => key.value)).toEqual(['Acme Corp']);
+  });
+});
@@ -0,0 +1,137 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { main } from '../cli.js';
+
+const HOME = `
+export function Home() {
+  const t = useTranslations('Home');
+  return <main>{t('title')}</main>;
+}
+`;
+
+describe('mcp-i18n CLI', () => {
+  let root: string;
+
+  beforeEach(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'mcp-i18n-cli-'));
+    await fs.writeFile(path.join(root, 'package.json'), '{}');
+    await fs.mkdir(path.join(root, 'src'));
+    await fs.writeFile(path.join(root, 'src', 'Home.tsx'), HOME);
+    await fs.mkdir(path.join(root, 'locales'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  // Run the CLI and collect what it prints
+  async function run(...argv: string[]): Promise<{ exitCode: number; stdout: string; stderr: string }> {
+    let stdout = '';
+    let stderr = '';
+    const exitCode = await main(argv, {
+      stdout: { write: (text: string) => (stdout += text) },
+      stderr: { write: (text: string) => (stderr += text) },
+    });
+    return { exitCode, stdout, stderr };
+  }
+
+  const at = (...segments: string[]) => path.join(root, ...segments);
+  const writeJson = (file: string, data: unknown) => fs.writeFile(file, JSON.stringify(data, null, 2));
+
+  describe('check', () => {
+    it('exits with 1 when extraction would change a locale file, 0 once it would not', async () => {
+      expect((await run('check', at('src'), '--out', at('locales'))).exitCode).toBe(1);
+      expect((await run('extract', at('src'), '--out', at('locales'))).exitCode).toBe(0);
+      expect((await run('check', at('src'), '--out', at('locales'))).exitCode).toBe(0);
+    });
+
+    it('prints the structured result with --json', async () => {
+      const { exitCode, stdout } = await run('check', at('src'), '--out', at('locales'), '--json');
+      expect(exitCode).toBe(1);
+      expect(JSON.parse(stdout)).toMatchObject({ clean: false });
+    });
+
+    it('exits with 2 on an invalid option value', async () => {
+      const { exitCode, stderr } = await run('check', at('src'), '--strategy', 'overwrite-all');
+      expect(exitCode).toBe(2);
+      expect(stderr).toContain('Invalid --strategy overwrite-all: expected one of keep-existing, overwrite, fill-empty-only, fail-on-conflict');
+    });
+  });
+
+  describe('sync', () => {
+    it('exits with 0 when the locale file matches the code', async () => {
+      await writeJson(at('locales', 'en.json'), { Home: { title: 'Home' } });
+      expect((await run('sync', at('src'), at('locales', 'en.json'))).exitCode).toBe(0);
+    });
+
+    it('exits with 1 on missing or unused keys, and reports them with --json', async () => {
+      await writeJson(at('locales', 'en.json'), { Home: { legacy: 'Old' } });
+      const { exitCode, stdout } = await run('sync', at('src'), at('locales', 'en.json'), '--json');
+      expect(exitCode).toBe(1);
+      const report = JSON.parse(stdout);
+      expect(report.missing.map((usage: { key: string }) => usage.key)).toEqual(['Home.title']);
+      expect(report.unused).toEqual(['Home.legacy']);
+    });
+
+    it('exits with 2 without a locale file or with an invalid --missing-value', async () => {
+      expect((await run('sync', at('src'))).exitCode).toBe(2);
+      await writeJson(at('locales', 'en.json'), {});
+      expect((await run('sync', at('src'), at('locales', 'en.json'), '--missing-value', 'none')).exitCode).toBe(2);
+    });
+  });
+
+  describe('validate', () => {
+    beforeEach(async () => {
+      await writeJson(at('locales', 'en.json'), { title: 'Home', count: '{n} items' });
+    });
+
+    it('exits with 0 when every locale is complete', async () => {
+      await writeJson(at('locales', 'de.json'), { title: 'Startseite', count: '{n} Einträge' });
+      expect((await run('validate', at('locales', 'en.json'), at('locales', 'de.json'))).exitCode).toBe(0);
+    });
+
+    it('exits with 1 on problems, and prints the report with --json', async () => {
+      await writeJson(at('locales', 'de.json'), { count: '{anzahl} Einträge' });
+      const { exitCode, stdout } = await run('validate', at('locales', 'en.json'), at('locales', 'de.json'), '--json');
+      expect(exitCode).toBe(1);
+      const [locale] = JSON.parse(stdout).locales;
+      expect(locale.missing).toEqual(['title']);
+      expect(locale.placeholderMismatches).toEqual([{ key: 'count', missing: ['n'], extra: ['anzahl'] }]);
+    });
+
+    it('exits with 2 when the reference cannot be read, with the error as JSON', async () => {
+      const { exitCode, stdout } = await run('validate', at('locales', 'fr.json'), '--json');
+      expect(exitCode).toBe(2);
+      expect(JSON.parse(stdout).error).toContain('fr.json');
+    });
+
+    it('exits with 2 on an invalid --scaffold-value', async () => {
+      expect((await run('validate', at('locales', 'en.json'), '--scaffold', '--scaffold-value', 'copy')).exitCode).toBe(2);
+    });
+  });
+
+  describe('usage errors', () => {
+    it('exits with 2 on an unknown command, an unknown option or no command', async () => {
+      expect((await run('translate')).stderr).toContain('Unknown command: translate');
+      expect((await run('check', '--verbose')).exitCode).toBe(2);
+      const { exitCode, stderr } = await run();
+      expect(exitCode).toBe(2);
+      expect(stderr).toContain('Usage: mcp-i18n <command> [options]');
+    });
+
+    it('exits with 2 on an invalid --format, --key-style, --layout or --adapter', async () => {
+      for (const option of [['--format', 'csv'], ['--key-style', 'dotted'], ['--layout', 'flat'], ['--adapter', 'lingui']]) {
+        const { exitCode, stderr } = await run('check', at('src'), ...option);
+        expect(exitCode).toBe(2);
+        expect(stderr).toContain(`Invalid ${option[0]} ${option[1]}`);
+      }
+    });
+
+    it('prints the help and exits with 0', async () => {
+      const { exitCode, stdout } = await run('--help');
+      expect(exitCode).toBe(0);
+      expect(stdout).toContain('Exit codes:');
+    });
+  });
+});
@@ -0,0 +1,77 @@
+import { auditSource } from '../audit.js';
+import { rewriteSource } from '../codemod.js';
+
+const SETTINGS = `import { useTranslations } from 'next-intl';
+
+export function Settings() {
+  return (
+    <form>
+      <button>
+        Save changes
+      </button>
+    </form>
+  );
+}
+`;
+
+describe('rewriteSource', () => {
+  it('locates JSX text where the text starts, like the audit', () => {
+    const result = rewriteSource(SETTINGS, { library: 'next-intl' });
+    expect(result.locations).toEqual({ 'Settings.saveChanges': { namespace: 'Settings', line: 7, column: 8 } });
+    expect(auditSource(SETTINGS)).toEqual([expect.objectContaining({ line: 7, column: 8 })]);
+  });
+
+  it('inserts the hook into the component and the import at the top', () => {
+    const result = rewriteSource('export function Settings() {\n  return <button title="Save your work">Save</button>;\n}\n', { library: 'next-intl' });
+    expect(result.code).toBe([
+      "import { useTranslations } from 'next-intl';",
+      'export function Settings() {',
+      "  const t = useTranslations('Settings');",
+      "  return <button title={t('saveYourWork')}>{t('save')}</button>;",
+      '}',
+      '',
+    ].join('\n'));
+    expect(result.translations).toEqual({ 'Settings.saveYourWork': 'Save your work', 'Settings.save': 'Save' });
+  });
+
+  it('gives an expression-bodied arrow component a block body for the hook', () => {
+    expect(rewriteSource('export const Banner = () => <p>Welcome back</p>;\n', { library: 'next-intl' }).code).toBe([
+      "import { useTranslations } from 'next-intl';",
+      'export const Banner = () => {',
+      "  const t = useTranslations('Banner');",
+      "  return <p>{t('welcomeBack')}</p>;",
+      '};',
+      '',
+    ].join('\n'));
+  });
+
+  it('extends an existing import of the library instead of adding another', () => {
+    const nextIntl = rewriteSource("import { useLocale } from 'next-intl';\n\nexport function Footer() {\n  return <p>Contact us</p>;\n}\n");
+    expect(nextIntl.code).toBe([
+      "import { useLocale, useTranslations } from 'next-intl';",
+      '',
+      'export function Footer() {',
+      "  const t = useTranslations('Footer');",
+      "  return <p>{t('contactUs')}</p>;",
+      '}',
+      '',
+    ].join('\n'));
+
+    const reactI18next = rewriteSource("import { Trans } from 'react-i18next';\n\nexport function Footer() {\n  return <p>All rights reserved</p>;\n}\n");
+    expect(reactI18next.code.split('\n').slice(0, 4)).toEqual([
+      "import { Trans, useTranslation } from 'react-i18next';",
+      '',
+      'export function Footer() {',
+      "  const { t } = useTranslation('Footer');",
+    ]);
+  });
+
+  it('leaves out semicolons in files without them', () => {
+    expect(rewriteSource('export function Footer() {\n  return <p>Contact us</p>\n}\n', { library: 'next-intl' }).code.split('\n').slice(0, 4)).toEqual([
+      "import { useTranslations } from 'next-intl'",
+      'export function Footer() {',
+      "  const t = useTranslations('Footer')",
+      "  return <p>{t('contactUs')}</p>",
+    ]);
+  });
+});
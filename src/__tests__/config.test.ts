@@ -0,0 +1,94 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { ConfigError, findConfigFile, loadConfig, resolveSettings, validateConfig } from '../config.js';
+
+describe('validateConfig', () => {
+  it('accepts a valid configuration', () => {
+    expect(validateConfig({ locales: ['en', 'de'], output: 'locales/{locale}/{namespace}.json', format: 'json' })).toEqual([]);
+  });
+
+  it('reports wrong types, unknown values and unknown options', () => {
+    expect(validateConfig({ locales: 'en', format: 'csv', keyStyle: 'dotted', include: ['src', 3], verbose: true })).toEqual([
+      'locales must be an array',
+      'format must be one of: json, yaml, po, pot, xliff, xliff2, arb, strings, android',
+      'keyStyle must be one of: nested, flat',
+      'include[1] must be a string',
+      'verbose is not a known option',
+    ]);
+    expect(validateConfig([])).toEqual(['the configuration must be an object']);
+  });
+
+  it('reports options that are well-typed but unusable', () => {
+    expect(validateConfig({ locales: [] })).toEqual(['locales must list at least one locale']);
+    expect(validateConfig({ output: 'locales/en.json' })).toEqual(['output must contain {locale}']);
+    expect(validateConfig({ parserPlugins: ['decorators', 'decorators-legacy'] })).toEqual(["parserPlugins can't enable both decorators and decorators-legacy"]);
+  });
+});
+
+describe('config discovery', () => {
+  let root: string;
+  const at = (...segments: string[]) => path.join(root, ...segments);
+
+  beforeEach(async () => {
+    root = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), 'mcp-i18n-config-')));
+    await fs.mkdir(at('packages', 'web', 'src', 'components'), { recursive: true });
+    await fs.writeFile(at('packages', 'web', 'src', 'components', 'Button.tsx'), '');
+  });
+
+  afterEach(async () => {
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  it('walks up from a nested file or directory to the nearest config file', async () => {
+    await fs.writeFile(at('.mcp-i18nrc.json'), JSON.stringify({ locales: ['en', 'de'] }));
+    expect(await findConfigFile(at('packages', 'web', 'src', 'components', 'Button.tsx'))).toBe(at('.mcp-i18nrc.json'));
+    expect((await loadConfig(at('packages', 'web', 'src'))).config).toEqual({ locales: ['en', 'de'] });
+
+    await fs.writeFile(at('packages', 'web', 'mcp-i18n.config.ts'), "const locales = ['en', 'fr'];\nexport default { locales };\n");
+    expect(await loadConfig(at('packages', 'web', 'src', 'components'))).toEqual({
+      file: at('packages', 'web', 'mcp-i18n.config.ts'),
+      config: { locales: ['en', 'fr'] },
+    });
+  });
+
+  it('prefers .mcp-i18nrc.json to mcp-i18n.config.ts in the same directory', async () => {
+    await fs.writeFile(at('mcp-i18n.config.ts'), 'export default {};\n');
+    await fs.writeFile(at('.mcp-i18nrc.json'), '{}');
+    expect(await findConfigFile(at('packages'))).toBe(at('.mcp-i18nrc.json'));
+  });
+
+  it('rejects invalid files with the problems and the file', async () => {
+    await fs.writeFile(at('packages', '.mcp-i18nrc.json'), JSON.stringify({ strategy: 'replace' }));
+    const error = await loadConfig(at('packages', 'web')).catch((caught: unknown) => caught);
+    expect(error).toBeInstanceOf(ConfigError);
+    expect(error).toMatchObject({
+      file: at('packages', '.mcp-i18nrc.json'),
+      problems: ['strategy must be one of: keep-existing, overwrite, fill-empty-only, fail-on-conflict'],
+    });
+
+    await fs.writeFile(at('packages', '.mcp-i18nrc.json'), '{ locales: [] }');
+    await expect(loadConfig(at('packages', 'web'))).rejects.toThrow(/not valid JSON/);
+  });
+
+  it('rejects TypeScript configs it cannot read without running them', async () => {
+    await fs.writeFile(at('mcp-i18n.config.ts'), 'export default { locales: process.env.LOCALES };\n');
+    await expect(loadConfig(at('packages'))).rejects.toThrow(ConfigError);
+  });
+});
+
+describe('translation provider settings', () => {
+  const loaded = { file: path.resolve('/project/.mcp-i18nrc.json'), config: { translationProvider: './tools/translator.mjs' } };
+
+  it('resolves a provider module from the config file relative to it', () => {
+    expect(resolveSettings(loaded).translationProvider).toBe(path.resolve('/project/tools/translator.mjs'));
+  });
+
+  it('lets tool arguments pick a built-in provider', () => {
+    expect(resolveSettings(loaded, { translationProvider: 'pseudo' }).translationProvider).toBe('pseudo');
+  });
+
+  it('refuses provider modules passed as tool arguments', () => {
+    expect(() => resolveSettings(loaded, { translationProvider: '/tmp/evil.mjs' })).toThrow('modules can only be set in');
+  });
+});
@@ -0,0 +1,33 @@
+import { unifiedDiff } from '../diff.js';
+
+describe('unifiedDiff', () => {
+  it('aligns changed lines with context', () => {
+    const before = ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h'].join('\n');
+    const after = ['a', 'b', 'c', 'd', 'E', 'f', 'g', 'h', 'i'].join('\n');
+    expect(unifiedDiff('en.json', before, after)).toBe([
+      '--- en.json',
+      '+++ en.json',
+      '@@ -2,7 +2,8 @@',
+      ' b',
+      ' c',
+      ' d',
+      '-e',
+      '+E',
+      ' f',
+      ' g',
+      ' h',
+      '+i',
+    ].join('\n'));
+  });
+
+  it('shows a rewrite too large to align as one removal and addition', () => {
+    const size = 3000;
+    const before = ['{', ...Array.from({ length: size }, (_, index) => `  "key${index}": "old"`), '}'].join('\n');
+    const after = ['{', ...Array.from({ length: size }, (_, index) => `  "key${index}": "new"`), '}'].join('\n');
+    const lines = unifiedDiff('en.json', before, after).split('\n');
+    expect(lines.slice(0, 4)).toEqual(['--- en.json', '+++ en.json', `@@ -1,${size + 2} +1,${size + 2} @@`, ' {']);
+    expect(lines.slice(4, 4 + size).every(line => line.startsWith('-'))).toBe(true);
+    expect(lines.slice(4 + size, 4 + size * 2).every(line => line.startsWith('+'))).toBe(true);
+    expect(lines[lines.length - 1]).toBe(' }');
+  });
+});
@@ -0,0 +1,100 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { I18nCore } from '../core.js';
+
+const PO = `msgid ""
+msgstr ""
+"Language: de\\n"
+
+# Translator note
+#. Number of unread items
+msgctxt "Inbox"
+msgid "item"
+msgid_plural "items"
+msgstr[0] "Eintrag"
+msgstr[1] "Einträge"
+
+msgctxt "Inbox"
+msgid "title"
+msgstr "Posteingang"
+`;
+
+describe('single translation edits', () => {
+  let root: string;
+  let file: string;
+  let core: I18nCore;
+
+  beforeEach(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'mcp-i18n-edit-'));
+    await fs.writeFile(path.join(root, 'package.json'), '{}');
+    file = path.join(root, 'locales', 'de.po');
+    await fs.mkdir(path.dirname(file));
+    await fs.writeFile(file, PO);
+    core = new I18nCore();
+  });
+
+  afterEach(async () => {
+    core.close();
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  it('changes only the edited entry', async () => {
+    expect((await core.setTranslation({ localePath: file, key: 'Inbox.title', value: 'Eingang' })).failed).toBeFalsy();
+    expect(await fs.readFile(file, 'utf-8')).toBe(PO.replace('"Posteingang"', '"Eingang"'));
+  });
+
+  it('renames an entry with its comments and plural forms', async () => {
+    expect((await core.renameTranslation({ from: 'Inbox.item', to: 'Inbox.entry', localePaths: [file] })).failed).toBeFalsy();
+    expect(await fs.readFile(file, 'utf-8')).toBe(PO.replace('msgid "item"', 'msgid "entry"'));
+  });
+
+  it('deletes only the deleted entry', async () => {
+    expect((await core.deleteTranslation({ key: 'Inbox.title', localePaths: [file] })).failed).toBeFalsy();
+    expect(await fs.readFile(file, 'utf-8')).toBe(PO.replace('\nmsgctxt "Inbox"\nmsgid "title"\nmsgstr "Posteingang"\n', ''));
+  });
+
+  it('writes keys of a namespace file without context', async () => {
+    const namespaceFile = path.join(root, 'locales', 'de', 'common.po');
+    expect((await core.setTranslation({ localePath: namespaceFile, key: 'nav.home', value: 'Start' })).failed).toBeFalsy();
+    const content = await fs.readFile(namespaceFile, 'utf-8');
+    expect(content).toContain('\nmsgid "nav.home"\nmsgstr "Start"');
+    expect(content).not.toContain('msgctxt');
+  });
+});
+
+describe('key layout of edited files', () => {
+  let root: string;
+  let core: I18nCore;
+
+  beforeEach(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'mcp-i18n-layout-'));
+    await fs.writeFile(path.join(root, 'package.json'), '{}');
+    core = new I18nCore();
+  });
+
+  afterEach(async () => {
+    core.close();
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  async function set(content: string, key: string): Promise<unknown> {
+    const file = path.join(root, 'en.json');
+    await fs.writeFile(file, content);
+    expect((await core.setTranslation({ localePath: file, key, value: 'Home' })).failed).toBeFalsy();
+    return JSON.parse(await fs.readFile(file, 'utf-8'));
+  }
+
+  it('nests new keys in a file of top-level strings', async () => {
+    expect(await set('{\n  "title": "Inbox"\n}\n', 'Home.title')).toEqual({ title: 'Inbox', Home: { title: 'Home' } });
+  });
+
+  it('uses the configured layout for a file of top-level strings', async () => {
+    await fs.writeFile(path.join(root, '.mcp-i18nrc.json'), JSON.stringify({ keyStyle: 'flat' }));
+    expect(await set('{\n  "title": "Inbox"\n}\n', 'Home.title')).toEqual({ title: 'Inbox', 'Home.title': 'Home' });
+  });
+
+  it('keeps a flat file flat', async () => {
+    expect(await set('{\n  "Inbox.title": "Inbox"\n}\n', 'Home.title')).toEqual({ 'Inbox.title': 'Inbox', 'Home.title': 'Home' });
+  });
+});
@@ -0,0 +1,29 @@
+import { parseSource } from '../ast.js';
+import { evaluateLocaleExports, loadModuleGraph } from '../evaluate.js';
+import type { PlaceholderStyle } from '../interpolation.js';
+
+async function evaluate(sourceCode: string, placeholderStyle: PlaceholderStyle = 'mustache') {
+  const placeholders: Record<string, Record<string, string>> = {};
+  const graph = await loadModuleGraph(null, sourceCode, parseSource(sourceCode));
+  return { data: evaluateLocaleExports(graph, { placeholderStyle, placeholders }), placeholders };
+}
+
+describe('template literals in locale modules', () => {
+  it('writes string constants into the message', async () => {
+    const { data, placeholders } = await evaluate("const APP = 'Acme';\nexport default { title: `Welcome to ${APP}` };");
+    expect(data).toEqual({ title: 'Welcome to Acme' });
+    expect(placeholders).toEqual({});
+  });
+
+  it('keeps other constants as named placeholders', async () => {
+    const { data, placeholders } = await evaluate("const APP = 'Acme';\nconst count = 1;\nexport default { items: `${APP}: you have ${count} items` };");
+    expect(data).toEqual({ items: 'Acme: you have {{count}} items' });
+    expect(placeholders).toEqual({ items: { count: 'count' } });
+  });
+
+  it('keeps the plural subject a placeholder in ICU messages', async () => {
+    const source = "const count = 1;\nexport default { inbox: `You have ${count} ${count === 1 ? 'item' : 'items'}` };";
+    const { data } = await evaluate(source, 'icu');
+    expect(data).toEqual({ inbox: 'You have {count} {count, plural, one {item} other {items}}' });
+  });
+});
@@ -0,0 +1,248 @@
+import { FORMATS } from '../formats/index.js';
+
+const TRANSLATED_XLIFF = `<?xml version="1.0" encoding="UTF-8"?>
+<xliff version="1.2" xmlns="urn:oasis:names:tc:xliff:document:1.2">
+  <file source-language="en" target-language="de" datatype="plaintext" original="messages">
+    <body>
+      <trans-unit id="greeting">
+        <source>Hello</source>
+        <target state="translated">Hallo</target>
+        <note>Shown on the home page</note>
+      </trans-unit>
+      <trans-unit id="farewell">
+        <source>Goodbye</source>
+        <target>Tschüss</target>
+      </trans-unit>
+    </body>
+  </file>
+</xliff>
+`;
+
+const ARB = `{
+  "@@locale": "de",
+  "@@last_modified": "2024-01-01",
+  "greeting": "Hallo {name}",
+  "@greeting": {
+    "description": "Greets the user",
+    "placeholders": { "name": { "type": "String" } }
+  },
+  "homeTitle": "Start",
+  "@homeTitle": { "x-key": "Home.title" }
+}`;
+
+const PO = `# German translation
+msgid ""
+msgstr ""
+"Content-Type: text/plain; charset=UTF-8\\n"
+"Language: de\\n"
+"Plural-Forms: nplurals=2; plural=(n != 1);\\n"
+
+# Translator note
+#. Number of unread items
+#: src/Inbox.tsx:12
+msgctxt "Inbox"
+msgid "item"
+msgid_plural "items"
+msgstr[0] "Eintrag"
+msgstr[1] "Einträge"
+
+msgctxt "Inbox"
+msgid "title"
+msgstr "Posteingang"
+
+#~ msgid "old"
+#~ msgstr "alt"
+`;
+
+describe('XLIFF', () => {
+  const xliff = FORMATS.xliff;
+
+  it('reads targets before sources', () => {
+    expect(xliff.deserialize(TRANSLATED_XLIFF)).toEqual({ greeting: 'Hallo', farewell: 'Tschüss' });
+  });
+
+  it('rewrites an unchanged translated file as it was', () => {
+    const data = xliff.deserialize(TRANSLATED_XLIFF);
+    expect(xliff.serialize(data, { locale: 'de', previous: TRANSLATED_XLIFF })).toBe(TRANSLATED_XLIFF);
+  });
+
+  it('changes only the target of an edited unit and keeps source, notes and languages', () => {
+    const content = xliff.serialize({ greeting: 'Servus', farewell: 'Tschüss', added: 'Neu' }, { locale: 'de', previous: TRANSLATED_XLIFF });
+    expect(content).toContain('<source>Hello</source>');
+    expect(content).toContain('<target state="translated">Servus</target>');
+    expect(content).toContain('<note>Shown on the home page</note>');
+    expect(content).toContain('target-language="de"');
+    expect(content).toContain('<trans-unit id="added">');
+    expect(xliff.deserialize(content)).toEqual({ greeting: 'Servus', farewell: 'Tschüss', added: 'Neu' });
+  });
+
+  it('drops units that left the catalog', () => {
+    const content = xliff.serialize({ farewell: 'Tschüss' }, { locale: 'de', previous: TRANSLATED_XLIFF });
+    expect(content).not.toContain('greeting');
+    expect(xliff.deserialize(content)).toEqual({ farewell: 'Tschüss' });
+  });
+
+  it('adds a target to a source-only unit of a translated file', () => {
+    const previous = TRANSLATED_XLIFF.replace('        <target>Tschüss</target>\n', '');
+    const content = xliff.serialize({ greeting: 'Hallo', farewell: 'Auf Wiedersehen' }, { locale: 'de', previous });
+    expect(content).toContain('        <source>Goodbye</source>\n        <target>Auf Wiedersehen</target>');
+  });
+
+  it('moves a renamed unit with its source and notes, and keeps groups', () => {
+    const content = xliff.serialize({ welcome: 'Hallo', farewell: 'Tschüss' }, { locale: 'de', previous: TRANSLATED_XLIFF, renamed: { welcome: 'greeting' } });
+    expect(content).toBe(TRANSLATED_XLIFF.replace('<trans-unit id="greeting">', '<trans-unit id="welcome">'));
+    const grouped = TRANSLATED_XLIFF.replace('      <trans-unit id="farewell">', '      <group id="bye">\n      <trans-unit id="farewell">').replace('</trans-unit>\n    </body>', '</trans-unit>\n      </group>\n    </body>');
+    expect(xliff.serialize({ greeting: 'Servus', farewell: 'Tschüss' }, { locale: 'de', previous: grouped })).toBe(grouped.replace('>Hallo<', '>Servus<'));
+  });
+
+  it('round-trips XLIFF 2.0 files', () => {
+    const fresh = FORMATS.xliff2.serialize({ 'Home.title': 'Home', 'a b': 'Spaced' }, { locale: 'en' });
+    expect(FORMATS.xliff2.deserialize(fresh)).toEqual({ 'Home.title': 'Home', 'a b': 'Spaced' });
+    const edited = FORMATS.xliff2.serialize({ 'Home.title': 'Start', 'a b': 'Spaced' }, { locale: 'en', previous: fresh });
+    expect(FORMATS.xliff2.deserialize(edited)).toEqual({ 'Home.title': 'Start', 'a b': 'Spaced' });
+  });
+});
+
+describe('ARB', () => {
+  const arb = FORMATS.arb;
+
+  it('keeps @key metadata, renamed identifiers and global attributes', () => {
+    const data = arb.deserialize(ARB);
+    expect(data).toEqual({ greeting: 'Hallo {name}', 'Home.title': 'Start' });
+    const content = JSON.parse(arb.serialize({ ...data, greeting: 'Servus {name}' }, { locale: 'de', previous: ARB }));
+    expect(content).toEqual({
+      '@@locale': 'de',
+      '@@last_modified': '2024-01-01',
+      greeting: 'Servus {name}',
+      '@greeting': { description: 'Greets the user', placeholders: { name: { type: 'String' } } },
+      homeTitle: 'Start',
+      '@homeTitle': { 'x-key': 'Home.title' },
+    });
+  });
+
+  it('takes the metadata of a renamed key to its new identifier', () => {
+    const content = JSON.parse(arb.serialize({ salutation: 'Hallo {name}', 'Home.title': 'Start' }, { locale: 'de', previous: ARB, renamed: { salutation: 'greeting' } }));
+    expect(content.salutation).toBe('Hallo {name}');
+    expect(content['@salutation']).toEqual({ description: 'Greets the user', placeholders: { name: { type: 'String' } } });
+    expect(content).not.toHaveProperty('greeting');
+  });
+});
+
+describe('PO', () => {
+  const po = FORMATS.po;
+
+  it('reads the singular form of plural entries', () => {
+    expect(po.deserialize(PO)).toEqual({ 'Inbox.item': 'Eintrag', 'Inbox.title': 'Posteingang' });
+  });
+
+  it('rewrites an unchanged file as it was', () => {
+    expect(po.serialize(po.deserialize(PO), { locale: 'de', previous: PO })).toBe(PO);
+  });
+
+  it('keeps comments, plural forms and obsolete entries when a value changes', () => {
+    const content = po.serialize({ 'Inbox.item': 'Element', 'Inbox.title': 'Eingang', 'Inbox.new': 'Neu' }, { locale: 'de', previous: PO });
+    expect(content).toContain('# Translator note\n#. Number of unread items\n#: src/Inbox.tsx:12');
+    expect(content).toContain('msgid_plural "items"\nmsgstr[0] "Element"\nmsgstr[1] "Einträge"');
+    expect(content).toContain('msgid "title"\nmsgstr "Eingang"');
+    expect(content).toContain('msgctxt "Inbox"\nmsgid "new"\nmsgstr "Neu"');
+    expect(content).toContain('"Plural-Forms: nplurals=2; plural=(n != 1);\\n"');
+    expect(content).toContain('#~ msgid "old"');
+    expect(po.deserialize(content)).toEqual({ 'Inbox.item': 'Element', 'Inbox.title': 'Eingang', 'Inbox.new': 'Neu' });
+  });
+
+  it('renames an entry in place', () => {
+    const content = po.serialize({ 'Inbox.entry': 'Eintrag', 'Inbox.title': 'Posteingang' }, { locale: 'de', previous: PO, renamed: { 'Inbox.entry': 'Inbox.item' } });
+    expect(content).toBe(PO.replace('msgid "item"', 'msgid "entry"'));
+  });
+
+  it('splits and joins the context with the key separator', () => {
+    const content = po.serialize({ 'Home:nav.title': 'Start' }, { locale: 'de', keySeparator: ':' });
+    expect(content).toContain('msgctxt "Home"\nmsgid "nav.title"\nmsgstr "Start"');
+    expect(po.deserialize(content, { keySeparator: ':' })).toEqual({ 'Home:nav.title': 'Start' });
+  });
+
+  it('writes keys without context when the file holds a single namespace', () => {
+    const content = po.serialize({ 'nav.home': 'Start', title: 'Titel' }, { locale: 'de', context: false });
+    expect(content).toContain('\nmsgid "nav.home"\nmsgstr "Start"');
+    expect(content).not.toContain('msgctxt');
+    expect(po.deserialize(content)).toEqual({ 'nav.home': 'Start', title: 'Titel' });
+  });
+
+  it('writes template source text as extracted comments', () => {
+    const template = FORMATS.pot.serialize({ 'Home.title': 'Welcome' }, { locale: 'en' });
+    expect(template).toContain('#. Welcome\nmsgctxt "Home"\nmsgid "title"\nmsgstr ""');
+    const updated = FORMATS.pot.serialize({ 'Home.title': 'Welcome back' }, { locale: 'en', previous: template });
+    expect(updated).toContain('#. Welcome back\nmsgctxt "Home"');
+    expect(updated).not.toContain('#. Welcome\n');
+  });
+});
+
+describe('Android', () => {
+  const android = FORMATS.android;
+  const RESOURCES = `<?xml version="1.0" encoding="utf-8"?>
+<resources>
+    <!-- Home screen -->
+    <string name="title">Start</string>
+    <string name="app_name" translatable="false">Acme</string>
+    <plurals name="items">
+        <item quantity="one">%d item</item>
+        <item quantity="other">%d items</item>
+    </plurals>
+    <string-array name="days">
+        <item>Mon</item>
+    </string-array>
+</resources>
+`;
+
+  it('changes only <string> elements and keeps comments, plurals and arrays', () => {
+    expect(android.deserialize(RESOURCES)).toEqual({ title: 'Start', app_name: 'Acme' });
+    const content = android.serialize({ heading: 'Home', app_name: 'Acme', added: "It's new" }, { locale: 'en', previous: RESOURCES, renamed: { heading: 'title' } });
+    expect(content).toBe(RESOURCES
+      .replace('<string name="title">Start</string>', '<string name="heading">Home</string>')
+      .replace('translatable="false">Acme</string>', 'translatable="false">Acme</string>\n    <string name="added">It\\\'s new</string>'));
+  });
+
+  it('removes deleted strings with their line', () => {
+    const content = android.serialize({ app_name: 'Acme' }, { locale: 'en', previous: RESOURCES });
+    expect(content).toBe(RESOURCES.replace('\n    <string name="title">Start</string>', ''));
+  });
+});
+
+describe('Apple strings', () => {
+  const strings = FORMATS.strings;
+  const LOCALIZABLE = `/* Title of the home screen */
+"title" = "Start";
+
+// Button
+"save" = "Sichern";
+`;
+
+  it('keeps comments when values change, keys are added or removed', () => {
+    const content = strings.serialize({ title: 'Home', cancel: 'Abbrechen' }, { locale: 'de', previous: LOCALIZABLE });
+    expect(content).toBe('/* Title of the home screen */\n"title" = "Home";\n"cancel" = "Abbrechen";\n\n// Button\n');
+    expect(strings.deserialize(content)).toEqual({ title: 'Home', cancel: 'Abbrechen' });
+  });
+});
+
+describe('YAML', () => {
+  const yaml = FORMATS.yaml;
+  const MESSAGES = `# Home page
+home:
+  # Shown in the browser tab
+  title: "Welcome"
+  intro: Hello there
+footer: Bye # short
+`;
+
+  it('edits the document so comments and quoting survive', () => {
+    const content = yaml.serialize({ home: { title: 'Willkommen', intro: 'Hello there', cta: 'Go' }, footer: 'Bye' }, { locale: 'de', previous: MESSAGES });
+    expect(content).toBe(`# Home page
+home:
+  # Shown in the browser tab
+  title: "Willkommen"
+  intro: Hello there
+  cta: Go
+footer: Bye # short
+`);
+  });
+});
@@ -0,0 +1,60 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { I18nCore } from '../core.js';
+
+describe('undo', () => {
+  let root: string;
+  let file: string;
+  let core: I18nCore;
+
+  beforeEach(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'mcp-i18n-history-'));
+    await fs.writeFile(path.join(root, 'package.json'), '{}');
+    file = path.join(root, 'en.json');
+    await fs.writeFile(file, '{\n  "title": "Inbox"\n}\n');
+    core = new I18nCore();
+  });
+
+  afterEach(async () => {
+    core.close();
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  async function edit(value: string): Promise<string> {
+    const result = await core.setTranslation({ localePath: file, key: 'title', value });
+    expect(result.failed).toBeFalsy();
+    return /Run id: (\S+)/.exec(result.text)![1];
+  }
+
+  it('restores the most recent run', async () => {
+    await edit('Mail');
+    expect((await core.undo({ projectDir: root })).failed).toBeFalsy();
+    expect(await fs.readFile(file, 'utf-8')).toBe('{\n  "title": "Inbox"\n}\n');
+  });
+
+  it('refuses to restore a run whose files a later run changed', async () => {
+    const first = await edit('Mail');
+    const second = await edit('Messages');
+    const result = await core.undo({ projectDir: root, runId: first });
+    expect(result.failed).toBe(true);
+    expect(result.text).toContain(`${file} (changed by run ${second})`);
+    expect(await fs.readFile(file, 'utf-8')).toContain('"Messages"');
+  });
+
+  it('refuses to restore a run whose files were edited by hand', async () => {
+    await edit('Mail');
+    await fs.writeFile(file, '{\n  "title": "Post"\n}\n');
+    const result = await core.undo({ projectDir: root });
+    expect(result.failed).toBe(true);
+    expect(result.text).toContain(`${file} (edited since)`);
+    expect(await fs.readFile(file, 'utf-8')).toContain('"Post"');
+  });
+
+  it('restores a changed run with force', async () => {
+    const first = await edit('Mail');
+    await edit('Messages');
+    expect((await core.undo({ projectDir: root, runId: first, force: true })).failed).toBeFalsy();
+    expect(await fs.readFile(file, 'utf-8')).toBe('{\n  "title": "Inbox"\n}\n');
+  });
+});
@@ -0,0 +1,51 @@
+import { icuArguments, IcuSyntaxError, parseIcu, printIcu } from '../icu.js';
+
+const NESTED = "{n, plural, offset:1 =0 {none} one {# and '#'} other {{g, select, f {her #} other {their #}}}}";
+
+describe('parseIcu', () => {
+  it('reads # as the plural number inside plural branches only, and quoted # as text', () => {
+    expect(parseIcu("#{n, plural, one {# and '#'} other {#}}")).toEqual([
+      { type: 'text', value: '#' },
+      {
+        type: 'plural',
+        name: 'n',
+        offset: 0,
+        options: { one: [{ type: 'pound' }, { type: 'text', value: ' and #' }], other: [{ type: 'pound' }] },
+      },
+    ]);
+  });
+
+  it('reads # in a select nested in a plural as the plural number', () => {
+    const [plural] = parseIcu(NESTED);
+    expect(plural).toMatchObject({ type: 'plural', offset: 1 });
+    expect((plural as { options: Record<string, unknown> }).options.other).toEqual([{
+      type: 'select',
+      name: 'g',
+      offset: 0,
+      options: { f: [{ type: 'text', value: 'her ' }, { type: 'pound' }], other: [{ type: 'text', value: 'their ' }, { type: 'pound' }] },
+    }]);
+    expect(icuArguments(parseIcu(NESTED))).toEqual(['n', 'g']);
+  });
+
+  it('prints what it parses', () => {
+    expect(printIcu(parseIcu(NESTED))).toBe(NESTED);
+    expect(printIcu(parseIcu("It's '{'literal'}' {count, number}"))).toBe("It's '{'literal'}' {count, number}");
+    expect(parseIcu(printIcu(parseIcu("It''s")))).toEqual([{ type: 'text', value: "It's" }]);
+  });
+
+  it('throws IcuSyntaxError with the offset of the first problem', () => {
+    const error = (message: string) => {
+      try {
+        parseIcu(message);
+      } catch (caught: unknown) {
+        return caught instanceof IcuSyntaxError ? [caught.message, caught.offset] : caught;
+      }
+      return null;
+    };
+    expect(error('{n, plural, one {x}}')).toEqual(['Missing "other" case in plural at offset 19', 19]);
+    expect(error('Hi {')).toEqual(['Expected argument name at offset 4', 4]);
+    expect(error('Hi }')).toEqual(['Unmatched "}" at offset 3', 3]);
+    expect(error('{n, foo}')).toEqual(['Unknown argument type "foo" at offset 0', 0]);
+    expect(error('{n, plural, one {x} other {y}')).toEqual(['Expected "}" before the end at offset 29', 29]);
+  });
+});
@@ -0,0 +1,73 @@
+import { parseExpression } from '@babel/parser';
+import { parseIcu } from '../icu.js';
+import { interpolate, placeholderArguments, placeholderName, type PlaceholderStyle } from '../interpolation.js';
+
+const expression = (code: string) => parseExpression(code, { plugins: ['typescript'] });
+const convert = (code: string, style: PlaceholderStyle = 'icu') => interpolate(expression(code), code, style);
+
+describe('placeholder names', () => {
+  it('names a placeholder after its expression', () => {
+    expect(placeholderName(expression('user.name'))).toBe('userName');
+    expect(placeholderName(expression('items.length'))).toBe('itemsLength');
+    expect(placeholderName(expression('format(date)'))).toBe('format');
+    expect(placeholderName(expression('user?.profile!.name as string'))).toBe('userProfileName');
+    expect(placeholderName(expression('1 + 2'))).toBe('value');
+  });
+
+  it('reuses the name of an identical expression and numbers different ones', () => {
+    expect(convert('`${user.name} and ${user.name}, ${a.b} and ${a["b"]} and ${a}`', 'mustache')).toEqual({
+      message: '{{userName}} and {{userName}}, {{aB}} and {{a}} and {{a2}}',
+      placeholders: { userName: 'user.name', aB: 'a.b', a: 'a["b"]', a2: 'a' },
+    });
+  });
+
+  it('writes the values object of a translation call', () => {
+    expect(placeholderArguments({ userName: 'user.name', count: 'count' })).toBe('{ userName: user.name, count }');
+  });
+});
+
+describe('ICU conversion', () => {
+  it('turns a count comparison into a plural', () => {
+    expect(convert('`You have ${count} ${count === 1 ? "item" : "items"}`')?.message)
+      .toBe('You have {count} {count, plural, one {item} other {items}}');
+  });
+
+  it('turns chained and negated comparisons into plural cases, with # for the subject', () => {
+    expect(convert('count === 0 ? "No files" : count === 1 ? "One file" : `${count} files`')?.message)
+      .toBe('{count, plural, =0 {No files} one {One file} other {# files}}');
+    expect(convert('n !== 1 ? `${n} items` : "one item"')?.message).toBe('{n, plural, one {one item} other {# items}}');
+  });
+
+  it('quotes a literal # in plural branches but not outside them', () => {
+    const result = convert('`#${rank}: ${count === 1 ? "#1 item" : `${count} items`}`');
+    expect(result?.message).toBe("#{rank}: {count, plural, one {'#'1 item} other {# items}}");
+    expect(() => parseIcu(result!.message)).not.toThrow();
+  });
+
+  it('turns string comparisons and booleans into selects', () => {
+    expect(convert('role === "admin" ? "Admin" : role === "editor" ? `Editor ${name}` : "User"')).toEqual({
+      message: '{role, select, admin {Admin} editor {Editor {name}} other {User}}',
+      placeholders: { name: 'name', role: 'role' },
+    });
+    expect(convert('isAdmin ? "Admin" : "User"')?.message).toBe('{isAdmin, select, true {Admin} other {User}}');
+  });
+
+  it('nests plurals in selects and selects in plurals', () => {
+    expect(convert('user.isAdmin ? (count === 1 ? "one admin" : `${count} admins`) : "User"')?.message)
+      .toBe('{userIsAdmin, select, true {{count, plural, one {one admin} other {# admins}}} other {User}}');
+    expect(convert('count === 1 ? "one" : role === "admin" ? `${count} admins` : `${count} users`')?.message)
+      .toBe('{count, plural, one {one} other {{role, select, admin {# admins} other {# users}}}}');
+  });
+
+  it('keeps other ternaries as one placeholder and quotes braces in text', () => {
+    expect(convert('`${a > b ? "x" : "y"} and {braces}`')).toEqual({
+      message: "{aText} and '{'braces'}'",
+      placeholders: { aText: 'a > b ? "x" : "y"' },
+    });
+  });
+
+  it('leaves other expressions alone', () => {
+    expect(convert('"plain"')).toBeNull();
+    expect(convert('count === 1 ? "item" : "items"', 'mustache')).toBeNull();
+  });
+});
@@ -0,0 +1,132 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { I18nCore } from '../core.js';
+import { formatMergeReport, mergeLocaleData, MERGE_STRATEGIES } from '../merge.js';
+
+const existing = {
+  title: 'Welcome',
+  empty: '',
+  nested: { save: 'Save', cancel: 'Cancel' },
+  list: ['a', 'b'],
+};
+
+const incoming = {
+  title: 'Welcome back',
+  empty: 'Filled',
+  added: 'New',
+  nested: { save: 'Save', extra: { deep: 'Deep' } },
+  list: ['a', 'b', 'c'],
+};
+
+describe('mergeLocaleData', () => {
+  it('keeps existing values and reports conflicts with keep-existing', () => {
+    const { data, report } = mergeLocaleData(existing, incoming, 'keep-existing');
+    expect(data).toEqual({
+      title: 'Welcome',
+      empty: '',
+      nested: { save: 'Save', cancel: 'Cancel', extra: { deep: 'Deep' } },
+      list: ['a', 'b'],
+      added: 'New',
+    });
+    expect(report.added).toEqual(['added', 'nested.extra.deep']);
+    expect(report.changed).toEqual([]);
+    expect(report.conflicts.map(conflict => conflict.key)).toEqual(['title', 'empty', 'list']);
+    expect(report.unchanged).toEqual(['nested.save']);
+  });
+
+  it('replaces differing values with overwrite', () => {
+    const { data, report } = mergeLocaleData(existing, incoming, 'overwrite');
+    expect(data.title).toBe('Welcome back');
+    expect(data.empty).toBe('Filled');
+    expect(data.list).toEqual(['a', 'b', 'c']);
+    expect(report.changed).toEqual([
+      { key: 'title', existing: 'Welcome', incoming: 'Welcome back' },
+      { key: 'empty', existing: '', incoming: 'Filled' },
+      { key: 'list', existing: ['a', 'b'], incoming: ['a', 'b', 'c'] },
+    ]);
+    expect(report.conflicts).toEqual([]);
+  });
+
+  it('only fills empty values with fill-empty-only', () => {
+    const { data, report } = mergeLocaleData(existing, incoming, 'fill-empty-only');
+    expect(data.title).toBe('Welcome');
+    expect(data.empty).toBe('Filled');
+    expect(report.changed.map(change => change.key)).toEqual(['empty']);
+    expect(report.conflicts.map(conflict => conflict.key)).toEqual(['title', 'list']);
+  });
+
+  it('keeps existing values and leaves rejection to the caller with fail-on-conflict', () => {
+    const { data, report } = mergeLocaleData(existing, incoming, 'fail-on-conflict');
+    expect(data.title).toBe('Welcome');
+    expect(data.empty).toBe('');
+    expect(report.conflicts.map(conflict => conflict.key)).toEqual(['title', 'empty', 'list']);
+  });
+
+  it.each(MERGE_STRATEGIES)('never replaces a value with an empty extracted one (%s)', strategy => {
+    const { data, report } = mergeLocaleData({ title: 'Welcome' }, { title: '' }, strategy);
+    expect(data).toEqual({ title: 'Welcome' });
+    expect(report.unchanged).toEqual(['title']);
+  });
+
+  it('compares values of different types as a whole', () => {
+    const { data, report } = mergeLocaleData({ label: { short: 'L' } }, { label: 'Label' }, 'keep-existing');
+    expect(data).toEqual({ label: { short: 'L' } });
+    expect(report.conflicts).toEqual([{ key: 'label', existing: { short: 'L' }, incoming: 'Label' }]);
+  });
+
+  it('adds keys named like Object.prototype members', () => {
+    const { data, report } = mergeLocaleData({ title: 'Title' }, { constructor: 'Builder', toString: 'Text', nested: { valueOf: 'Value' } }, 'keep-existing');
+    expect(data).toEqual({ title: 'Title', constructor: 'Builder', toString: 'Text', nested: { valueOf: 'Value' } });
+    expect(report.added).toEqual(['constructor', 'toString', 'nested.valueOf']);
+    expect(report.conflicts).toEqual([]);
+  });
+
+  it('joins report keys with the separator', () => {
+    const { report } = mergeLocaleData({ nav: { home: 'Home' } }, { nav: { home: 'Start', about: { title: 'About' } } }, 'overwrite', ':');
+    expect(report.added).toEqual(['nav:about:title']);
+    expect(report.changed.map(change => change.key)).toEqual(['nav:home']);
+  });
+
+  it('does not mutate its inputs', () => {
+    const before = JSON.parse(JSON.stringify(existing));
+    mergeLocaleData(existing, incoming, 'overwrite');
+    expect(existing).toEqual(before);
+  });
+});
+
+describe('merging into a locale file', () => {
+  let root: string;
+  let core: I18nCore;
+
+  beforeEach(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'mcp-i18n-merge-'));
+    await fs.writeFile(path.join(root, 'package.json'), '{}');
+    await fs.writeFile(path.join(root, 'messages.ts'), "export default { title: 'Inbox' };\n");
+    core = new I18nCore();
+  });
+
+  afterEach(async () => {
+    core.close();
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  it('fails instead of overwriting a file it cannot parse', async () => {
+    const targetPath = path.join(root, 'en.json');
+    await fs.writeFile(targetPath, '{ "title": ');
+    const result = await core.extract({ sourcePath: path.join(root, 'messages.ts'), targetPath });
+    expect(result.failed).toBe(true);
+    expect(result.text).toContain(`Could not parse ${targetPath}`);
+    expect(await fs.readFile(targetPath, 'utf-8')).toBe('{ "title": ');
+  });
+});
+
+describe('formatMergeReport', () => {
+  it('summarizes the report and leaves out added and unchanged keys when brief', () => {
+    const { report } = mergeLocaleData(existing, incoming, 'keep-existing');
+    const lines = formatMergeReport(report, true);
+    expect(lines[0]).toBe('Added 2, changed 0, conflicting 3, unchanged 1 keys.');
+    expect(lines).toContain('- title: "Welcome" vs extracted "Welcome back"');
+    expect(lines).not.toContain('Added:');
+  });
+});
@@ -0,0 +1,46 @@
+import { parseIcu } from '../icu.js';
+import { pseudoLocalize, pseudoLocalizeData } from '../pseudo.js';
+
+describe('pseudoLocalize', () => {
+  it('accents letters, pads by 30% and adds brackets', () => {
+    expect(pseudoLocalize('Hello')).toBe('[Ĥéĺĺö~~]');
+  });
+
+  it('keeps mustache, printf and $t() placeholders', () => {
+    expect(pseudoLocalize('Hello {{name}}, you have %d items')).toBe('[Ĥéĺĺö {{name}}, ýöû ĥåṽé %d îţéɱš~~~~~~~]');
+    expect(pseudoLocalize('See $t(common.help)')).toBe('[Šéé $t(common.help)~~]');
+  });
+
+  it('keeps HTML and component tags and entities', () => {
+    expect(pseudoLocalize('Read <b>the docs</b> &amp; <0>more</0>')).toBe('[Ŕéåđ <b>ţĥé đöçš</b> &amp; <0>ɱöŕé</0>~~~~~~]');
+  });
+
+  it('changes only the text of ICU messages, so they stay valid', () => {
+    const result = pseudoLocalize('{count, plural, one {# file} other {# files}}');
+    expect(result).toBe('[{count, plural, one {# ƒîĺé} other {# ƒîĺéš}}~~]');
+    expect(() => parseIcu(result.slice(1, -3))).not.toThrow();
+  });
+
+  it('keeps single-brace arguments of messages that are not valid ICU', () => {
+    expect(pseudoLocalize('Hi {name} {{user}}')).toBe('[Ĥî {name} {{user}}~~]');
+  });
+
+  it('wraps text in right-to-left override marks', () => {
+    expect(pseudoLocalize('Hello', { rtl: true })).toBe('[‮Ĥéĺĺö‬~~]');
+  });
+
+  it('pads by the given expansion and can leave out brackets and accents', () => {
+    expect(pseudoLocalize('Hello', { expansion: 1, brackets: false, accents: false })).toBe('Hello~~~~~');
+    expect(pseudoLocalize('Hello', { expansion: 0 })).toBe('[Ĥéĺĺö]');
+  });
+
+  it('leaves blank messages alone', () => {
+    expect(pseudoLocalize('  ')).toBe('  ');
+  });
+});
+
+describe('pseudoLocalizeData', () => {
+  it('localizes every string and keeps the structure and other values', () => {
+    expect(pseudoLocalizeData({ a: ['Hi'], n: 1, b: { c: 'Yes' } }, { expansion: 0 })).toEqual({ a: ['[Ĥî]'], n: 1, b: { c: '[Ýéš]' } });
+  });
+});
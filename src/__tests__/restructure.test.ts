@@ -0,0 +1,33 @@
+import { rewriteKeyReferences } from '../restructure.js';
+
+const HOME = `
+export function Home() {
+  const t = useTranslations('common');
+  const a = useTranslations('about');
+  return <main>{t('title')}{a('title')}{t(\`titleBar.\${kind}\`)}</main>;
+}
+`;
+
+describe('rewriteKeyReferences', () => {
+  it('matches namespace-prefixed keys', () => {
+    const result = rewriteKeyReferences(HOME, [{ from: 'common.title', to: 'common.heading' }], { filePath: 'Home.tsx' });
+    expect(result.changes.map(change => `${change.from} -> ${change.to}`)).toEqual(['common.title -> common.heading']);
+    expect(result.code).toContain("{t('heading')}{a('title')}");
+  });
+
+  it('resolves moves of a namespace file relative to its namespace', () => {
+    const result = rewriteKeyReferences(HOME, [{ from: 'title', to: 'heading' }], {
+      filePath: 'Home.tsx',
+      scope: { namespace: 'common', defaultNamespace: 'common' },
+    });
+    expect(result.changes.map(change => `${change.from} -> ${change.to}`)).toEqual(['title -> heading']);
+    expect(result.code).toContain("{t('heading')}{a('title')}");
+  });
+
+  it('flags dynamic keys only below the moved key', () => {
+    const scope = { namespace: 'common', defaultNamespace: 'common' };
+    expect(rewriteKeyReferences(HOME, [{ from: 'title', to: 'heading' }], { filePath: 'Home.tsx', scope }).skipped).toEqual([]);
+    expect(rewriteKeyReferences(HOME, [{ from: 'titleBar', to: 'toolbar' }], { filePath: 'Home.tsx', scope }).skipped)
+      .toEqual([expect.objectContaining({ key: 'titleBar.*', reason: 'key is built at runtime' })]);
+  });
+});
@@ -0,0 +1,79 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { I18nCore } from '../core.js';
+
+const HOME = `
+export function Home() {
+  const t = useTranslations('common');
+  const a = useTranslations('about');
+  const n = useTranslations('nav');
+  return <main>{t('title')}{t('save')}{a('title')}{n('home')}{n('about')}</main>;
+}
+`;
+
+describe('sync_keys', () => {
+  let root: string;
+  let core: I18nCore;
+
+  beforeEach(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'mcp-i18n-sync-'));
+    await fs.writeFile(path.join(root, 'package.json'), '{}');
+    await fs.mkdir(path.join(root, 'src'));
+    await fs.writeFile(path.join(root, 'src', 'Home.tsx'), HOME);
+    await fs.mkdir(path.join(root, 'locales', 'en'), { recursive: true });
+    core = new I18nCore();
+  });
+
+  afterEach(async () => {
+    core.close();
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  it('compares a namespace file with the bare keys of its namespace', async () => {
+    const localePath = path.join(root, 'locales', 'en', 'common.json');
+    await fs.writeFile(localePath, JSON.stringify({ title: 'Title', legacy: 'Old' }, null, 2));
+    const result = await core.syncKeys({ sourcePath: path.join(root, 'src'), localePath, addMissing: true, pruneUnused: true });
+    expect(result.structured?.namespace).toBe('common');
+    expect(result.structured?.missing.map((usage: { key: string }) => usage.key)).toEqual(['save']);
+    expect(result.structured?.unused).toEqual(['legacy']);
+    expect(JSON.parse(await fs.readFile(localePath, 'utf-8'))).toEqual({ title: 'Title', save: '' });
+  });
+
+  it('takes a short namespace name for a namespace, not a locale', async () => {
+    const localePath = path.join(root, 'locales', 'en', 'nav.json');
+    await fs.writeFile(localePath, JSON.stringify({ home: 'Home', about: 'About' }, null, 2));
+    const result = await core.syncKeys({ sourcePath: path.join(root, 'src'), localePath, addMissing: true, pruneUnused: true });
+    expect(result.structured?.namespace).toBe('nav');
+    expect(result.structured?.missing).toEqual([]);
+    expect(result.structured?.unused).toEqual([]);
+    expect(JSON.parse(await fs.readFile(localePath, 'utf-8'))).toEqual({ home: 'Home', about: 'About' });
+  });
+
+  it('compares a single-file catalog with namespace-prefixed keys', async () => {
+    const localePath = path.join(root, 'locales', 'en.json');
+    await fs.writeFile(localePath, JSON.stringify({ common: { title: 'Title' }, about: { title: 'About' } }, null, 2));
+    const result = await core.syncKeys({ sourcePath: path.join(root, 'src'), localePath });
+    expect(result.structured?.namespace).toBeNull();
+    expect(result.structured?.missing.map((usage: { key: string }) => usage.key)).toEqual(['common.save', 'nav.home', 'nav.about']);
+    expect(result.structured?.unused).toEqual([]);
+  });
+
+  it('keeps the keys of a namespace used with a non-literal key', async () => {
+    await fs.mkdir(path.join(root, 'status'));
+    await fs.writeFile(path.join(root, 'status', 'Status.tsx'), `
+const LABELS = { ok: 'ok', failed: 'failed' };
+export function Status({ status, k }) {
+  const t = useTranslations('Status');
+  return <p>{t(LABELS[status])}{t(k)}</p>;
+}
+`);
+    const localePath = path.join(root, 'locales', 'en.json');
+    await fs.writeFile(localePath, JSON.stringify({ Status: { ok: 'OK', failed: 'Failed' }, legacy: 'Old' }, null, 2));
+    const result = await core.syncKeys({ sourcePath: path.join(root, 'status'), localePath, pruneUnused: true });
+    expect(result.structured?.unused).toEqual(['legacy']);
+    expect(result.structured?.wildcards.map((wildcard: { prefix: string; covered: string[] }) => [wildcard.prefix, wildcard.covered]))
+      .toEqual([['Status.', ['Status.ok', 'Status.failed']]]);
+    expect(JSON.parse(await fs.readFile(localePath, 'utf-8'))).toEqual({ Status: { ok: 'OK', failed: 'Failed' } });
+  });
+});
@@ -0,0 +1,64 @@
+import { fillTranslations, type TranslationProvider, type TranslationRequest } from '../translate.js';
+
+// Answers from a fixed table, recording what it was asked
+function provider(answers: Record<string, string | null>): TranslationProvider & { requests: TranslationRequest[] } {
+  const requests: TranslationRequest[] = [];
+  return {
+    name: 'table',
+    requests,
+    translate: async batch => {
+      requests.push(...batch);
+      return batch.map(request => answers[request.key] ?? null);
+    },
+  };
+}
+
+const options = { sourceLocale: 'en', targetLocale: 'de' };
+
+describe('fillTranslations', () => {
+  it('asks only for missing and empty messages, with their comments', async () => {
+    const table = provider({ title: 'Startseite', 'nav.about': 'Über uns' });
+    const result = await fillTranslations(table, { title: 'Home', nav: { home: 'Home', about: 'About' }, count: 3 }, { nav: { home: 'Start', about: '' } }, {
+      ...options,
+      comments: { title: 'Page title' },
+    });
+    expect(table.requests).toEqual([
+      { key: 'title', text: 'Home', sourceLocale: 'en', targetLocale: 'de', comment: 'Page title' },
+      { key: 'nav.about', text: 'About', sourceLocale: 'en', targetLocale: 'de' },
+    ]);
+    expect(result).toEqual({ data: { 'nav.home': 'Start', 'nav.about': 'Über uns', title: 'Startseite' }, filled: ['title', 'nav.about'], rejected: [] });
+  });
+
+  it('does not call the provider when nothing is missing', async () => {
+    const table = provider({});
+    expect(await fillTranslations(table, { title: 'Home' }, { title: 'Start' }, options)).toEqual({ data: { title: 'Start' }, filled: [], rejected: [] });
+    expect(table.requests).toEqual([]);
+  });
+
+  it('keeps the answers it has and rejects missing ones', async () => {
+    const result = await fillTranslations(provider({ title: 'Startseite', save: '  ' }), { title: 'Home', save: 'Save', help: 'Help' }, {}, options);
+    expect(result.filled).toEqual(['title']);
+    expect(result.data).toEqual({ title: 'Startseite' });
+    expect(result.rejected).toEqual([{ key: 'save', reason: 'no translation' }, { key: 'help', reason: 'no translation' }]);
+  });
+
+  it('rejects answers that change placeholders or are not valid ICU', async () => {
+    const result = await fillTranslations(
+      provider({ greeting: 'Hallo {nom}', welcome: 'Willkommen {{user}}', count: '{n, plural, one {# Datei} other {# Dateien}' }),
+      { greeting: 'Hello {name}', welcome: 'Welcome {{user}}', count: '{n, plural, one {# file} other {# files}}' },
+      {},
+      options
+    );
+    expect(result.filled).toEqual(['welcome']);
+    expect(result.rejected).toEqual([
+      { key: 'greeting', reason: 'placeholders differ (missing name; extra nom)' },
+      { key: 'count', reason: 'invalid ICU: Expected "}" before the end at offset 43' },
+    ]);
+  });
+
+  it('fails when the provider answers a different number of messages', async () => {
+    const short: TranslationProvider = { name: 'short', translate: async () => ['Startseite'] };
+    await expect(fillTranslations(short, { title: 'Home', save: 'Save' }, {}, options))
+      .rejects.toThrow('Translation provider "short" returned 1 translations for 2 messages');
+  });
+});
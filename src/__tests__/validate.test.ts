@@ -0,0 +1,148 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { I18nCore } from '../core.js';
+import { localeFromPath, namespaceFromPath, scaffoldMissing, swapLocale, validateLocales } from '../validate.js';
+
+describe('locale paths', () => {
+  it('reads the locale from the file name or its directory', () => {
+    expect(localeFromPath('locales/de.json')).toBe('de');
+    expect(localeFromPath('locales/de/common.json')).toBe('de');
+    expect(namespaceFromPath('locales/de/common.json')).toBe('common');
+    expect(namespaceFromPath('locales/de.json')).toBeNull();
+  });
+
+  it('takes the directory when a short namespace name looks like a locale', () => {
+    expect(localeFromPath('locales/en/nav.json')).toBe('en');
+    expect(namespaceFromPath('locales/en/nav.json')).toBe('nav');
+    expect(swapLocale('locales/en/nav.json', 'fr')).toBe(path.join('locales', 'fr', 'nav.json'));
+    expect(swapLocale('locales/en.json', 'fr')).toBe(path.join('locales', 'fr.json'));
+  });
+
+  it('prefers configured locales', () => {
+    expect(localeFromPath('app/de.json', ['en', 'de'])).toBe('de');
+    expect(namespaceFromPath('app/de.json', ['en', 'de'])).toBeNull();
+    expect(swapLocale('app/de.json', 'fr', ['en', 'de'])).toBe(path.join('app', 'fr.json'));
+    expect(localeFromPath('locales/pt-BR/faq.json', ['en', 'pt-BR'])).toBe('pt-BR');
+  });
+});
+
+describe('validateLocales', () => {
+  const reference = {
+    locale: 'en',
+    file: 'en.json',
+    data: {
+      title: 'Home',
+      greeting: 'Hello {name}',
+      count: '{n, plural, one {# item} other {# items}}',
+      welcome: 'Welcome {{user}}',
+      price: 42,
+      nested: { a: 'A', b: 'B' },
+      broken: 'Oops {',
+      total: '{n}',
+    },
+  };
+  const validate = (data: Record<string, any>) => validateLocales(reference, [{ locale: 'de', file: 'de.json', data }]).locales[0];
+
+  it('reports invalid ICU in the reference once', () => {
+    const report = validateLocales(reference, []);
+    expect(report.reference).toEqual({
+      locale: 'en',
+      file: 'en.json',
+      keys: 9,
+      invalidIcu: [{ key: 'broken', error: 'Expected argument name at offset 6' }],
+    });
+    expect(validate({ broken: 'Kaputt {x}' }).placeholderMismatches).toEqual([]);
+  });
+
+  it('reports missing, extra, empty and identical keys and the completeness', () => {
+    const result = validate({
+      title: 'Home',
+      greeting: 'Hallo {name}',
+      count: '{n, plural, one {# item} other {# items}}',
+      welcome: 'Willkommen {{user}}',
+      price: 42,
+      'nested.a': '',
+      broken: 'Kaputt',
+      total: '{n}',
+      extra: { x: 'X' },
+    });
+    expect(result.missing).toEqual(['nested.b']);
+    expect(result.extra).toEqual(['extra.x']);
+    expect(result.empty).toEqual(['nested.a']);
+    expect(result.identical).toEqual(['title', 'count']);
+    expect(result.total).toBe(9);
+    expect(result.translated).toBe(7);
+    expect(result.completeness).toBe(77.8);
+  });
+
+  it('rounds the completeness to one decimal', () => {
+    expect(validate({ title: 'Start' }).completeness).toBe(11.1);
+    expect(validateLocales({ locale: 'en', file: 'en.json', data: {} }, [{ locale: 'de', file: 'de.json', data: {} }]).locales[0].completeness).toBe(100);
+  });
+
+  it('reports ICU and mustache placeholder mismatches', () => {
+    expect(validate({ greeting: 'Hallo {nom}', welcome: 'Willkommen {{name}}' }).placeholderMismatches).toEqual([
+      { key: 'greeting', missing: ['name'], extra: ['nom'] },
+      { key: 'welcome', missing: ['user'], extra: ['name'] },
+    ]);
+  });
+
+  it('reports invalid ICU in translations', () => {
+    expect(validate({ count: '{n, plural, one {# Eintrag} other {# Einträge}' }).invalidIcu)
+      .toEqual([{ key: 'count', error: 'Expected "}" before the end at offset 46' }]);
+  });
+
+  it('reports type mismatches', () => {
+    expect(validate({ price: '42', nested: 'A, B' }).typeMismatches).toEqual([
+      { key: 'price', expected: 'number', actual: 'string' },
+      { key: 'nested', expected: 'object', actual: 'string' },
+    ]);
+  });
+});
+
+describe('scaffoldMissing', () => {
+  const reference = { title: 'Home', nested: { a: 'A', b: 'B' }, price: 42 };
+
+  it('adds missing strings as empty strings, keeping other values', () => {
+    expect(scaffoldMissing({ title: 'Start' }, reference, ['nested.a', 'nested.b', 'price'], 'empty'))
+      .toEqual({ title: 'Start', 'nested.a': '', 'nested.b': '', price: 42 });
+  });
+
+  it('adds missing keys as copies of the reference', () => {
+    expect(scaffoldMissing({ nested: { a: 'Ä' } }, reference, ['title', 'nested.b'], 'source'))
+      .toEqual({ 'nested.a': 'Ä', title: 'Home', 'nested.b': 'B' });
+  });
+});
+
+describe('locale tools on namespace files', () => {
+  let root: string;
+  let core: I18nCore;
+
+  beforeEach(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'mcp-i18n-validate-'));
+    await fs.writeFile(path.join(root, 'package.json'), '{}');
+    await fs.writeFile(path.join(root, '.mcp-i18nrc.json'), JSON.stringify({ locales: ['en', 'fr'] }));
+    await fs.mkdir(path.join(root, 'locales', 'en'), { recursive: true });
+    await fs.writeFile(path.join(root, 'locales', 'en', 'nav.json'), JSON.stringify({ home: 'Home' }, null, 2));
+    core = new I18nCore();
+  });
+
+  afterEach(async () => {
+    core.close();
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  it('scaffolds the namespace file of the other locale', async () => {
+    const result = await core.validateLocales({ reference: path.join(root, 'locales', 'en', 'nav.json'), scaffold: true });
+    expect(result.failed).toBeFalsy();
+    expect(JSON.parse(await fs.readFile(path.join(root, 'locales', 'fr', 'nav.json'), 'utf-8'))).toEqual({ home: '' });
+    expect(await fs.readdir(path.join(root, 'locales', 'en'))).toEqual(['nav.json']);
+  });
+
+  it('pseudo-localizes into the namespace file of the pseudo locale', async () => {
+    const result = await core.pseudoLocalize({ sourcePath: path.join(root, 'locales', 'en', 'nav.json') });
+    expect(result.failed).toBeFalsy();
+    expect(Object.keys(JSON.parse(await fs.readFile(path.join(root, 'locales', 'en-XA', 'nav.json'), 'utf-8')))).toEqual(['home']);
+  });
+});
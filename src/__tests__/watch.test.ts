@@ -0,0 +1,36 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { watchSources } from '../watch.js';
+
+describe('watchSources', () => {
+  it('reports changed source files once per burst', async () => {
+    const root = await fs.mkdtemp(path.join(os.tmpdir(), 'mcp-i18n-watch-'));
+    const bursts: string[][] = [];
+    const watcher = watchSources(root, { include: ['**/*'], exclude: [], debounceMs: 50 }, async files => {
+      bursts.push(files);
+    });
+    try {
+      await fs.writeFile(path.join(root, 'Home.tsx'), 'export {};');
+      await fs.writeFile(path.join(root, 'notes.txt'), 'ignored');
+      await new Promise(resolve => setTimeout(resolve, 300));
+      expect(bursts).toEqual([['Home.tsx']]);
+    } finally {
+      watcher.close();
+      await fs.rm(root, { recursive: true, force: true });
+    }
+  });
+
+  it('closes and reports the error when the watched directory goes away', async () => {
+    const root = await fs.mkdtemp(path.join(os.tmpdir(), 'mcp-i18n-watch-'));
+    const errors: Error[] = [];
+    const watcher = watchSources(root, { include: ['**/*'], exclude: [], onError: error => errors.push(error) }, async () => {});
+    try {
+      await fs.rm(root, { recursive: true, force: true });
+      for (let attempt = 0; attempt < 20 && errors.length === 0; attempt++) await new Promise(resolve => setTimeout(resolve, 50));
+      expect(errors).toHaveLength(1);
+    } finally {
+      watcher.close();
+    }
+  });
+});
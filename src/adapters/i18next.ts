@@ -0,0 +1,148 @@
+import type { NodePath } from '@babel/traverse';
+import * as t from '@babel/types';
+import { traverse } from '../ast.js';
+import type { AdapterOptions, ExtractedKey, ExtractorAdapter } from './types.js';
+import {
+  calleeName,
+  extractedKey,
+  keyValue,
+  logicalDefault,
+  objectProperty,
+  registerTranslator,
+  stringValue,
+  translatorNamespace,
+  unwrapAwait,
+} from './utils.js';
+
+const I18N_OBJECTS = ['i18n', 'i18next'];
+
+// useTranslation('ns') or useTranslation(['ns', 'other']): the first namespace is the default
+function namespaceArgument(node: t.Node | null | undefined): string {
+  if (t.isArrayExpression(node)) return stringValue(node.elements[0]) ?? '';
+  return stringValue(node) ?? '';
+}
+
+// i18n.t(), i18next.t() and this.props.i18n.t()
+function isI18nInstance(node: t.Node, i18nBindings: Set<string>): boolean {
+  if (t.isIdentifier(node)) return I18N_OBJECTS.includes(node.name) || i18nBindings.has(node.name);
+  return t.isMemberExpression(node) && !node.computed && t.isIdentifier(node.property) && node.property.name === 'i18n';
+}
+
+// Flatten <Trans> children the way i18next does: elements become <index>...</index>, objects {{name}}
+function transChildrenToString(children: t.JSXElement['children']): string {
+  const meaningful = children.filter(child => !(t.isJSXText(child) && /^\s*$/.test(child.value) && child.value.includes('\n')));
+  return meaningful.map((child, index) => {
+    if (t.isJSXText(child)) return child.value.replace(/\s*\n\s*/g, ' ');
+    if (t.isJSXElement(child)) return `<${index}>${transChildrenToString(child.children)}</${index}>`;
+    if (t.isJSXExpressionContainer(child)) {
+      const value = stringValue(child.expression);
+      if (value !== null) return value;
+      if (t.isObjectExpression(child.expression)) {
+        const prop = child.expression.properties[0];
+        if (t.isObjectProperty(prop) && t.isIdentifier(prop.key)) return `{{${prop.key.name}}}`;
+      }
+    }
+    return '';
+  }).join('').trim();
+}
+
+function jsxAttribute(element: t.JSXOpeningElement, name: string): t.Node | null {
+  for (const attribute of element.attributes) {
+    if (!t.isJSXAttribute(attribute) || !t.isJSXIdentifier(attribute.name) || attribute.name.name !== name) continue;
+    return (t.isJSXExpressionContainer(attribute.value) ? attribute.value.expression : attribute.value) ?? null;
+  }
+  return null;
+}
+
+// Split "ns:key" into its namespace and key
+function splitNamespace(key: string, namespace: string): [string, string] {
+  const separator = key.indexOf(':');
+  if (separator > 0 && /^[\w.-]+$/.test(key.slice(0, separator))) {
+    return [key.slice(0, separator), key.slice(separator + 1)];
+  }
+  return [namespace, key];
+}
+
+// i18next / react-i18next: useTranslation, getFixedT, i18n.t, <Trans i18nKey>, t('key', { defaultValue, ns })
+export const i18nextAdapter: ExtractorAdapter = {
+  name: 'i18next',
+  extract(ast: t.File, options: AdapterOptions = {}): ExtractedKey[] {
+    const hooks = ['useTranslation', ...(options.hooks || [])];
+    const translators = new Map<t.Node, string>();
+    const i18nBindings = new Set<string>();
+    const calls: NodePath<t.CallExpression>[] = [];
+    const transElements: NodePath<t.JSXElement>[] = [];
+
+    traverse(ast, {
+      ImportDeclaration(path: NodePath<t.ImportDeclaration>) {
+        if (path.node.source.value !== 'i18next') return;
+        for (const specifier of path.node.specifiers) {
+          if (t.isImportDefaultSpecifier(specifier)) i18nBindings.add(specifier.local.name);
+          if (t.isImportSpecifier(specifier) && t.isIdentifier(specifier.imported) && specifier.imported.name === 't') {
+            translators.set(specifier.local, '');
+          }
+        }
+      },
+      VariableDeclarator(path: NodePath<t.VariableDeclarator>) {
+        const init = unwrapAwait(path.node.init);
+        if (!t.isCallExpression(init)) return;
+        const name = calleeName(init.callee);
+        if (name !== null && hooks.includes(name)) {
+          registerTranslator(path.node, 't', namespaceArgument(init.arguments[0]), translators);
+        } else if (name === 'getFixedT') {
+          registerTranslator(path.node, null, namespaceArgument(init.arguments[1]), translators);
+        }
+      },
+      CallExpression(path: NodePath<t.CallExpression>) {
+        calls.push(path);
+      },
+      JSXElement(path: NodePath<t.JSXElement>) {
+        const name = path.node.openingElement.name;
+        if (t.isJSXIdentifier(name) && name.name === 'Trans') transElements.push(path);
+      },
+    });
+
+    const keys: ExtractedKey[] = [];
+    for (const path of calls) {
+      const callee = path.node.callee;
+      let namespace: string | undefined;
+      if (t.isIdentifier(callee)) {
+        namespace = translatorNamespace(path, callee.name, translators);
+      } else if (
+        t.isMemberExpression(callee) &&
+        t.isIdentifier(callee.property) &&
+        callee.property.name === 't' &&
+        isI18nInstance(callee.object, i18nBindings)
+      ) {
+        namespace = '';
+      }
+      if (namespace === undefined) continue;
+
+      const keyArgument = keyValue(path.node.arguments[0]);
+      if (keyArgument === null) continue;
+      const rawKey = keyArgument.key;
+
+      // The second argument is either a default value or an options object
+      const options = path.node.arguments[1];
+      const explicitNamespace = stringValue(objectProperty(options, 'ns'));
+      const defaultValue = stringValue(options) ?? stringValue(objectProperty(options, 'defaultValue')) ?? logicalDefault(path);
+      const [keyNamespace, key] = explicitNamespace !== null ? [explicitNamespace, rawKey] : splitNamespace(rawKey, namespace);
+      keys.push(extractedKey(path.node, keyNamespace, key, defaultValue, undefined, keyArgument.dynamic));
+    }
+
+    for (const path of transElements) {
+      const opening = path.node.openingElement;
+      const rawKey = stringValue(jsxAttribute(opening, 'i18nKey'));
+      if (rawKey === null) continue;
+
+      // Namespace from the ns prop, or from the translator passed as t={t}
+      const tProp = jsxAttribute(opening, 't');
+      const boundNamespace = t.isIdentifier(tProp) ? translatorNamespace(path, tProp.name, translators) : undefined;
+      const namespace = stringValue(jsxAttribute(opening, 'ns')) ?? boundNamespace ?? '';
+      const defaults = stringValue(jsxAttribute(opening, 'defaults')) ?? transChildrenToString(path.node.children);
+      const [keyNamespace, key] = splitNamespace(rawKey, namespace);
+      keys.push(extractedKey(path.node, keyNamespace, key, defaults || null));
+    }
+    return keys;
+  },
+};
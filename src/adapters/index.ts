@@ -0,0 +1,37 @@
+import type * as t from '@babel/types';
+import { i18nextAdapter } from './i18next.js';
+import { nextIntlAdapter } from './next-intl.js';
+import { ngxTranslateAdapter } from './ngx-translate.js';
+import { reactIntlAdapter } from './react-intl.js';
+import { svelteI18nAdapter } from './svelte-i18n.js';
+import type { AdapterName, AdapterOptions, ExtractedKey, ExtractorAdapter } from './types.js';
+import { vueI18nAdapter } from './vue-i18n.js';
+
+export type { AdapterName, AdapterOptions, ExtractedKey, ExtractorAdapter } from './types.js';
+
+export const ADAPTERS: Record<AdapterName, ExtractorAdapter> = {
+  'i18next': i18nextAdapter,
+  'react-intl': reactIntlAdapter,
+  'vue-i18n': vueI18nAdapter,
+  'svelte-i18n': svelteI18nAdapter,
+  'ngx-translate': ngxTranslateAdapter,
+  'next-intl': nextIntlAdapter,
+};
+
+// Order matters: library-specific adapters claim a usage before next-intl's bare t() fallback does
+export const ADAPTER_NAMES = Object.keys(ADAPTERS) as AdapterName[];
+
+// Run the selected adapters and return every key usage once, in source order
+export function extractKeys(ast: t.File, names: AdapterName[] = ADAPTER_NAMES, options: AdapterOptions = {}): ExtractedKey[] {
+  const claimed = new Set<number>();
+  const keys: ExtractedKey[] = [];
+  for (const name of ADAPTER_NAMES) {
+    if (!names.includes(name)) continue;
+    for (const key of ADAPTERS[name].extract(ast, options)) {
+      if (claimed.has(key.start)) continue;
+      claimed.add(key.start);
+      keys.push(key);
+    }
+  }
+  return keys.sort((a, b) => a.start - b.start);
+}
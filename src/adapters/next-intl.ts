@@ -0,0 +1,72 @@
+import type { NodePath } from '@babel/traverse';
+import * as t from '@babel/types';
+import { traverse } from '../ast.js';
+import type { AdapterOptions, ExtractedKey, ExtractorAdapter } from './types.js';
+import {
+  extractedKey,
+  keyValue,
+  logicalDefault,
+  objectProperty,
+  registerTranslator,
+  stringValue,
+  translatorNamespace,
+  unwrapAwait,
+} from './utils.js';
+
+const HOOKS = ['useTranslations', 'getTranslations'];
+const TRANSLATOR_METHODS = ['rich', 'markup', 'raw'];
+
+// Namespace passed to useTranslations('ns') / getTranslations({ namespace: 'ns' }), null if not a hook call
+function hookNamespace(node: t.Node | null | undefined, hooks: string[]): string | null {
+  if (!t.isCallExpression(node) || !t.isIdentifier(node.callee) || !hooks.includes(node.callee.name)) return null;
+  const arg = node.arguments[0];
+  return stringValue(arg) ?? stringValue(objectProperty(arg, 'namespace')) ?? '';
+}
+
+// next-intl: const t = useTranslations('ns'); t('key'), t.rich('key')
+export const nextIntlAdapter: ExtractorAdapter = {
+  name: 'next-intl',
+  extract(ast: t.File, options: AdapterOptions = {}): ExtractedKey[] {
+    const hooks = [...HOOKS, ...(options.hooks || [])];
+    const functions = ['t', ...(options.functions || [])];
+    const translators = new Map<t.Node, string>();
+    const calls: NodePath<t.CallExpression>[] = [];
+    // Bare t() calls that are not bound to a hook (e.g. passed in as a prop) use the file's hook namespace
+    let fileNamespace = '';
+
+    traverse(ast, {
+      VariableDeclarator(path: NodePath<t.VariableDeclarator>) {
+        const namespace = hookNamespace(unwrapAwait(path.node.init), hooks);
+        if (namespace !== null) registerTranslator(path.node, null, namespace, translators);
+      },
+      CallExpression(path: NodePath<t.CallExpression>) {
+        const namespace = hookNamespace(path.node, hooks);
+        if (namespace) fileNamespace = namespace;
+        calls.push(path);
+      },
+    });
+
+    const keys: ExtractedKey[] = [];
+    for (const path of calls) {
+      const callee = path.node.callee;
+      let namespace: string | undefined;
+      if (t.isIdentifier(callee)) {
+        namespace = translatorNamespace(path, callee.name, translators);
+        if (namespace === undefined && functions.includes(callee.name)) namespace = fileNamespace;
+      } else if (
+        t.isMemberExpression(callee) &&
+        t.isIdentifier(callee.object) &&
+        t.isIdentifier(callee.property) &&
+        TRANSLATOR_METHODS.includes(callee.property.name)
+      ) {
+        namespace = translatorNamespace(path, callee.object.name, translators);
+      }
+      if (namespace === undefined) continue;
+
+      const key = keyValue(path.node.arguments[0]);
+      if (key === null) continue;
+      keys.push(extractedKey(path.node, namespace, key.key, logicalDefault(path), undefined, key.dynamic));
+    }
+    return keys;
+  },
+};
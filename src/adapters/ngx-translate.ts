@@ -0,0 +1,39 @@
+import type { NodePath } from '@babel/traverse';
+import * as t from '@babel/types';
+import { traverse } from '../ast.js';
+import type { ExtractedKey, ExtractorAdapter } from './types.js';
+import { extractedKey, keyValue } from './utils.js';
+
+const SERVICE_METHODS = ['instant', 'get', 'stream'];
+
+// translate.instant(), this.translateService.get(): a method called on something named like the TranslateService
+function isServiceCall(callee: t.Node): boolean {
+  if (!t.isMemberExpression(callee) || callee.computed || !t.isIdentifier(callee.property)) return false;
+  if (!SERVICE_METHODS.includes(callee.property.name)) return false;
+  const service = t.isMemberExpression(callee.object) && !callee.object.computed ? callee.object.property : callee.object;
+  return t.isIdentifier(service) && /translate/i.test(service.name);
+}
+
+// ngx-translate: translate.instant('key'), get, stream, instant(['a', 'b']), and the translate pipe and directive in templates
+export const ngxTranslateAdapter: ExtractorAdapter = {
+  name: 'ngx-translate',
+  extract(ast: t.File): ExtractedKey[] {
+    const keys: ExtractedKey[] = [];
+    traverse(ast, {
+      CallExpression(path: NodePath<t.CallExpression>) {
+        if (!isServiceCall(path.node.callee)) return;
+        const arg = path.node.arguments[0];
+        if (t.isArrayExpression(arg)) {
+          for (const element of arg.elements) {
+            const key = keyValue(element);
+            if (key !== null && element) keys.push(extractedKey(element, '', key.key, null, undefined, key.dynamic));
+          }
+          return;
+        }
+        const key = keyValue(arg);
+        if (key !== null) keys.push(extractedKey(path.node, '', key.key, null, undefined, key.dynamic));
+      },
+    });
+    return keys;
+  },
+};
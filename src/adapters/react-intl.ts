@@ -0,0 +1,56 @@
+import type { NodePath } from '@babel/traverse';
+import * as t from '@babel/types';
+import { traverse } from '../ast.js';
+import type { ExtractedKey, ExtractorAdapter } from './types.js';
+import { calleeName, extractedKey, objectProperty, stringValue } from './utils.js';
+
+// { id, defaultMessage, description } message descriptor
+function descriptorKey(node: t.Node | null | undefined): ExtractedKey | null {
+  if (!t.isObjectExpression(node)) return null;
+  const id = stringValue(objectProperty(node, 'id'));
+  if (id === null) return null;
+  const description = stringValue(objectProperty(node, 'description'));
+  return extractedKey(node, '', id, stringValue(objectProperty(node, 'defaultMessage')), description ?? undefined);
+}
+
+function jsxAttributeValue(element: t.JSXOpeningElement, name: string): string | null {
+  for (const attribute of element.attributes) {
+    if (!t.isJSXAttribute(attribute) || !t.isJSXIdentifier(attribute.name) || attribute.name.name !== name) continue;
+    return stringValue(t.isJSXExpressionContainer(attribute.value) ? attribute.value.expression : attribute.value);
+  }
+  return null;
+}
+
+// react-intl: defineMessages, defineMessage, intl.formatMessage({ id }), <FormattedMessage id defaultMessage>
+export const reactIntlAdapter: ExtractorAdapter = {
+  name: 'react-intl',
+  extract(ast: t.File): ExtractedKey[] {
+    const keys: ExtractedKey[] = [];
+    const add = (key: ExtractedKey | null) => {
+      if (key) keys.push(key);
+    };
+
+    traverse(ast, {
+      CallExpression(path: NodePath<t.CallExpression>) {
+        const name = calleeName(path.node.callee);
+        const arg = path.node.arguments[0];
+        if (name === 'defineMessages' && t.isObjectExpression(arg)) {
+          for (const prop of arg.properties) {
+            if (t.isObjectProperty(prop)) add(descriptorKey(prop.value));
+          }
+        } else if (name === 'defineMessage' || name === 'formatMessage') {
+          add(descriptorKey(arg));
+        }
+      },
+      JSXOpeningElement(path: NodePath<t.JSXOpeningElement>) {
+        const name = path.node.name;
+        if (!t.isJSXIdentifier(name) || name.name !== 'FormattedMessage') return;
+        const id = jsxAttributeValue(path.node, 'id');
+        if (id === null) return;
+        const description = jsxAttributeValue(path.node, 'description');
+        add(extractedKey(path.node, '', id, jsxAttributeValue(path.node, 'defaultMessage'), description ?? undefined));
+      },
+    });
+    return keys;
+  },
+};
@@ -0,0 +1,27 @@
+import type { NodePath } from '@babel/traverse';
+import * as t from '@babel/types';
+import { traverse } from '../ast.js';
+import type { ExtractedKey, ExtractorAdapter } from './types.js';
+import { extractedKey, keyValue, objectProperty, stringValue } from './utils.js';
+
+const STORES = ['$_', '$t', '$format'];
+
+// svelte-i18n: $_('key'), $t('key'), $format('key'), $_('key', { default }), $_({ id, default })
+export const svelteI18nAdapter: ExtractorAdapter = {
+  name: 'svelte-i18n',
+  extract(ast: t.File): ExtractedKey[] {
+    const keys: ExtractedKey[] = [];
+    traverse(ast, {
+      CallExpression(path: NodePath<t.CallExpression>) {
+        const { callee, arguments: args } = path.node;
+        if (!t.isIdentifier(callee) || !STORES.includes(callee.name)) return;
+        const descriptor = t.isObjectExpression(args[0]) ? args[0] : null;
+        const key = keyValue(descriptor ? objectProperty(descriptor, 'id') : args[0]);
+        if (key === null) return;
+        const defaultValue = stringValue(objectProperty(descriptor ?? args[1], 'default'));
+        keys.push(extractedKey(path.node, '', key.key, defaultValue, undefined, key.dynamic));
+      },
+    });
+    return keys;
+  },
+};
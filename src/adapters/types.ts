@@ -0,0 +1,27 @@
+import type * as t from '@babel/types';
+
+// Libraries with a dedicated extractor adapter
+export type AdapterName = 'next-intl' | 'i18next' | 'react-intl' | 'vue-i18n' | 'svelte-i18n' | 'ngx-translate';
+
+// A translation key found in source code
+export interface ExtractedKey {
+  namespace: string; // '' when the key has no namespace
+  key: string;
+  defaultValue: string | null;
+  description?: string;
+  dynamic?: boolean; // Key built at runtime, e.g. t(`status.${s}`); `key` is then only its static prefix
+  line: number;
+  column: number;
+  start: number; // Source offset of the usage, used to de-duplicate matches across adapters
+}
+
+// Project-specific translation functions on top of each library's own names
+export interface AdapterOptions {
+  functions?: string[]; // Called with a key like t('key'), e.g. "translate"
+  hooks?: string[]; // Return a translation function for a namespace like useTranslations('ns'), e.g. "useT"
+}
+
+export interface ExtractorAdapter {
+  name: AdapterName;
+  extract(ast: t.File, options?: AdapterOptions): ExtractedKey[];
+}
@@ -0,0 +1,103 @@
+import type { NodePath } from '@babel/traverse';
+import * as t from '@babel/types';
+import type { ExtractedKey } from './types.js';
+
+// Static string value of a string literal or a template literal without expressions
+export function stringValue(node: t.Node | null | undefined): string | null {
+  if (t.isStringLiteral(node)) return node.value;
+  if (t.isTemplateLiteral(node) && node.expressions.length === 0) {
+    return node.quasis[0].value.cooked ?? node.quasis[0].value.raw;
+  }
+  return null;
+}
+
+// Key of a translation call: a static string, or the static prefix of t(`status.${s}`) / t('status.' + s).
+// Any other argument, such as t(key) or t(LABELS[status]), is a dynamic key without prefix
+export function keyValue(node: t.Node | null | undefined): { key: string; dynamic: boolean } | null {
+  const key = stringValue(node);
+  if (key !== null) return { key, dynamic: false };
+  if (t.isTemplateLiteral(node)) {
+    return { key: node.quasis[0].value.cooked ?? node.quasis[0].value.raw, dynamic: true };
+  }
+  if (t.isBinaryExpression(node) && node.operator === '+') {
+    const left = keyValue(node.left);
+    if (left) return { key: left.key, dynamic: true };
+  }
+  return node ? { key: '', dynamic: true } : null;
+}
+
+// Value of a named property in an object literal
+export function objectProperty(node: t.Node | null | undefined, name: string): t.Node | null {
+  if (!t.isObjectExpression(node)) return null;
+  for (const prop of node.properties) {
+    if (!t.isObjectProperty(prop) || prop.computed) continue;
+    const key = t.isIdentifier(prop.key) ? prop.key.name : t.isStringLiteral(prop.key) ? prop.key.value : null;
+    if (key === name) return prop.value;
+  }
+  return null;
+}
+
+// Default value written as t('key') || 'Default' (or ??)
+export function logicalDefault(path: NodePath<t.CallExpression>): string | null {
+  const parent = path.parent;
+  if (t.isLogicalExpression(parent) && (parent.operator === '||' || parent.operator === '??') && parent.left === path.node) {
+    return stringValue(parent.right);
+  }
+  return null;
+}
+
+// Strip `await` so `const t = await getTranslations()` is treated like a hook call
+export function unwrapAwait(node: t.Node | null | undefined): t.Node | null | undefined {
+  return t.isAwaitExpression(node) ? node.argument : node;
+}
+
+// Name of a called function: foo() -> foo, obj.foo() -> foo
+export function calleeName(node: t.Node): string | null {
+  if (t.isIdentifier(node)) return node.name;
+  if (t.isMemberExpression(node) && !node.computed && t.isIdentifier(node.property)) return node.property.name;
+  return null;
+}
+
+// Namespace of the translator a name refers to at a given path, undefined if it is not a translator
+export function translatorNamespace(path: NodePath, name: string, translators: Map<t.Node, string>): string | undefined {
+  const binding = path.scope.getBinding(name);
+  return binding ? translators.get(binding.identifier) : undefined;
+}
+
+// Record the translator bindings declared by `const t = hook()` or `const { t: alias } = hook()`
+export function registerTranslator(
+  declarator: t.VariableDeclarator,
+  property: string | null,
+  namespace: string,
+  translators: Map<t.Node, string>
+): void {
+  if (property === null && t.isIdentifier(declarator.id)) {
+    translators.set(declarator.id, namespace);
+  } else if (property !== null && t.isObjectPattern(declarator.id)) {
+    for (const prop of declarator.id.properties) {
+      if (!t.isObjectProperty(prop) || !t.isIdentifier(prop.key) || prop.key.name !== property) continue;
+      const value = t.isAssignmentPattern(prop.value) ? prop.value.left : prop.value;
+      if (t.isIdentifier(value)) translators.set(value, namespace);
+    }
+  }
+}
+
+export function extractedKey(
+  node: t.Node,
+  namespace: string,
+  key: string,
+  defaultValue: string | null,
+  description?: string,
+  dynamic = false
+): ExtractedKey {
+  return {
+    namespace,
+    key,
+    defaultValue,
+    ...(description !== undefined ? { description } : {}),
+    ...(dynamic ? { dynamic } : {}),
+    line: node.loc?.start.line ?? 0,
+    column: node.loc?.start.column ?? 0,
+    start: node.start ?? 0,
+  };
+}
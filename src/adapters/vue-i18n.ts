@@ -0,0 +1,63 @@
+import type { NodePath } from '@babel/traverse';
+import * as t from '@babel/types';
+import { traverse } from '../ast.js';
+import type { ExtractedKey, ExtractorAdapter } from './types.js';
+import {
+  calleeName,
+  extractedKey,
+  keyValue,
+  logicalDefault,
+  registerTranslator,
+  translatorNamespace,
+} from './utils.js';
+
+const GLOBAL_FUNCTIONS = ['$t', '$tc'];
+const COMPOSER_FUNCTIONS = ['t', 'tc'];
+
+// i18n.global.t()
+function isGlobalComposerCall(callee: t.Node): boolean {
+  return (
+    t.isMemberExpression(callee) &&
+    t.isIdentifier(callee.property) &&
+    COMPOSER_FUNCTIONS.includes(callee.property.name) &&
+    t.isMemberExpression(callee.object) &&
+    t.isIdentifier(callee.object.property) &&
+    callee.object.property.name === 'global'
+  );
+}
+
+// vue-i18n: $t('key'), this.$t('key'), $tc, const { t } = useI18n(), i18n.global.t('key')
+export const vueI18nAdapter: ExtractorAdapter = {
+  name: 'vue-i18n',
+  extract(ast: t.File): ExtractedKey[] {
+    const translators = new Map<t.Node, string>();
+    const calls: NodePath<t.CallExpression>[] = [];
+
+    traverse(ast, {
+      VariableDeclarator(path: NodePath<t.VariableDeclarator>) {
+        const init = path.node.init;
+        if (!t.isCallExpression(init) || calleeName(init.callee) !== 'useI18n') return;
+        COMPOSER_FUNCTIONS.forEach(name => registerTranslator(path.node, name, '', translators));
+      },
+      CallExpression(path: NodePath<t.CallExpression>) {
+        calls.push(path);
+      },
+    });
+
+    const keys: ExtractedKey[] = [];
+    for (const path of calls) {
+      const callee = path.node.callee;
+      const name = calleeName(callee);
+      const matches =
+        (name !== null && GLOBAL_FUNCTIONS.includes(name)) ||
+        (t.isIdentifier(callee) && translatorNamespace(path, callee.name, translators) !== undefined) ||
+        isGlobalComposerCall(callee);
+      if (!matches) continue;
+
+      const key = keyValue(path.node.arguments[0]);
+      if (key === null) continue;
+      keys.push(extractedKey(path.node, '', key.key, logicalDefault(path), undefined, key.dynamic));
+    }
+    return keys;
+  },
+};
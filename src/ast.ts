@@ -0,0 +1,32 @@
+import * as parser from '@babel/parser';
+import * as t from '@babel/types';
+// @ts-ignore - Keep ignore for potential default export issue if types are ESM-only
+import _traverse from '@babel/traverse';
+import { isTemplateSource, parseTemplateSource } from './preprocess.js';
+
+// Shared traverse instance (CJS default export interop)
+export const traverse = (_traverse as any).default;
+
+// Syntax a project can enable on top of TypeScript and JSX; "flow" replaces "typescript"
+export const PARSER_PLUGINS = [
+  'decorators',
+  'decorators-legacy',
+  'flow',
+  'doExpressions',
+  'exportDefaultFrom',
+  'functionBind',
+  'throwExpressions',
+] as const;
+
+export type ParserPluginName = typeof PARSER_PLUGINS[number];
+
+// Parse source code with the same options everywhere in the project. Given the file's path, Vue, Svelte,
+// Angular template and MDX files are parsed from their script blocks and template expressions.
+export function parseSource(sourceCode: string, extraPlugins: ParserPluginName[] = [], filePath?: string | null): t.File {
+  const options: parser.ParserOptions = {
+    sourceType: 'module',
+    plugins: [extraPlugins.includes('flow') ? 'flow' : 'typescript', 'jsx', ...extraPlugins.filter(plugin => plugin !== 'flow')],
+    errorRecovery: true, // Attempt to parse even with minor errors
+  };
+  return isTemplateSource(filePath) ? parseTemplateSource(sourceCode, filePath!, options) : parser.parse(sourceCode, options);
+}
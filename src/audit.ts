@@ -0,0 +1,125 @@
+import type { NodePath } from '@babel/traverse';
+import * as t from '@babel/types';
+import { stringValue } from './adapters/utils.js';
+import { parseSource, traverse, type ParserPluginName } from './ast.js';
+import { findComponent, isInsideTrans, isTranslatableText, suggestKey, TRANSLATABLE_ATTRIBUTES } from './codemod.js';
+
+export type AuditFindingKind = 'jsx-text' | 'jsx-attribute' | 'error-message';
+
+export interface AuditFinding {
+  line: number;
+  column: number;
+  kind: AuditFindingKind;
+  text: string;
+  attribute?: string;
+  suggestedKey: string;
+}
+
+export interface AuditOptions {
+  attributes?: string[]; // Attribute allowlist ('aria-*' style prefixes allowed), defaults to TRANSLATABLE_ATTRIBUTES
+  namespace?: string; // Key prefix for strings outside of components (e.g. the file name)
+  parserPlugins?: ParserPluginName[];
+  filePath?: string; // Lets Vue, Svelte, Angular and MDX files parse; only the JSX rules apply, so their markup isn't audited
+}
+
+// Elements whose text content is code or markup rather than copy
+const IGNORED_ELEMENTS = ['code', 'pre', 'script', 'style'];
+
+// Never user-facing, even when an allowlist pattern matches them
+const IGNORED_ATTRIBUTES = ['className', 'class', 'id', 'key', 'href', 'src', 'data-testid', 'data-test-id', 'data-cy'];
+
+const IGNORE_COMMENT = /i18n-ignore(?!-file)/;
+const IGNORE_FILE_COMMENT = /i18n-ignore-file/;
+
+// URLs, paths and anchors are never translated
+function looksLikeUrl(text: string): boolean {
+  return /^(?:[a-z][a-z0-9+.-]*:|\/|\.{1,2}\/|#|www\.)\S*$/i.test(text.trim());
+}
+
+function isInsideIgnoredElement(path: NodePath): boolean {
+  return !!path.findParent(parent =>
+    t.isJSXElement(parent.node) &&
+    t.isJSXIdentifier(parent.node.openingElement.name) &&
+    IGNORED_ELEMENTS.includes(parent.node.openingElement.name.name)
+  );
+}
+
+function attributeMatcher(allowlist: Iterable<string>): (name: string) => boolean {
+  const patterns = [...allowlist];
+  return name => !IGNORED_ATTRIBUTES.includes(name) && patterns.some(pattern =>
+    pattern.endsWith('*') ? name.startsWith(pattern.slice(0, -1)) : name === pattern
+  );
+}
+
+// new Error('...'), new ValidationError('...') and the like
+function isErrorConstructor(node: t.Expression | t.V8IntrinsicIdentifier): boolean {
+  return t.isIdentifier(node) && /^(?:[A-Z]\w*)?Error$/.test(node.name);
+}
+
+export interface Position {
+  line: number;
+  column: number;
+}
+
+export function position(node: t.Node): Position {
+  return { line: node.loc?.start.line ?? 0, column: node.loc?.start.column ?? 0 };
+}
+
+// Position of the first non-whitespace character of a JSX text node
+export function textPosition(node: t.JSXText): Position {
+  const start = position(node);
+  const leading = node.value.slice(0, node.value.length - node.value.trimStart().length);
+  const lastNewline = leading.lastIndexOf('\n');
+  if (lastNewline === -1) return { line: start.line, column: start.column + leading.length };
+  return { line: start.line + leading.split('\n').length - 1, column: leading.length - lastNewline - 1 };
+}
+
+// List hardcoded user-facing strings that are not wrapped in a translation call
+export function auditSource(sourceCode: string, options: AuditOptions = {}): AuditFinding[] {
+  const ast = parseSource(sourceCode, options.parserPlugins, options.filePath);
+  const comments = ast.comments || [];
+  if (comments.some(comment => IGNORE_FILE_COMMENT.test(comment.value))) return [];
+
+  // A `// i18n-ignore` comment silences its own line and the line below it
+  const ignoredLines = new Set<number>();
+  for (const comment of comments) {
+    if (!IGNORE_COMMENT.test(comment.value) || !comment.loc) continue;
+    ignoredLines.add(comment.loc.end.line);
+    ignoredLines.add(comment.loc.end.line + 1);
+  }
+
+  const isAllowedAttribute = attributeMatcher(options.attributes || TRANSLATABLE_ATTRIBUTES);
+  const findings: AuditFinding[] = [];
+  const report = (path: NodePath, at: Position, kind: AuditFindingKind, text: string | null, attribute?: string) => {
+    if (text === null || ignoredLines.has(at.line) || !isTranslatableText(text) || looksLikeUrl(text)) return;
+    const namespace = findComponent(path)?.name || options.namespace;
+    findings.push({
+      ...at,
+      kind,
+      text,
+      ...(attribute ? { attribute } : {}),
+      suggestedKey: namespace ? `${namespace}.${suggestKey(text)}` : suggestKey(text),
+    });
+  };
+
+  traverse(ast, {
+    JSXText: (path: NodePath<t.JSXText>) => {
+      const text = path.node.value.replace(/\s+/g, ' ').trim();
+      if (!text || isInsideTrans(path) || isInsideIgnoredElement(path)) return;
+      report(path, textPosition(path.node), 'jsx-text', text);
+    },
+    JSXAttribute: (path: NodePath<t.JSXAttribute>) => {
+      const name = t.isJSXIdentifier(path.node.name) ? path.node.name.name : null;
+      if (!name || !isAllowedAttribute(name)) return;
+      const value = t.isJSXExpressionContainer(path.node.value) ? path.node.value.expression : path.node.value;
+      if (value) report(path, position(value), 'jsx-attribute', stringValue(value), name);
+    },
+    NewExpression: (path: NodePath<t.NewExpression>) => {
+      if (!isErrorConstructor(path.node.callee) || !t.isThrowStatement(path.parent)) return;
+      const message = path.node.arguments[0];
+      if (message) report(path, position(message), 'error-message', stringValue(message));
+    },
+  });
+
+  return findings;
+}
@@ -0,0 +1,71 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { globToRegExp, matchesAny } from './glob.js';
+import { TEMPLATE_EXTENSIONS } from './preprocess.js';
+
+// Source files the batch extractor knows how to parse
+export const SOURCE_EXTENSIONS = ['.ts', '.tsx', '.js', '.jsx', ...TEMPLATE_EXTENSIONS];
+
+export const DEFAULT_INCLUDE = ['**/*.{ts,tsx,js,jsx,vue,svelte,html,mdx}'];
+export const DEFAULT_EXCLUDE = ['**/node_modules/**', '**/.git/**', '**/.next/**', '**/dist/**', '**/build/**', '**/*.d.ts'];
+
+// "namespace" writes <locale>/<namespace>.json, "source" writes one file per source file
+export type BatchLayout = 'namespace' | 'source';
+
+export interface BatchFileReport {
+  file: string; // Relative to the root directory
+  status: 'extracted' | 'empty' | 'error';
+  keys: number;
+  targets: string[];
+  error?: string;
+  unresolved?: string[]; // Exported values that could not be evaluated statically
+}
+
+// Recursively collect source files under rootDir matching the include globs and none of the exclude globs
+export async function collectSourceFiles(
+  rootDir: string,
+  include: string[],
+  exclude: string[],
+  extensions: string[] = SOURCE_EXTENSIONS
+): Promise<string[]> {
+  const includePatterns = include.map(globToRegExp);
+  const excludePatterns = exclude.map(globToRegExp);
+  const files: string[] = [];
+
+  const walk = async (relativeDir: string): Promise<void> => {
+    const entries = await fs.readdir(path.join(rootDir, relativeDir), { withFileTypes: true });
+    for (const entry of entries) {
+      const relativePath = relativeDir ? `${relativeDir}/${entry.name}` : entry.name;
+      if (entry.isDirectory()) {
+        // Prune excluded directories early instead of walking e.g. node_modules
+        if (!matchesAny(`${relativePath}/`, excludePatterns)) await walk(relativePath);
+      } else if (
+        entry.isFile() &&
+        extensions.includes(path.extname(entry.name)) &&
+        matchesAny(relativePath, includePatterns) &&
+        !matchesAny(relativePath, excludePatterns)
+      ) {
+        files.push(relativePath);
+      }
+    }
+  };
+
+  await walk('');
+  return files.sort();
+}
+
+// Resolve the locale file a namespace (or source file) is written to
+export function batchTargetPath(
+  outputDir: string,
+  locale: string,
+  layout: BatchLayout,
+  relativeFile: string,
+  namespace: string,
+  extension = '.json'
+): string {
+  if (layout === 'source') {
+    const withoutExtension = relativeFile.slice(0, relativeFile.length - path.extname(relativeFile).length);
+    return path.join(outputDir, locale, `${withoutExtension}${extension}`);
+  }
+  return path.join(outputDir, locale, `${namespace}${extension}`);
+}
@@ -0,0 +1,83 @@
+import { createHash } from 'crypto';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import type { UnresolvedValue } from './evaluate.js';
+import { readFileIfExists, writeFileAtomic } from './files.js';
+import type { ExtractedEntry, SkippedNode } from './manifest.js';
+
+// Per-file extraction results, relative to the project root
+export const CACHE_DIR = path.join('.mcp-i18n', 'cache');
+
+// Bumped whenever extraction output changes shape, so older entries are never read
+const CACHE_VERSION = 1;
+
+// Everything extracting one source file produces
+export interface CachedExtraction {
+  namespaces: Record<string, Record<string, any>>;
+  entries: ExtractedEntry[];
+  skipped: SkippedNode[];
+  unresolved: UnresolvedValue[];
+}
+
+interface CacheEntry {
+  version: number;
+  file: string;
+  dependencies: Record<string, string | null>; // Imported file -> content hash, null when it did not exist
+  result: CachedExtraction;
+}
+
+export function contentHash(content: string): string {
+  return createHash('sha256').update(content).digest('hex');
+}
+
+// Hash of the settings extraction depends on; entries made under other settings get other keys
+export function cacheFingerprint(settings: unknown): string {
+  return contentHash(JSON.stringify({ version: CACHE_VERSION, settings }));
+}
+
+// Cache key of a source file: its content hash, scoped to its path and the extraction settings
+export function cacheKey(fingerprint: string, filePath: string, content: string): string {
+  return contentHash(`${fingerprint}\0${path.resolve(filePath)}\0${contentHash(content)}`);
+}
+
+// Cached result of a key, null on a miss or when a file the source imported has changed since
+export async function readCache(projectRoot: string, key: string): Promise<CachedExtraction | null> {
+  const content = await readFileIfExists(path.join(projectRoot, CACHE_DIR, `${key}.json`));
+  if (content === null) return null;
+  let entry: CacheEntry;
+  try {
+    entry = JSON.parse(content);
+  } catch {
+    return null; // A corrupt entry is a miss and gets rewritten
+  }
+  if (entry.version !== CACHE_VERSION) return null;
+  for (const [file, hash] of Object.entries(entry.dependencies)) {
+    const current = await readFileIfExists(file);
+    if ((current === null ? null : contentHash(current)) !== hash) return null;
+  }
+  return entry.result;
+}
+
+export async function writeCache(
+  projectRoot: string,
+  key: string,
+  file: string,
+  result: CachedExtraction,
+  dependencies: Record<string, string | null> = {}
+): Promise<void> {
+  const entry: CacheEntry = { version: CACHE_VERSION, file: path.resolve(file), dependencies, result };
+  await writeFileAtomic(path.join(projectRoot, CACHE_DIR, `${key}.json`), JSON.stringify(entry));
+}
+
+/**
+ * Drop the entries an earlier run over the same scope (e.g. a batch root) used but this run did not:
+ * files that were deleted or changed since. Entries of other scopes are left alone.
+ */
+export async function pruneCache(projectRoot: string, scope: string, usedKeys: Set<string>): Promise<number> {
+  const indexPath = path.join(projectRoot, CACHE_DIR, 'index', `${contentHash(scope)}.json`);
+  const previous: string[] = JSON.parse((await readFileIfExists(indexPath)) ?? '[]');
+  const stale = previous.filter(key => !usedKeys.has(key));
+  for (const key of stale) await fs.rm(path.join(projectRoot, CACHE_DIR, `${key}.json`), { force: true });
+  await writeFileAtomic(indexPath, JSON.stringify([...usedKeys].sort()));
+  return stale.length;
+}
@@ -0,0 +1,229 @@
+#!/usr/bin/env node
+import { realpathSync } from 'fs';
+import * as fs from 'fs/promises';
+import { pathToFileURL } from 'url';
+import { parseArgs } from 'util';
+import { ADAPTER_NAMES } from './adapters/index.js';
+import type { BatchLayout } from './batch.js';
+import { I18nCore, type ToolResult } from './core.js';
+import { FORMAT_NAMES } from './formats/index.js';
+import type { KeyStyle } from './keys.js';
+import { MERGE_STRATEGIES } from './merge.js';
+import type { ValidationReport } from './validate.js';
+
+const USAGE = `Usage: mcp-i18n <command> [options]
+
+Commands:
+  extract <path>                    Extract a source file, or every source file under a directory
+  check [rootDir]                   Exit with 1 when extraction would change a locale file (default rootDir: .)
+  sync <sourcePath> <localePath>    Compare the keys used in code with a locale file
+  validate <reference> [locale...]  Check translated locale files against a reference locale
+
+Options:
+  --out <path>              Locale file (extracting a file) or output directory (default: the configured output pattern)
+  --format <format>         Locale file format (default: picked from the extension)
+  --locale <locale>         Source locale (default: the first configured locale, else en)
+  --layout <layout>         namespace or source, for directories (default: namespace)
+  --namespace <name>        Namespace of keys without one, for directories and sync (default: common)
+  --key-style <style>       nested or flat (default: keep each file's layout)
+  --key-separator <sep>     Separator between key segments (default: .)
+  --strategy <strategy>     How extracted values merge with existing ones
+  --include <glob>          Source files to scan; repeatable
+  --exclude <glob>          Source files to skip; repeatable
+  --adapter <name>          i18n library whose calls are extracted; repeatable (default: all)
+  --manifest                Write manifests next to extracted locale files
+  --no-cache                Extract every file instead of reusing cached results
+  --keep-source             Don't replace an extracted source file with a MIGRATED TO notice
+  --add-missing             sync: add keys used in code but missing from the locale file
+  --prune-unused            sync: remove keys no code references
+  --missing-value <value>   sync: default or empty (default: default)
+  --scaffold                validate: add the missing keys to each locale file
+  --scaffold-value <value>  validate: empty or source (default: empty)
+  --dry-run                 Show the changes without writing anything
+  --json                    Print the structured result as JSON
+  -h, --help                Show this help
+
+Exit codes: 0 on success, 1 when check finds changes, sync finds missing or unused keys
+or validate finds problems, 2 on errors.
+`;
+
+const OPTIONS = {
+  out: { type: 'string' },
+  format: { type: 'string' },
+  locale: { type: 'string' },
+  layout: { type: 'string' },
+  namespace: { type: 'string' },
+  'key-style': { type: 'string' },
+  'key-separator': { type: 'string' },
+  strategy: { type: 'string' },
+  include: { type: 'string', multiple: true },
+  exclude: { type: 'string', multiple: true },
+  adapter: { type: 'string', multiple: true },
+  manifest: { type: 'boolean' },
+  'no-cache': { type: 'boolean' },
+  'keep-source': { type: 'boolean' },
+  'add-missing': { type: 'boolean' },
+  'prune-unused': { type: 'boolean' },
+  'missing-value': { type: 'string' },
+  scaffold: { type: 'boolean' },
+  'scaffold-value': { type: 'string' },
+  'dry-run': { type: 'boolean' },
+  json: { type: 'boolean' },
+  help: { type: 'boolean', short: 'h' },
+} as const;
+
+type CliOptions = ReturnType<typeof parseArgs<{ options: typeof OPTIONS; allowPositionals: true }>>['values'];
+
+class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UsageError';
+  }
+}
+
+// Value of an option that takes one of a fixed set of values
+function choice<T extends string>(option: string, value: string | undefined, values: readonly T[]): T | undefined {
+  if (value !== undefined && !values.includes(value as T)) {
+    throw new UsageError(`Invalid --${option} ${value}: expected one of ${values.join(', ')}`);
+  }
+  return value as T | undefined;
+}
+
+// Arguments every extraction shares; unset options fall back to the configuration like tool arguments do
+function extractionArgs(options: CliOptions) {
+  return {
+    locale: options.locale,
+    format: choice('format', options.format, FORMAT_NAMES),
+    keyStyle: choice<KeyStyle>('key-style', options['key-style'], ['nested', 'flat']),
+    keySeparator: options['key-separator'],
+    strategy: choice('strategy', options.strategy, MERGE_STRATEGIES),
+    include: options.include,
+    exclude: options.exclude,
+    adapters: options.adapter?.map(name => choice('adapter', name, ADAPTER_NAMES)!),
+    manifest: options.manifest,
+    dryRun: options['dry-run'],
+  };
+}
+
+function batchArgs(rootDir: string, options: CliOptions) {
+  return {
+    ...extractionArgs(options),
+    rootDir,
+    outputDir: options.out,
+    layout: choice<BatchLayout>('layout', options.layout, ['namespace', 'source']),
+    defaultNamespace: options.namespace,
+    cache: options['no-cache'] ? false : undefined,
+  };
+}
+
+// Whether a validation report lists anything a translator has to fix
+function hasProblems(report: ValidationReport): boolean {
+  return report.reference.invalidIcu.length > 0 || report.locales.some(locale =>
+    locale.missing.length > 0 || locale.empty.length > 0 || locale.placeholderMismatches.length > 0 ||
+    locale.invalidIcu.length > 0 || locale.typeMismatches.length > 0
+  );
+}
+
+// Run a command and return the result with the exit code it calls for
+async function runCommand(core: I18nCore, command: string, positionals: string[], options: CliOptions): Promise<{ result: ToolResult; exitCode: number }> {
+  const [first, ...rest] = positionals;
+  switch (command) {
+    case 'extract': {
+      if (!first) throw new UsageError('extract needs a source file or directory');
+      const stats = await fs.stat(first).catch(() => null);
+      if (!stats) throw new UsageError(`${first} does not exist`);
+      const result = stats.isDirectory()
+        ? await core.extractBatch(batchArgs(first, options))
+        : await core.extract({ ...extractionArgs(options), sourcePath: first, targetPath: options.out, replaceSource: options['keep-source'] ? false : undefined });
+      return { result, exitCode: 0 };
+    }
+    case 'check': {
+      const result = await core.check(batchArgs(first || '.', options));
+      return { result, exitCode: result.structured?.clean ? 0 : 1 };
+    }
+    case 'sync': {
+      if (!first || !rest[0]) throw new UsageError('sync needs a source path and a locale file');
+      const result = await core.syncKeys({
+        ...extractionArgs(options),
+        sourcePath: first,
+        localePath: rest[0],
+        defaultNamespace: options.namespace,
+        addMissing: options['add-missing'],
+        pruneUnused: options['prune-unused'],
+        missingValue: choice('missing-value', options['missing-value'], ['default', 'empty'] as const),
+      });
+      const report = result.structured;
+      const missing = report && !options['add-missing'] && report.missing.length > 0;
+      const unused = report && !options['prune-unused'] && report.unused.length > 0;
+      return { result, exitCode: missing || unused ? 1 : 0 };
+    }
+    case 'validate': {
+      if (!first) throw new UsageError('validate needs a reference locale file');
+      const result = await core.validateLocales({
+        reference: first,
+        locales: rest.length > 0 ? rest : undefined,
+        format: choice('format', options.format, FORMAT_NAMES),
+        keyStyle: choice<KeyStyle>('key-style', options['key-style'], ['nested', 'flat']),
+        keySeparator: options['key-separator'],
+        scaffold: options.scaffold,
+        scaffoldValue: choice('scaffold-value', options['scaffold-value'], ['empty', 'source'] as const),
+        dryRun: options['dry-run'],
+      });
+      return { result, exitCode: result.structured && hasProblems(result.structured as ValidationReport) ? 1 : 0 };
+    }
+    default:
+      throw new UsageError(`Unknown command: ${command}`);
+  }
+}
+
+// Where the CLI writes; the process streams unless a test captures them
+export interface CliOutput {
+  stdout: { write(text: string): unknown };
+  stderr: { write(text: string): unknown };
+}
+
+// Run the CLI with its arguments (without node and the script) and return the exit code
+export async function main(argv: string[], output: CliOutput = process): Promise<number> {
+  let parsed;
+  try {
+    parsed = parseArgs({ args: argv, options: OPTIONS, allowPositionals: true });
+  } catch (error: unknown) {
+    output.stderr.write(`${error instanceof Error ? error.message : String(error)}\n\n${USAGE}`);
+    return 2;
+  }
+  const { values: options, positionals: [command, ...positionals] } = parsed;
+  if (options.help || !command) {
+    (options.help ? output.stdout : output.stderr).write(USAGE);
+    return options.help ? 0 : 2;
+  }
+
+  const core = new I18nCore();
+  try {
+    const { result, exitCode } = await runCommand(core, command, positionals, options);
+    if (options.json) {
+      output.stdout.write(`${JSON.stringify(result.failed ? { error: result.text } : result.structured ?? { text: result.text }, null, 2)}\n`);
+    } else {
+      (result.failed ? output.stderr : output.stdout).write(`${result.text}\n`);
+    }
+    return result.failed ? 2 : exitCode;
+  } catch (error: unknown) {
+    if (!(error instanceof UsageError)) throw error;
+    output.stderr.write(`${error.message}\n\n${USAGE}`);
+    return 2;
+  } finally {
+    core.close();
+  }
+}
+
+// Only run when executed directly; npm links the bin, so the script path is resolved first
+if (process.argv[1] && import.meta.url === pathToFileURL(realpathSync(process.argv[1])).href) {
+  main(process.argv.slice(2)).then(
+    exitCode => {
+      process.exitCode = exitCode;
+    },
+    error => {
+      process.stderr.write(`Fatal error: ${error instanceof Error ? error.message : String(error)}\n`);
+      process.exitCode = 2;
+    }
+  );
+}
@@ -0,0 +1,433 @@
+import type { NodePath } from '@babel/traverse';
+import * as t from '@babel/types';
+import { parseSource, traverse, type ParserPluginName } from './ast.js';
+import { position, textPosition, type Position } from './audit.js';
+import { interpolate, placeholderArguments, type PlaceholderStyle } from './interpolation.js';
+
+// Translation libraries the codemod knows how to wire up
+export type CodemodLibrary = 'next-intl' | 'react-i18next';
+
+export interface CodemodOptions {
+  library?: CodemodLibrary; // Detected from existing imports when omitted
+  namespace?: string; // Namespace for module-level strings (e.g. the file name)
+  placeholderStyle?: PlaceholderStyle; // Defaults to the library's native syntax
+  keySeparator?: string; // Joins namespaces and nested key segments (default: ".")
+  parserPlugins?: ParserPluginName[];
+}
+
+export interface CodemodSkip {
+  line: number;
+  column: number;
+  text: string;
+  reason: string;
+}
+
+export interface CodemodResult {
+  code: string;
+  translations: Record<string, string>; // Namespace-prefixed key -> original text
+  placeholders: Record<string, Record<string, string>>; // Namespace-prefixed key -> placeholder name -> expression
+  locations: Record<string, { namespace: string; line: number; column: number }>; // Namespace-prefixed key -> first rewritten string
+  skipped: CodemodSkip[];
+}
+
+// JSX attributes whose string values are shown to users
+export const TRANSLATABLE_ATTRIBUTES = new Set([
+  'alt',
+  'title',
+  'label',
+  'placeholder',
+  'aria-label',
+  'aria-description',
+  'aria-placeholder',
+  'aria-roledescription',
+  'aria-valuetext',
+]);
+
+const LIBRARIES: Record<CodemodLibrary, { source: string; hook: string; moduleSource: string | null; placeholderStyle: PlaceholderStyle }> = {
+  'next-intl': { source: 'next-intl', hook: 'useTranslations', moduleSource: null, placeholderStyle: 'icu' },
+  'react-i18next': { source: 'react-i18next', hook: 'useTranslation', moduleSource: 'i18next', placeholderStyle: 'mustache' },
+};
+
+export interface Edit {
+  start: number;
+  end: number;
+  text: string;
+}
+
+interface ComponentState {
+  namespace: string;
+  tName: string;
+}
+
+// Build a camelCase key from the first few words of a text
+export function suggestKey(text: string): string {
+  const words = text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .match(/[A-Za-z0-9]+/g) || [];
+  const key = words
+    .slice(0, 5)
+    .map((word, index) => index === 0 ? word.toLowerCase() : word.charAt(0).toUpperCase() + word.slice(1).toLowerCase())
+    .join('');
+  if (!key) return 'text';
+  return /^[0-9]/.test(key) ? `text${key}` : key;
+}
+
+// Whether a string is worth translating (contains at least one letter)
+export function isTranslatableText(text: string): boolean {
+  return /\p{L}/u.test(text);
+}
+
+// Rewrite hardcoded user-facing strings into t('key') calls, keeping the rest of the file intact
+export function rewriteSource(sourceCode: string, options: CodemodOptions = {}): CodemodResult {
+  const ast = parseSource(sourceCode, options.parserPlugins);
+  const edits: Edit[] = [];
+  const translations: Record<string, string> = {};
+  const placeholders: Record<string, Record<string, string>> = {};
+  const locations: CodemodResult['locations'] = {};
+  const skipped: CodemodSkip[] = [];
+  const components = new Map<t.Node, ComponentState>();
+  const library = detectLibrary(ast) || options.library || 'next-intl';
+  const { source: hookSource, hook: hookName, moduleSource } = LIBRARIES[library];
+  const placeholderStyle = options.placeholderStyle || LIBRARIES[library].placeholderStyle;
+  const separator = options.keySeparator || '.';
+  const quote = detectQuote(ast);
+  const semi = detectSemicolons(ast, sourceCode);
+  let needsHookImport = false;
+  let needsModuleImport = false;
+
+  const skip = (at: Position, text: string, reason: string) => {
+    skipped.push({ ...at, text, reason });
+  };
+
+  // Register a text under a namespace and return the (deduplicated) relative key
+  const keysByNamespace = new Map<string, Map<string, string>>();
+  const registerKey = (at: Position, namespace: string, baseKey: string, text: string, values: Record<string, string> = {}): string => {
+    let keys = keysByNamespace.get(namespace);
+    if (!keys) {
+      keys = new Map();
+      keysByNamespace.set(namespace, keys);
+    }
+    let key = baseKey;
+    for (let suffix = 2; keys.has(key) && keys.get(key) !== text; suffix++) {
+      key = `${baseKey}${suffix}`;
+    }
+    keys.set(key, text);
+    const fullKey = namespace ? `${namespace}${separator}${key}` : key;
+    translations[fullKey] = text;
+    if (Object.keys(values).length > 0) placeholders[fullKey] = values;
+    locations[fullKey] ||= { namespace, ...at };
+    return key;
+  };
+
+  // Find (or prepare) the translation hook of the component enclosing a JSX node
+  const componentFor = (path: NodePath): ComponentState | string => {
+    const component = findComponent(path);
+    if (!component) return 'not inside a function component';
+
+    const existing = components.get(component.node);
+    if (existing) return existing;
+
+    const hook = findExistingHook(component, hookName);
+    if (hook) {
+      components.set(component.node, hook);
+      return hook;
+    }
+    if (component.scope.hasBinding('t')) return 'component already has a conflicting `t` binding';
+
+    const state = { namespace: component.name, tName: 't' };
+    components.set(component.node, state);
+    edits.push(...insertHook(component.node, sourceCode, hookStatement(library, state.namespace, quote, semi)));
+    needsHookImport = true;
+    return state;
+  };
+
+  // Interpolated values are passed along: t('greeting', { userName: user.name })
+  const call = (tName: string, key: string, values: Record<string, string> = {}) =>
+    Object.keys(values).length > 0
+      ? `${tName}(${quote}${key}${quote}, ${placeholderArguments(values)})`
+      : `${tName}(${quote}${key}${quote})`;
+
+  // Template literals keep their expressions as named placeholders
+  const templateMessage = (node: t.TemplateLiteral) => interpolate(node, sourceCode, placeholderStyle)!;
+
+  traverse(ast, {
+    JSXText: (path: NodePath<t.JSXText>) => {
+      const raw = path.node.value;
+      const text = raw.replace(/\s+/g, ' ').trim();
+      if (!text || !isTranslatableText(text) || isInsideTrans(path)) return;
+
+      const state = componentFor(path);
+      // Reported where the text starts, not where the node's leading whitespace does
+      if (typeof state === 'string') return skip(textPosition(path.node), text, state);
+
+      const key = registerKey(textPosition(path.node), state.namespace, suggestKey(text), text);
+      const leading = raw.length - raw.trimStart().length;
+      const trailing = raw.length - raw.trimEnd().length;
+      edits.push({
+        start: path.node.start! + leading,
+        end: path.node.end! - trailing,
+        text: `{${call(state.tName, key)}}`,
+      });
+    },
+    JSXAttribute: (path: NodePath<t.JSXAttribute>) => {
+      const name = t.isJSXIdentifier(path.node.name) ? path.node.name.name : null;
+      if (!name || !TRANSLATABLE_ATTRIBUTES.has(name)) return;
+
+      const value = path.node.value;
+      let literal: t.Node | null = null;
+      let text: string | null = null;
+      let values: Record<string, string> = {};
+      if (t.isStringLiteral(value)) {
+        literal = value;
+        text = value.value;
+      } else if (t.isJSXExpressionContainer(value)) {
+        const expression = value.expression;
+        if (t.isStringLiteral(expression)) {
+          literal = expression;
+          text = expression.value;
+        } else if (t.isTemplateLiteral(expression)) {
+          if (!isTranslatableText(expression.quasis.map(q => q.value.cooked ?? q.value.raw).join(''))) return;
+          const message = templateMessage(expression);
+          literal = expression;
+          text = message.message;
+          values = message.placeholders;
+        }
+      }
+      if (!literal || text === null || !isTranslatableText(text)) return;
+
+      const state = componentFor(path);
+      if (typeof state === 'string') return skip(position(literal), text, state);
+
+      const key = registerKey(position(literal), state.namespace, suggestKey(text), text, values);
+      // A bare attribute string needs braces, an expression container already has them
+      const replacement = literal === value ? `{${call(state.tName, key)}}` : call(state.tName, key, values);
+      edits.push({ start: literal.start!, end: literal.end!, text: replacement });
+    },
+    ExportDefaultDeclaration: (path: NodePath<t.ExportDefaultDeclaration>) => {
+      let object: t.ObjectExpression | null = null;
+      const declaration = path.node.declaration;
+      if (t.isObjectExpression(declaration)) {
+        object = declaration;
+      } else if (t.isIdentifier(declaration)) {
+        const binding = path.scope.getBinding(declaration.name);
+        if (binding && t.isVariableDeclarator(binding.path.node) && t.isObjectExpression(binding.path.node.init)) {
+          object = binding.path.node.init;
+        }
+      }
+      if (!object) return;
+
+      const namespace = options.namespace || '';
+      collectObjectStrings(object, [], (node, keyPath, text) => {
+        if (!moduleSource) {
+          return skip(position(node), text, `${library} has no module-level translation function`);
+        }
+        const { message, placeholders: values } = t.isTemplateLiteral(node) ? templateMessage(node) : { message: text, placeholders: {} };
+        const key = registerKey(position(node), namespace, keyPath.join(separator), message, values);
+        edits.push({ start: node.start!, end: node.end!, text: call('t', namespace ? `${namespace}${separator}${key}` : key, values) });
+        needsModuleImport = true;
+      });
+    },
+  });
+
+  if (needsHookImport) edits.push(...insertImport(ast, sourceCode, hookSource, hookName, quote, semi));
+  if (needsModuleImport && moduleSource) edits.push(...insertImport(ast, sourceCode, moduleSource, 't', quote, semi));
+
+  return { code: applyEdits(sourceCode, edits), translations, placeholders, locations, skipped };
+}
+
+// Apply non-overlapping text edits from the end of the file backwards
+export function applyEdits(sourceCode: string, edits: Edit[]): string {
+  const ordered = edits
+    .map((edit, index) => ({ edit, index }))
+    .sort((a, b) => b.edit.start - a.edit.start || b.index - a.index);
+  let result = sourceCode;
+  for (const { edit } of ordered) {
+    result = result.slice(0, edit.start) + edit.text + result.slice(edit.end);
+  }
+  return result;
+}
+
+function detectLibrary(ast: t.File): CodemodLibrary | null {
+  for (const statement of ast.program.body) {
+    if (!t.isImportDeclaration(statement)) continue;
+    if (statement.source.value === 'next-intl') return 'next-intl';
+    if (statement.source.value === 'react-i18next' || statement.source.value === 'i18next') return 'react-i18next';
+  }
+  return null;
+}
+
+function detectQuote(ast: t.File): string {
+  const firstImport = ast.program.body.find((node): node is t.ImportDeclaration => t.isImportDeclaration(node));
+  const raw = (firstImport?.source.extra?.raw as string | undefined) || "'";
+  return raw.charAt(0) === '"' ? '"' : "'";
+}
+
+// Judged by the first statement that ends with a semicolon unless the file leaves them out; declarations of
+// functions and classes never do, and neither do the variables declared in a for loop head
+function detectSemicolons(ast: t.File, sourceCode: string): boolean {
+  const loopHeads = new Set<t.Node>();
+  const statements: t.Node[] = [];
+  t.traverseFast(ast.program, node => {
+    if (t.isForStatement(node) && node.init) loopHeads.add(node.init);
+    if (t.isForInStatement(node) || t.isForOfStatement(node)) loopHeads.add(node.left);
+    if (
+      t.isImportDeclaration(node) || t.isExpressionStatement(node) || t.isReturnStatement(node) || t.isThrowStatement(node) ||
+      (t.isVariableDeclaration(node) && !loopHeads.has(node))
+    ) {
+      statements.push(node);
+    }
+  });
+  const first = statements[0];
+  if (!first || first.end == null) return true;
+  return sourceCode.charAt(first.end - 1) === ';';
+}
+
+// Walk up the function parents until one looks like a React component or hook
+export function findComponent(path: NodePath): { node: t.Function; name: string; scope: NodePath['scope'] } | null {
+  let current: NodePath | null = path.getFunctionParent();
+  while (current) {
+    const name = functionName(current);
+    if (name && (/^[A-Z]/.test(name) || /^use[A-Z]/.test(name))) {
+      return { node: current.node as t.Function, name, scope: current.scope };
+    }
+    current = current.parentPath ? current.parentPath.getFunctionParent() : null;
+  }
+  return null;
+}
+
+function functionName(path: NodePath): string | null {
+  const node = path.node;
+  if ((t.isFunctionDeclaration(node) || t.isFunctionExpression(node)) && node.id) return node.id.name;
+
+  // const Name = () => ..., also through wrappers such as memo(...) or forwardRef(...)
+  let parent: NodePath | null = path.parentPath;
+  while (parent && t.isCallExpression(parent.node)) parent = parent.parentPath;
+  if (parent && t.isVariableDeclarator(parent.node) && t.isIdentifier(parent.node.id)) return parent.node.id.name;
+  return null;
+}
+
+// Reuse a translation hook the component already calls
+function findExistingHook(component: { node: t.Function }, hookName: string): ComponentState | null {
+  if (!t.isBlockStatement(component.node.body)) return null;
+  for (const statement of component.node.body.body) {
+    if (!t.isVariableDeclaration(statement)) continue;
+    for (const declarator of statement.declarations) {
+      const init = declarator.init;
+      if (!t.isCallExpression(init) || !t.isIdentifier(init.callee) || init.callee.name !== hookName) continue;
+      const arg = init.arguments[0];
+      const namespace = t.isStringLiteral(arg) ? arg.value : '';
+      if (t.isIdentifier(declarator.id)) return { namespace, tName: declarator.id.name };
+      if (t.isObjectPattern(declarator.id)) {
+        for (const prop of declarator.id.properties) {
+          if (t.isObjectProperty(prop) && t.isIdentifier(prop.key) && prop.key.name === 't' && t.isIdentifier(prop.value)) {
+            return { namespace, tName: prop.value.name };
+          }
+        }
+      }
+    }
+  }
+  return null;
+}
+
+function hookStatement(library: CodemodLibrary, namespace: string, quote: string, semi: boolean): string {
+  const { hook } = LIBRARIES[library];
+  const binding = library === 'next-intl' ? 't' : '{ t }';
+  return `const ${binding} = ${hook}(${quote}${namespace}${quote})${semi ? ';' : ''}`;
+}
+
+function indentationAt(sourceCode: string, position: number): string {
+  const lineStart = sourceCode.lastIndexOf('\n', position - 1) + 1;
+  return sourceCode.slice(lineStart).match(/^[ \t]*/)![0];
+}
+
+// Insert the hook call at the top of the component body, converting expression bodies to blocks
+function insertHook(component: t.Function, sourceCode: string, statement: string): Edit[] {
+  const body = component.body;
+  const baseIndent = indentationAt(sourceCode, component.start!);
+
+  if (t.isBlockStatement(body)) {
+    const first = body.directives[body.directives.length - 1] ?? body.body[0];
+    const indent = first && !body.directives.length ? indentationAt(sourceCode, first.start!) : `${baseIndent}  `;
+    const position = body.directives.length ? body.directives[body.directives.length - 1].end! : body.start! + 1;
+    return [{ start: position, end: position, text: `\n${indent}${statement}` }];
+  }
+
+  // Arrow function with an expression body: () => <div /> becomes () => { const t = ...; return <div />; }
+  const indent = `${baseIndent}  `;
+  const start = (body.extra?.parenthesized ? body.extra.parenStart : body.start) as number;
+  return [
+    { start, end: start, text: `{\n${indent}${statement}\n${indent}return ` },
+    { start: component.end!, end: component.end!, text: `;\n${baseIndent}}` },
+  ];
+}
+
+// Add a named import, extending an existing import from the same module when possible
+function insertImport(ast: t.File, sourceCode: string, source: string, name: string, quote: string, semi: boolean): Edit[] {
+  const imports = ast.program.body.filter((node): node is t.ImportDeclaration => t.isImportDeclaration(node));
+  const existing = imports.find(statement => statement.source.value === source && statement.importKind !== 'type');
+
+  if (existing) {
+    const named = existing.specifiers.filter((node): node is t.ImportSpecifier => t.isImportSpecifier(node));
+    if (named.some(specifier => specifier.local.name === name)) return [];
+    if (named.length > 0) {
+      const last = named[named.length - 1];
+      return [{ start: last.end!, end: last.end!, text: `, ${name}` }];
+    }
+    const defaultSpecifier = existing.specifiers.find((node): node is t.ImportDefaultSpecifier => t.isImportDefaultSpecifier(node));
+    if (defaultSpecifier) {
+      return [{ start: defaultSpecifier.end!, end: defaultSpecifier.end!, text: `, { ${name} }` }];
+    }
+  }
+
+  const statement = `import { ${name} } from ${quote}${source}${quote}${semi ? ';' : ''}`;
+  if (imports.length > 0) {
+    const last = imports[imports.length - 1];
+    return [{ start: last.end!, end: last.end!, text: `\n${statement}` }];
+  }
+  const directives = ast.program.directives;
+  if (directives.length > 0) {
+    const last = directives[directives.length - 1];
+    return [{ start: last.end!, end: last.end!, text: `\n${statement}` }];
+  }
+  const interpreter = ast.program.interpreter;
+  if (interpreter) {
+    return [{ start: interpreter.end!, end: interpreter.end!, text: `\n${statement}` }];
+  }
+  return [{ start: 0, end: 0, text: `${statement}\n` }];
+}
+
+// Text inside <Trans> / <FormattedMessage> is already handled by the translation library
+export function isInsideTrans(path: NodePath): boolean {
+  return !!path.findParent(parent =>
+    t.isJSXElement(parent.node) &&
+    t.isJSXIdentifier(parent.node.openingElement.name) &&
+    ['Trans', 'FormattedMessage'].includes(parent.node.openingElement.name.name)
+  );
+}
+
+// Visit every translatable string in an object literal along with its key path
+function collectObjectStrings(
+  node: t.Node,
+  keyPath: string[],
+  visit: (node: t.Node, keyPath: string[], text: string) => void
+): void {
+  if (t.isStringLiteral(node)) {
+    if (isTranslatableText(node.value)) visit(node, keyPath, node.value);
+  } else if (t.isTemplateLiteral(node)) {
+    // Only the static parts decide whether the template is user-facing text
+    const text = node.quasis.map(quasi => quasi.value.cooked ?? quasi.value.raw).join('');
+    if (isTranslatableText(text)) visit(node, keyPath, text);
+  } else if (t.isObjectExpression(node)) {
+    node.properties.forEach(prop => {
+      if (!t.isObjectProperty(prop)) return;
+      const key = t.isIdentifier(prop.key) ? prop.key.name :
+                  t.isStringLiteral(prop.key) ? prop.key.value : null;
+      if (key) collectObjectStrings(prop.value, [...keyPath, key], visit);
+    });
+  } else if (t.isArrayExpression(node)) {
+    node.elements.forEach((element, index) => {
+      if (element) collectObjectStrings(element, [...keyPath, String(index)], visit);
+    });
+  }
+}
@@ -0,0 +1,240 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { ADAPTER_NAMES, type AdapterName } from './adapters/index.js';
+import { parseSource, PARSER_PLUGINS, type ParserPluginName } from './ast.js';
+import { DEFAULT_EXCLUDE, DEFAULT_INCLUDE } from './batch.js';
+import { evaluateLocaleExports, loadModuleGraph, type UnresolvedValue } from './evaluate.js';
+import { readFileIfExists } from './files.js';
+import { FORMAT_NAMES, type LocaleFormat } from './formats/index.js';
+import type { PlaceholderStyle } from './interpolation.js';
+import type { KeyStyle } from './keys.js';
+import { DEFAULT_MERGE_STRATEGY, MERGE_STRATEGIES, type MergeStrategy } from './merge.js';
+import { BUILT_IN_PROVIDERS } from './translate.js';
+
+// Looked up in this order in every directory from the source path up to the file system root
+export const CONFIG_FILES = ['.mcp-i18nrc.json', 'mcp-i18n.config.ts'];
+
+export const DEFAULT_WARNING_MESSAGE = '\n\nIMPORTANT: DO NOT READ THE TARGET FILE CONTENT - it contains large data structures that will consume excessive context window space. Use get_translation and search_translations to look up single entries.';
+
+// Contents of .mcp-i18nrc.json or the default export of mcp-i18n.config.ts
+export interface McpI18nConfig {
+  locales?: string[]; // The first one is the source locale
+  output?: string; // Locale file pattern relative to the config file, e.g. "locales/{locale}/{namespace}.json"
+  functions?: string[];
+  hooks?: string[];
+  adapters?: AdapterName[];
+  format?: LocaleFormat;
+  indent?: number | string;
+  keyStyle?: KeyStyle;
+  keySeparator?: string;
+  strategy?: MergeStrategy;
+  placeholderStyle?: PlaceholderStyle;
+  parserPlugins?: ParserPluginName[];
+  include?: string[];
+  exclude?: string[];
+  replaceSource?: boolean;
+  warningMessage?: string;
+  manifest?: boolean;
+  cache?: boolean;
+  translationProvider?: string;
+}
+
+type SchemaNode = {
+  type: 'object' | 'array' | 'string' | 'number' | 'boolean' | ('string' | 'number')[];
+  description?: string;
+  enum?: readonly string[];
+  items?: SchemaNode;
+  properties?: Record<string, SchemaNode>;
+  additionalProperties?: boolean;
+};
+
+const stringList = (description: string, values?: readonly string[]): SchemaNode =>
+  ({ type: 'array', items: values ? { type: 'string', enum: values } : { type: 'string' }, description });
+
+// JSON Schema of the configuration file, also accepted as "$schema" target by editors
+export const CONFIG_SCHEMA: SchemaNode = {
+  type: 'object',
+  additionalProperties: false,
+  properties: {
+    $schema: { type: 'string' },
+    locales: stringList('Locales of the project; the first one is the source locale extraction writes'),
+    output: { type: 'string', description: 'Locale file pattern relative to the config file, with {locale} and {namespace} placeholders' },
+    functions: stringList('Extra translation functions called with a key, like t(\'key\')'),
+    hooks: stringList('Extra hooks returning a translation function for a namespace, like useTranslations(\'ns\')'),
+    adapters: stringList('i18n libraries whose calls are extracted', ADAPTER_NAMES),
+    format: { type: 'string', enum: FORMAT_NAMES, description: 'Locale file format' },
+    indent: { type: ['number', 'string'], description: 'Indentation of written locale files: a number of spaces or the indent string itself' },
+    keyStyle: { type: 'string', enum: ['nested', 'flat'], description: 'Layout of written locale files' },
+    keySeparator: { type: 'string', description: 'Separator between key segments' },
+    strategy: { type: 'string', enum: MERGE_STRATEGIES, description: 'How extracted values merge with existing ones' },
+    placeholderStyle: { type: 'string', enum: ['mustache', 'icu'], description: 'How template literal expressions are written' },
+    parserPlugins: stringList('Babel parser plugins enabled on top of TypeScript and JSX', PARSER_PLUGINS),
+    include: stringList('Glob patterns of source files to scan'),
+    exclude: stringList('Glob patterns of source files to skip'),
+    replaceSource: { type: 'boolean', description: 'Replace extracted source files with a MIGRATED TO notice' },
+    warningMessage: { type: 'string', description: 'Text appended to the MIGRATED TO notice' },
+    manifest: { type: 'boolean', description: 'Write a manifest with source locations and translator comments next to extracted locale files' },
+    cache: { type: 'boolean', description: 'Reuse per-file extraction results of unchanged files from .mcp-i18n/cache' },
+    translationProvider: { type: 'string', description: `Provider fill_translations uses: ${BUILT_IN_PROVIDERS.join(', ')} or a local module relative to the config file` },
+  },
+};
+
+export class ConfigError extends Error {
+  constructor(public file: string, public problems: string[]) {
+    super(`Invalid configuration in ${file}:\n${problems.map(problem => `- ${problem}`).join('\n')}`);
+    this.name = 'ConfigError';
+  }
+}
+
+function schemaProblems(value: any, schema: SchemaNode, where: string): string[] {
+  const label = where || 'the configuration';
+  const actual = Array.isArray(value) ? 'array' : value === null ? 'null' : typeof value;
+  const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+  if (!types.includes(actual as any)) return [`${label} must be ${types.map(type => type === 'array' || type === 'object' ? `an ${type}` : `a ${type}`).join(' or ')}`];
+  if (schema.enum && !schema.enum.includes(value)) return [`${label} must be one of: ${schema.enum.join(', ')}`];
+  if (actual === 'array' && schema.items) {
+    return value.flatMap((item: any, index: number) => schemaProblems(item, schema.items!, `${where}[${index}]`));
+  }
+  if (actual === 'object' && schema.properties) {
+    return Object.entries(value).flatMap(([key, child]) => {
+      const childWhere = where ? `${where}.${key}` : key;
+      if (schema.properties![key]) return schemaProblems(child, schema.properties![key], childWhere);
+      return schema.additionalProperties === false ? [`${childWhere} is not a known option`] : [];
+    });
+  }
+  return [];
+}
+
+// Problems with a configuration object, empty when it is valid
+export function validateConfig(value: any): string[] {
+  const problems = schemaProblems(value, CONFIG_SCHEMA, '');
+  if (problems.length > 0) return problems;
+  if (value.locales?.length === 0) problems.push('locales must list at least one locale');
+  if (value.parserPlugins?.includes('decorators') && value.parserPlugins.includes('decorators-legacy')) {
+    problems.push('parserPlugins can\'t enable both decorators and decorators-legacy');
+  }
+  if (value.output !== undefined && !value.output.includes('{locale}')) problems.push('output must contain {locale}');
+  return problems;
+}
+
+// Nearest configuration file above a file or directory, null when there is none
+export async function findConfigFile(startPath: string): Promise<string | null> {
+  const start = path.resolve(startPath);
+  let dir = (await fs.stat(start).catch(() => null))?.isDirectory() ? start : path.dirname(start);
+  for (;;) {
+    for (const name of CONFIG_FILES) {
+      const candidate = path.join(dir, name);
+      if ((await fs.stat(candidate).catch(() => null))?.isFile()) return candidate;
+    }
+    if (path.dirname(dir) === dir) return null;
+    dir = path.dirname(dir);
+  }
+}
+
+export interface LoadedConfig {
+  file: string | null; // null when no configuration file was found
+  config: McpI18nConfig;
+}
+
+// A TypeScript config is read statically like a locale module, never executed
+async function readTypeScriptConfig(file: string, content: string): Promise<unknown> {
+  const ast = parseSource(content);
+  const unresolved: UnresolvedValue[] = [];
+  const value = evaluateLocaleExports(await loadModuleGraph(file, content, ast), { unresolved });
+  if (unresolved.length > 0) {
+    throw new ConfigError(file, unresolved.map(item => `${item.key || 'default export'} can't be read statically (${item.nodeType} at line ${item.line})`));
+  }
+  if (value === null) throw new ConfigError(file, ['expected an object literal as default export']);
+  return value;
+}
+
+// Find, read and validate the configuration that applies to a path
+export async function loadConfig(startPath: string): Promise<LoadedConfig> {
+  const file = await findConfigFile(startPath);
+  if (!file) return { file: null, config: {} };
+  const content = (await readFileIfExists(file)) ?? '';
+  let value: unknown;
+  if (file.endsWith('.json')) {
+    try {
+      value = JSON.parse(content);
+    } catch (error: unknown) {
+      throw new ConfigError(file, [`not valid JSON (${error instanceof Error ? error.message : String(error)})`]);
+    }
+  } else {
+    value = await readTypeScriptConfig(file, content);
+  }
+  const problems = validateConfig(value);
+  if (problems.length > 0) throw new ConfigError(file, problems);
+  return { file, config: value as McpI18nConfig };
+}
+
+// Effective settings of a tool call: defaults, then environment variables, then the config file, then tool arguments
+export interface Settings {
+  configFile: string | null;
+  locales: string[];
+  locale: string; // Source locale
+  output: string | null; // Absolute locale file pattern
+  functions: string[];
+  hooks: string[];
+  adapters: AdapterName[];
+  format?: LocaleFormat; // Picked from the file extension when unset
+  indent?: string; // Kept from the existing file when unset
+  keyStyle?: KeyStyle; // Kept from the existing file when unset
+  keySeparator: string;
+  strategy: MergeStrategy;
+  placeholderStyle?: PlaceholderStyle; // Follows the library in codemod mode when unset
+  parserPlugins: ParserPluginName[];
+  include: string[];
+  exclude: string[];
+  replaceSource: boolean;
+  warningMessage: string;
+  manifest: boolean;
+  cache: boolean;
+  translationProvider: string | null; // Built-in provider name or absolute module path
+}
+
+// Settings a tool call can pass as arguments
+export type SettingOverrides = Partial<Pick<Settings,
+  'locale' | 'adapters' | 'format' | 'keyStyle' | 'keySeparator' | 'strategy' | 'placeholderStyle' | 'include' | 'exclude' | 'replaceSource' | 'manifest' | 'cache' |
+  'translationProvider'
+>>;
+
+export function resolveSettings(loaded: LoadedConfig, overrides: SettingOverrides = {}): Settings {
+  const { config } = loaded;
+  const baseDir = loaded.file ? path.dirname(loaded.file) : process.cwd();
+  const locale = overrides.locale ?? config.locales?.[0] ?? 'en';
+  // A provider module is executed, so only the config file may name one; tool arguments pick built-in providers
+  if (overrides.translationProvider && !BUILT_IN_PROVIDERS.includes(overrides.translationProvider)) {
+    throw new Error(`Unknown translation provider ${overrides.translationProvider}: pass one of ${BUILT_IN_PROVIDERS.join(', ')}, modules can only be set in ${CONFIG_FILES.join(' or ')}`);
+  }
+  const configProvider = config.translationProvider;
+  return {
+    configFile: loaded.file,
+    locales: config.locales ?? [locale],
+    locale,
+    output: config.output ? path.resolve(baseDir, config.output) : null,
+    functions: config.functions ?? [],
+    hooks: config.hooks ?? [],
+    adapters: overrides.adapters ?? config.adapters ?? ADAPTER_NAMES,
+    format: overrides.format ?? config.format,
+    indent: typeof config.indent === 'number' ? ' '.repeat(config.indent) : config.indent,
+    keyStyle: overrides.keyStyle ?? config.keyStyle,
+    keySeparator: overrides.keySeparator ?? config.keySeparator ?? '.',
+    strategy: overrides.strategy ?? config.strategy ?? DEFAULT_MERGE_STRATEGY,
+    placeholderStyle: overrides.placeholderStyle ?? config.placeholderStyle,
+    parserPlugins: config.parserPlugins ?? [],
+    include: overrides.include ?? config.include ?? DEFAULT_INCLUDE,
+    exclude: overrides.exclude ?? config.exclude ?? DEFAULT_EXCLUDE,
+    replaceSource: overrides.replaceSource ?? config.replaceSource ?? process.env.DISABLE_SOURCE_REPLACEMENT !== 'true',
+    warningMessage: config.warningMessage ?? (process.env.WARNING_MESSAGE || DEFAULT_WARNING_MESSAGE),
+    manifest: overrides.manifest ?? config.manifest ?? false,
+    cache: overrides.cache ?? config.cache ?? true,
+    translationProvider: overrides.translationProvider ||
+      (!configProvider ? null : BUILT_IN_PROVIDERS.includes(configProvider) ? configProvider : path.resolve(baseDir, configProvider)),
+  };
+}
+
+// Locale file for a locale and namespace from the configured output pattern
+export function outputPath(pattern: string, locale: string, namespace: string): string {
+  return pattern.replace(/\{locale\}/g, locale).replace(/\{namespace\}/g, namespace);
+}
@@ -0,0 +1,1712 @@
+import * as t from '@babel/types';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { extractKeys, type AdapterName, type AdapterOptions } from './adapters/index.js';
+import { parseSource, type ParserPluginName } from './ast.js';
+import { auditSource, type AuditFinding } from './audit.js';
+import {
+  batchTargetPath,
+  collectSourceFiles,
+  DEFAULT_EXCLUDE,
+  type BatchFileReport,
+  type BatchLayout,
+} from './batch.js';
+import { cacheFingerprint, cacheKey, contentHash, pruneCache, readCache, writeCache } from './cache.js';
+import { CONFIG_FILES, loadConfig, outputPath, resolveSettings, type SettingOverrides, type Settings } from './config.js';
+import { unifiedDiff } from './diff.js';
+import { deleteEntry, detectIndent, getEntry, renameEntry, searchEntries, setEntry } from './entries.js';
+import { findProjectRoot, readFileIfExists, writeFileAtomic } from './files.js';
+import { evaluateLocaleExports, loadModuleGraph, type ModuleGraph, type UnresolvedValue } from './evaluate.js';
+import { watchSources, type SourceWatcher } from './watch.js';
+import { LOCALE_EXTENSIONS, resolveFormat, type FormatOptions, type LocaleFormat } from './formats/index.js';
+import { completeRun, dropRun, recordRun, restoreRun } from './history.js';
+import type { PlaceholderStyle } from './interpolation.js';
+import { applyKeyStyle, detectKeyStyle, flattenKeys, type KeyStyle } from './keys.js';
+import {
+  MANIFEST_SUFFIX,
+  manifestPath,
+  markGenerated,
+  mergeManifest,
+  translatorComments,
+  type ExtractedEntry,
+  type ExtractionManifest,
+  type ManifestLocation,
+  type SkippedNode,
+  type SourceLocation,
+} from './manifest.js';
+import {
+  DEFAULT_MERGE_STRATEGY,
+  formatMergeReport,
+  MergeConflictError,
+  mergeLocaleData,
+  type MergeReport,
+  type MergeStrategy,
+} from './merge.js';
+import { isTemplateSource } from './preprocess.js';
+import { pseudoLocalizeData } from './pseudo.js';
+import { moveKeys, rewriteKeyReferences, type KeyMove, type KeyReferenceResult } from './restructure.js';
+import { compareKeys, keyUsages, syncLocaleKeys, type KeyUsage } from './sync.js';
+import { fillTranslations, loadTranslationProvider, type RejectedTranslation } from './translate.js';
+import { localeFromPath, namespaceFromPath, scaffoldMissing, swapLocale, validateLocales, type LocaleData } from './validate.js';
+import { rewriteSource, type CodemodLibrary, type CodemodSkip } from './codemod.js';
+
+// Locale files and directories known from the start, separated like PATH
+const LOCALE_PATHS = (process.env.LOCALE_PATHS || '').split(path.delimiter).filter(Boolean);
+
+// Runs a watch keeps in the history besides its initial one; older ones are dropped as new ones are recorded
+const WATCH_HISTORY_LIMIT = 20;
+
+// Outcome of an operation: the summary shown to MCP clients and on the command line, and the data behind it
+export interface ToolResult {
+  text: string;
+  structured?: Record<string, any>;
+  failed?: boolean; // The operation threw; text holds the error
+}
+
+// Explicit types for request arguments
+export interface ExtractI18nArgs {
+  sourcePath: string;
+  targetPath?: string;
+  mode?: 'replace' | 'codemod';
+  library?: CodemodLibrary;
+  adapters?: AdapterName[];
+  format?: LocaleFormat;
+  locale?: string;
+  placeholderStyle?: PlaceholderStyle;
+  strategy?: MergeStrategy;
+  keyStyle?: KeyStyle;
+  keySeparator?: string;
+  replaceSource?: boolean;
+  manifest?: boolean;
+  dryRun?: boolean;
+}
+
+export interface AuditI18nArgs {
+  sourcePath: string;
+  include?: string[];
+  exclude?: string[];
+  attributes?: string[];
+}
+
+export interface ExtractI18nBatchArgs {
+  rootDir: string;
+  outputDir?: string;
+  locale?: string;
+  include?: string[];
+  exclude?: string[];
+  layout?: BatchLayout;
+  defaultNamespace?: string;
+  adapters?: AdapterName[];
+  format?: LocaleFormat;
+  placeholderStyle?: PlaceholderStyle;
+  strategy?: MergeStrategy;
+  keyStyle?: KeyStyle;
+  keySeparator?: string;
+  manifest?: boolean;
+  cache?: boolean;
+  dryRun?: boolean;
+}
+
+export interface RestructureKeysArgs {
+  localePath: string;
+  format?: LocaleFormat;
+  locale?: string;
+  keyStyle?: KeyStyle;
+  keySeparator?: string;
+  moves?: KeyMove[];
+  sourcePath?: string;
+  defaultNamespace?: string;
+  include?: string[];
+  exclude?: string[];
+  adapters?: AdapterName[];
+  dryRun?: boolean;
+}
+
+export interface SyncKeysArgs {
+  sourcePath: string;
+  localePath: string;
+  format?: LocaleFormat;
+  locale?: string;
+  include?: string[];
+  exclude?: string[];
+  adapters?: AdapterName[];
+  keyStyle?: KeyStyle;
+  keySeparator?: string;
+  defaultNamespace?: string;
+  addMissing?: boolean;
+  missingValue?: 'default' | 'empty';
+  pruneUnused?: boolean;
+  dryRun?: boolean;
+}
+
+export interface ValidateLocalesArgs {
+  reference: string;
+  locales?: string[];
+  format?: LocaleFormat;
+  keyStyle?: KeyStyle;
+  keySeparator?: string;
+  scaffold?: boolean;
+  scaffoldValue?: 'empty' | 'source';
+  dryRun?: boolean;
+}
+
+export interface PseudoLocalizeArgs {
+  sourcePath: string;
+  targetPath?: string;
+  pseudoLocale?: string;
+  expansion?: number;
+  brackets?: boolean;
+  accents?: boolean;
+  rtl?: boolean;
+  format?: LocaleFormat;
+  keyStyle?: KeyStyle;
+  keySeparator?: string;
+  dryRun?: boolean;
+}
+
+export interface FillTranslationsArgs {
+  reference: string;
+  locales?: string[];
+  translationProvider?: string;
+  format?: LocaleFormat;
+  keyStyle?: KeyStyle;
+  keySeparator?: string;
+  dryRun?: boolean;
+}
+
+export interface GetTranslationArgs {
+  key: string;
+  localePaths?: string[];
+  format?: LocaleFormat;
+  keySeparator?: string;
+}
+
+export interface SearchTranslationsArgs {
+  query: string;
+  regex?: boolean;
+  caseSensitive?: boolean;
+  scope?: 'keys' | 'values' | 'both';
+  localePaths?: string[];
+  format?: LocaleFormat;
+  keySeparator?: string;
+  limit?: number;
+}
+
+export interface SetTranslationArgs {
+  localePath: string;
+  key: string;
+  value: string;
+  format?: LocaleFormat;
+  keySeparator?: string;
+  dryRun?: boolean;
+}
+
+export interface RenameTranslationArgs {
+  from: string;
+  to: string;
+  localePaths?: string[];
+  format?: LocaleFormat;
+  keySeparator?: string;
+  dryRun?: boolean;
+}
+
+export interface DeleteTranslationArgs {
+  key: string;
+  localePaths?: string[];
+  format?: LocaleFormat;
+  keySeparator?: string;
+  dryRun?: boolean;
+}
+
+export interface WatchI18nArgs extends Omit<ExtractI18nBatchArgs, 'dryRun'> {
+  debounceMs?: number;
+}
+
+export interface UnwatchI18nArgs {
+  watchId?: string;
+}
+
+export interface GetConfigArgs {
+  path?: string;
+}
+
+export interface UndoExtractionArgs {
+  runId?: string;
+  projectDir?: string;
+  force?: boolean; // Restore even files changed after the run
+}
+
+// Options shared by the extraction helpers
+interface ExtractionOptions {
+  filePath?: string; // Lets the evaluator follow relative imports
+  adapters?: AdapterName[];
+  adapterOptions?: AdapterOptions;
+  parserPlugins?: ParserPluginName[];
+  keySeparator?: string;
+  placeholderStyle?: PlaceholderStyle;
+  placeholders?: Record<string, Record<string, string>>; // Filled with key -> placeholder name -> expression
+  unresolved?: UnresolvedValue[]; // Filled with values that could not be evaluated
+  entries?: ExtractedEntry[]; // Filled with every extracted key and where it is written
+  skipped?: SkippedNode[]; // Filled with usages and values left out of the data
+  dependencies?: Record<string, string | null>; // Filled with the files a locale module imported -> content hash
+}
+
+interface MergeTargetOptions {
+  format?: LocaleFormat;
+  locale?: string;
+  strategy?: MergeStrategy;
+  keyStyle?: KeyStyle;
+  keySeparator?: string;
+  indent?: string; // Default: the indentation of the existing file
+  locales?: string[];
+}
+
+// Locale file loaded for a single-entry edit
+interface LocaleFileEdit {
+  file: string;
+  previousContent: string;
+  data: Record<string, any>;
+  renamed?: Record<string, string>; // Keys of a flat file renamed by the edit, new -> old
+}
+
+// Serialized locale file ready to be written, with the outcome of the merge
+interface PreparedTarget {
+  targetPath: string;
+  previousContent: string | null; // null when the file does not exist yet
+  content: string;
+  report: MergeReport;
+}
+
+interface PreparedManifest {
+  file: string;
+  content: string;
+}
+
+// A running watch_i18n session and what it has done so far
+interface WatchSession {
+  id: string;
+  rootDir: string; // Absolute
+  watcher: SourceWatcher;
+  startedAt: string;
+  extractions: number; // Runs after file changes
+  runIds: string[]; // Runs that wrote files and are still in the history
+  droppedRuns: number; // Runs dropped from the history to stay within WATCH_HISTORY_LIMIT
+  written: Set<string>; // Locale files and manifests written since the start
+  lastError: string | null;
+  stopped: boolean; // The watcher failed and no longer reacts to changes
+}
+
+interface BatchRun {
+  reports: BatchFileReport[];
+  prepared: PreparedTarget[];
+  manifests: PreparedManifest[];
+  keys: (ExtractedEntry & { target: string })[];
+  skipped: SkippedNode[];
+  cached: number; // Files whose extraction came from the cache
+  runId: string | null; // null when nothing was written
+}
+/**
+ * The operations behind the MCP tools and the mcp-i18n CLI. Each takes the arguments of its tool and
+ * resolves to a ToolResult instead of throwing, so callers only decide how to present it.
+ */
+export class I18nCore {
+  private localeFiles = new Set<string>(); // Locale files read or written by earlier calls
+  private watches = new Map<string, WatchSession>();
+  private watchCount = 0;
+
+  async extract(args: ExtractI18nArgs): Promise<ToolResult> {
+    const { sourcePath } = args;
+
+    try {
+      const settings = await this.settingsFor(sourcePath, args);
+      const namespace = path.basename(sourcePath, path.extname(sourcePath));
+      const targetPath = args.targetPath || (settings.output && outputPath(settings.output, settings.locale, namespace));
+      if (!targetPath) throw new Error('No targetPath given and no output pattern configured');
+      const sourceCode = await fs.readFile(sourcePath, 'utf-8');
+      const mode = args.mode || 'replace';
+      if (mode === 'codemod' && isTemplateSource(sourcePath)) throw new Error('Codemod mode only rewrites JavaScript and TypeScript files');
+      const extraction: ExtractionOptions = {
+        filePath: sourcePath,
+        adapters: settings.adapters,
+        adapterOptions: settings,
+        parserPlugins: settings.parserPlugins,
+        placeholderStyle: settings.placeholderStyle,
+        keySeparator: settings.keySeparator,
+        unresolved: [],
+        entries: [],
+        skipped: [],
+      };
+
+      // Codemod mode rewrites hardcoded strings to t() calls instead of replacing the whole file
+      let dataContent: Record<string, any>;
+      let rewrittenSource: string | null = null;
+      let skippedStrings: CodemodSkip[] = [];
+      let placeholders: Record<string, Record<string, string>> = {};
+      if (mode === 'codemod') {
+        const result = rewriteSource(sourceCode, {
+          library: args.library,
+          namespace,
+          placeholderStyle: settings.placeholderStyle,
+          keySeparator: settings.keySeparator,
+          parserPlugins: settings.parserPlugins,
+        });
+        const ast = parseSource(sourceCode, settings.parserPlugins);
+        dataContent = { ...this.extractTranslationCalls(ast, extraction), ...result.translations };
+        rewrittenSource = result.code;
+        skippedStrings = result.skipped;
+        placeholders = result.placeholders;
+
+        const file = path.resolve(sourcePath);
+        const comments = translatorComments(ast.comments);
+        for (const [fullKey, location] of Object.entries(result.locations)) {
+          const comment = comments.get(location.line);
+          extraction.entries!.push({
+            key: location.namespace ? fullKey.slice(location.namespace.length + settings.keySeparator.length) : fullKey,
+            namespace: location.namespace,
+            value: result.translations[fullKey],
+            file,
+            line: location.line,
+            column: location.column,
+            ...(comment ? { comment } : {}),
+          });
+        }
+        extraction.skipped!.push(...skippedStrings.map(skip => ({ file, line: skip.line, column: skip.column, text: skip.text, reason: skip.reason })));
+      } else {
+        dataContent = await this.extractDataContent(sourceCode, { ...extraction, placeholders });
+      }
+
+      const unresolved = extraction.unresolved!;
+      const unresolvedNote = unresolved.length === 0 ? '' :
+        `\nCould not evaluate ${unresolved.length} values:\n${unresolved.map(value => `- ${this.formatUnresolved(value, sourcePath)}`).join('\n')}`;
+      const keyCount = Object.keys(flattenKeys(dataContent, settings.keySeparator)).length;
+      const structured = {
+        dryRun: !!args.dryRun,
+        sourcePath: path.resolve(sourcePath),
+        targetPath: path.resolve(targetPath),
+        keys: extraction.entries!,
+        skipped: extraction.skipped!,
+      };
+
+      // Check if extraction yielded any data
+      if (Object.keys(dataContent).length === 0) {
+         return {
+           text: `No data extracted from ${sourcePath}. Target file ${targetPath} not modified.${unresolvedNote}`,
+           structured: { ...structured, merge: null, source: 'unchanged' },
+         };
+      }
+
+      const prepared = await this.prepareMergedTarget(targetPath, dataContent, settings);
+      const manifest = settings.manifest
+        ? await this.prepareManifest(targetPath, [sourcePath], extraction.entries!.map(entry => this.manifestEntry(entry, settings.keySeparator)))
+        : null;
+
+      const newSource = !settings.replaceSource ? null :
+        rewrittenSource !== null ? rewrittenSource : `MIGRATED TO ${path.resolve(targetPath)}${settings.warningMessage}`;
+      const source = newSource === null ? 'unchanged' : rewrittenSource !== null ? 'rewritten' : 'replaced';
+
+      if (args.dryRun) {
+        const lines = [
+          `Dry run, nothing written. Extracted ${keyCount} keys for ${path.resolve(targetPath)}.`,
+          ...formatMergeReport(prepared.report),
+          'Locale file diff:',
+          unifiedDiff(targetPath, prepared.previousContent, prepared.content) || '(no changes)',
+        ];
+        if (newSource === null) {
+          lines.push('Source file would not be modified.');
+        } else if (rewrittenSource !== null) {
+          lines.push('Source file diff:', unifiedDiff(sourcePath, sourceCode, newSource) || '(no changes)');
+        } else {
+          lines.push(`Source file would be replaced with "MIGRATED TO ${path.resolve(targetPath)}".`);
+        }
+        if (manifest) lines.push(`Manifest would be written to ${manifest.file}.`);
+        return { text: lines.join('\n'), structured: { ...structured, merge: prepared.report, source, manifest: manifest?.file ?? null } };
+      }
+
+      // Back up every file before touching it so the run can be undone
+      const changedFiles = [targetPath, ...(manifest ? [manifest.file] : []), ...(newSource === null ? [] : [sourcePath])];
+      const projectRoot = await findProjectRoot(sourcePath);
+      const run = await recordRun(projectRoot, 'extract_i18n', changedFiles);
+      await this.writePreparedTarget(prepared);
+      if (manifest) await writeFileAtomic(manifest.file, manifest.content);
+      if (newSource !== null) await writeFileAtomic(sourcePath, newSource);
+      await completeRun(projectRoot, run);
+
+      const sourceNote = source === 'unchanged' ? '' :
+        source === 'rewritten' ? '. Source file rewritten to use translation calls' :
+        `. Source file replaced with "MIGRATED TO ${path.resolve(targetPath)}"`;
+      const skippedNote = skippedStrings.length === 0 ? '' :
+        `\nSkipped ${skippedStrings.length} strings:\n${skippedStrings.map(skip => `- ${skip.line}:${skip.column} "${skip.text}" (${skip.reason})`).join('\n')}`;
+      const placeholderEntries = Object.entries(placeholders);
+      const placeholderNote = placeholderEntries.length === 0 ? '' :
+        `\nPlaceholders:\n${placeholderEntries.map(([key, values]) =>
+          `- ${key}: ${Object.entries(values).map(([name, expression]) => `${name} = ${expression}`).join(', ')}`).join('\n')}`;
+      const successMessage = [
+        `Successfully merged ${keyCount} keys to ${path.resolve(targetPath)}${sourceNote}${skippedNote}${placeholderNote}${unresolvedNote}`,
+        ...formatMergeReport(prepared.report),
+        ...(manifest ? [`Manifest written to ${manifest.file}`] : []),
+        `Run id: ${run.id} (restore with undo_extraction)`,
+      ].join('\n');
+
+      return { text: successMessage, structured: { ...structured, merge: prepared.report, source, manifest: manifest?.file ?? null, runId: run.id } };
+    } catch (error: unknown) { // Catch specific errors if possible
+      const err = error as Error;
+      return { text: `Error processing ${sourcePath}: ${err instanceof Error ? err.message : String(err)}`, failed: true };
+    }
+  }
+
+  async extractBatch(args: ExtractI18nBatchArgs): Promise<ToolResult> {
+    const { rootDir, outputDir } = args;
+
+    try {
+      const settings = await this.settingsFor(rootDir, args);
+      const { reports, prepared, manifests, keys, skipped, cached, runId } = await this.runBatchExtraction(args, settings);
+
+      const count = (status: BatchFileReport['status']) => reports.filter(report => report.status === status).length;
+      const lines = [
+        `Processed ${reports.length} files under ${path.resolve(rootDir)}: ${count('extracted')} extracted, ${count('empty')} without translations, ${count('error')} failed.`,
+      ];
+      if (settings.cache) lines.push(`${cached} unchanged files read from the extraction cache.`);
+      if (prepared.length > 0) {
+        lines.push(`${args.dryRun ? 'Would merge' : 'Merged'} into ${prepared.length} locale files:`);
+        for (const target of prepared) {
+          const [summary, ...details] = formatMergeReport(target.report, true);
+          lines.push(`- ${path.resolve(target.targetPath)}: ${summary}`, ...details.map(line => `  ${line}`));
+        }
+      }
+      if (args.dryRun) {
+        const diffs = prepared.map(target => unifiedDiff(target.targetPath, target.previousContent, target.content)).filter(Boolean);
+        if (diffs.length > 0) lines.push('Locale file diffs:', ...diffs);
+      }
+      if (manifests.length > 0) {
+        lines.push(`${args.dryRun ? 'Would write' : 'Wrote'} ${manifests.length} manifests:`, ...manifests.map(manifest => `- ${manifest.file}`));
+      }
+      const listed = reports.filter(report => report.status !== 'empty' || report.unresolved?.length);
+      if (listed.length > 0) {
+        lines.push('Files:');
+        for (const report of listed) {
+          lines.push(
+            report.status === 'error' ? `- ${report.file}: failed (${report.error})` :
+            report.status === 'empty' ? `- ${report.file}: no keys` :
+            `- ${report.file}: ${report.keys} keys -> ${report.targets.map(target => path.relative(outputDir || rootDir, target)).join(', ')}`,
+            ...(report.unresolved || []).map(value => `  could not evaluate ${value}`)
+          );
+        }
+      }
+      if (args.dryRun) lines.push('Dry run, nothing written.');
+      if (runId) lines.push(`Run id: ${runId} (restore with undo_extraction)`);
+
+      return {
+        text: lines.join('\n'),
+        structured: {
+          dryRun: !!args.dryRun,
+          rootDir: path.resolve(rootDir),
+          files: reports,
+          targets: prepared.map(target => ({
+            file: path.resolve(target.targetPath),
+            merge: target.report,
+            manifest: manifests.find(manifest => manifest.file === manifestPath(path.resolve(target.targetPath)))?.file ?? null,
+          })),
+          keys,
+          skipped,
+          cached,
+          runId,
+        },
+      };
+    } catch (error: unknown) {
+      const err = error as Error;
+      return { text: `Error processing ${rootDir}: ${err instanceof Error ? err.message : String(err)}`, failed: true };
+    }
+  }
+
+  /**
+   * Run a batch extraction without writing and report the locale files and manifests it would
+   * change. A clean result means every key used in code is already in the catalogs, which is what
+   * CI checks before a merge.
+   */
+  async check(args: ExtractI18nBatchArgs): Promise<ToolResult> {
+    const { rootDir } = args;
+
+    try {
+      const settings = await this.settingsFor(rootDir, args);
+      const { reports, prepared, manifests } = await this.runBatchExtraction({ ...args, dryRun: true }, settings);
+      const changed: { file: string; diff: string }[] = [];
+      for (const target of prepared) {
+        if (target.content === target.previousContent) continue;
+        changed.push({ file: path.resolve(target.targetPath), diff: unifiedDiff(target.targetPath, target.previousContent, target.content) });
+      }
+      for (const manifest of manifests) {
+        const previousContent = await readFileIfExists(manifest.file);
+        if (manifest.content !== previousContent) changed.push({ file: manifest.file, diff: unifiedDiff(manifest.file, previousContent, manifest.content) });
+      }
+      // A file that can't be parsed may hold keys the catalogs lack, so it fails the check too
+      const errors = reports.filter(report => report.status === 'error').map(report => ({ file: report.file, error: report.error! }));
+
+      const clean = changed.length === 0 && errors.length === 0;
+      const lines = [
+        clean
+          ? `Locale files are up to date with ${reports.length} source files under ${path.resolve(rootDir)}.`
+          : `Extraction of ${reports.length} source files under ${path.resolve(rootDir)} would change ${changed.length} files${errors.length > 0 ? ` and failed on ${errors.length}` : ''}.`,
+        ...changed.map(change => change.diff),
+        ...errors.map(error => `- ${error.file}: failed (${error.error})`),
+      ];
+      return {
+        text: lines.join('\n'),
+        structured: { rootDir: path.resolve(rootDir), clean, changed, errors },
+      };
+    } catch (error: unknown) {
+      const err = error as Error;
+      return { text: `Error processing ${rootDir}: ${err instanceof Error ? err.message : String(err)}`, failed: true };
+    }
+  }
+
+  /**
+   * Extract every source file under the root directory and merge the results into the locale files.
+   * Unchanged files come from the extraction cache. With changedOnly (watch mode) only locale files
+   * and manifests whose content changes are backed up and written, and an idle run records nothing.
+   */
+  private async runBatchExtraction(args: ExtractI18nBatchArgs, settings: Settings, changedOnly = false): Promise<BatchRun> {
+    const { rootDir, outputDir } = args;
+    const { locale, output } = settings;
+    const layout = args.layout || 'namespace';
+    const defaultNamespace = args.defaultNamespace || 'common';
+    if (!outputDir && !output) throw new Error('No outputDir given and no output pattern configured');
+
+    const extension = resolveFormat('', settings.format || 'json').extensions[0];
+    const files = await collectSourceFiles(rootDir, settings.include, settings.exclude);
+    const projectRoot = await findProjectRoot(rootDir);
+    const fingerprint = cacheFingerprint({
+      adapters: settings.adapters,
+      functions: settings.functions,
+      hooks: settings.hooks,
+      parserPlugins: settings.parserPlugins,
+      placeholderStyle: settings.placeholderStyle,
+      keySeparator: settings.keySeparator,
+    });
+    const usedKeys = new Set<string>();
+    const reports: BatchFileReport[] = [];
+    const targets = new Map<string, Record<string, any>>();
+    const keys: (ExtractedEntry & { target: string })[] = [];
+    const skipped: SkippedNode[] = [];
+    const manifestEntries = new Map<string, { key: string; location: ManifestLocation }[]>();
+    let cached = 0;
+
+    for (const file of files) {
+      const report: BatchFileReport = { file, status: 'empty', keys: 0, targets: [] };
+      try {
+        const filePath = path.join(rootDir, file);
+        const sourceCode = await fs.readFile(filePath, 'utf-8');
+        const key = cacheKey(fingerprint, filePath, sourceCode);
+        let result = settings.cache ? await readCache(projectRoot, key) : null;
+        if (result) {
+          cached++;
+        } else {
+          result = { namespaces: {}, entries: [], skipped: [], unresolved: [] };
+          const dependencies: Record<string, string | null> = {};
+          result.namespaces = await this.extractNamespacedContent(sourceCode, {
+            filePath,
+            adapters: settings.adapters,
+            adapterOptions: settings,
+            parserPlugins: settings.parserPlugins,
+            placeholderStyle: settings.placeholderStyle,
+            keySeparator: settings.keySeparator,
+            unresolved: result.unresolved,
+            entries: result.entries,
+            skipped: result.skipped,
+            dependencies,
+          });
+          // Dry runs and checks only read the cache, so they leave the working tree as it was
+          if (settings.cache && !args.dryRun) await writeCache(projectRoot, key, filePath, result, dependencies);
+        }
+        usedKeys.add(key);
+        skipped.push(...result.skipped);
+        if (result.unresolved.length > 0) report.unresolved = result.unresolved.map(value => this.formatUnresolved(value, filePath));
+
+        // The namespace layout moves the namespace into the file name, the source layout keeps prefixed keys
+        const groups = layout === 'source' ? { '': this.prefixNamespaces(result.namespaces, settings.keySeparator) } : result.namespaces;
+        const targetsByGroup = new Map<string, string>();
+        for (const [namespace, data] of Object.entries(groups)) {
+          if (Object.keys(data).length === 0) continue;
+          // The configured pattern takes the source path without extension as namespace in the source layout
+          const targetPath = outputDir
+            ? batchTargetPath(outputDir, locale, layout, file, namespace || defaultNamespace, extension)
+            : outputPath(output!, locale, layout === 'source' ? file.slice(0, file.length - path.extname(file).length) : namespace || defaultNamespace);
+          // Files sharing a target are combined first; later files win over earlier ones
+          targets.set(targetPath, mergeLocaleData(targets.get(targetPath) || {}, data, 'overwrite').data);
+          targetsByGroup.set(namespace, targetPath);
+          report.keys += Object.keys(data).length;
+          report.targets.push(targetPath);
+        }
+        for (const entry of result.entries) {
+          const target = targetsByGroup.get(layout === 'source' ? '' : entry.namespace);
+          if (!target) continue;
+          keys.push({ ...entry, target: path.resolve(target) });
+          const list = manifestEntries.get(target) || [];
+          list.push(this.manifestEntry(entry, settings.keySeparator, layout === 'source'));
+          manifestEntries.set(target, list);
+        }
+        if (report.keys > 0) report.status = 'extracted';
+      } catch (error: unknown) {
+        // Report unparseable files and keep going with the rest of the tree
+        report.status = 'error';
+        report.error = error instanceof Error ? error.message : String(error);
+      }
+      reports.push(report);
+    }
+    // Entries of deleted and changed files are dropped, so the cache does not grow without bound
+    if (settings.cache && !args.dryRun) await pruneCache(projectRoot, `${path.resolve(rootDir)}\0${fingerprint}`, usedKeys);
+
+    // Merge every target before writing any, so fail-on-conflict leaves all files untouched
+    let prepared: PreparedTarget[] = [];
+    for (const [targetPath, dataContent] of targets) {
+      prepared.push(await this.prepareMergedTarget(targetPath, dataContent, settings));
+    }
+    // Every scanned file is re-extracted, so manifests drop the locations they recorded for any of them
+    const scanned = files.map(file => path.join(rootDir, file));
+    let manifests: PreparedManifest[] = [];
+    if (settings.manifest) {
+      for (const target of prepared) {
+        manifests.push(await this.prepareManifest(target.targetPath, scanned, manifestEntries.get(target.targetPath) || []));
+      }
+    }
+    if (changedOnly) {
+      prepared = prepared.filter(target => target.content !== target.previousContent);
+      const changedManifests: PreparedManifest[] = [];
+      for (const manifest of manifests) {
+        if ((await readFileIfExists(manifest.file)) !== manifest.content) changedManifests.push(manifest);
+      }
+      manifests = changedManifests;
+    }
+
+    let runId: string | null = null;
+    if (!args.dryRun && (prepared.length > 0 || manifests.length > 0)) {
+      const changedFiles = [...prepared.map(target => target.targetPath), ...manifests.map(manifest => manifest.file)];
+      const run = await recordRun(projectRoot, changedOnly ? 'watch_i18n' : 'extract_i18n_batch', changedFiles);
+      for (const target of prepared) await this.writePreparedTarget(target);
+      for (const manifest of manifests) await writeFileAtomic(manifest.file, manifest.content);
+      await completeRun(projectRoot, run);
+      runId = run.id;
+    }
+
+    return { reports, prepared, manifests, keys, skipped, cached, runId };
+  }
+
+  async audit(args: AuditI18nArgs): Promise<ToolResult> {
+    const { sourcePath } = args;
+
+    try {
+      const settings = await this.settingsFor(sourcePath, args);
+      // Audit a single file, or every source file under a directory
+      const stats = await fs.stat(sourcePath);
+      const rootDir = stats.isDirectory() ? sourcePath : path.dirname(sourcePath);
+      const files = stats.isDirectory()
+        ? await collectSourceFiles(sourcePath, settings.include, settings.exclude)
+        : [path.basename(sourcePath)];
+
+      const findings: (AuditFinding & { file: string })[] = [];
+      const failures: string[] = [];
+      for (const file of files) {
+        try {
+          const sourceCode = await fs.readFile(path.join(rootDir, file), 'utf-8');
+          const namespace = path.basename(file, path.extname(file));
+          for (const finding of auditSource(sourceCode, { attributes: args.attributes, namespace, parserPlugins: settings.parserPlugins, filePath: file })) {
+            findings.push({ file, ...finding });
+          }
+        } catch (error: unknown) {
+          failures.push(`- ${file}: failed (${error instanceof Error ? error.message : String(error)})`);
+        }
+      }
+
+      const affectedFiles = new Set(findings.map(finding => finding.file)).size;
+      const lines = [
+        `Found ${findings.length} hardcoded strings in ${affectedFiles} of ${files.length} files under ${path.resolve(rootDir)}.`,
+        ...findings.map(finding =>
+          `${finding.file}:${finding.line}:${finding.column} [${finding.kind}${finding.attribute ? ` ${finding.attribute}` : ''}] ${JSON.stringify(finding.text)} -> ${finding.suggestedKey}`
+        ),
+      ];
+      if (failures.length > 0) lines.push(`Failed to parse ${failures.length} files:`, ...failures);
+
+      return { text: lines.join('\n') };
+    } catch (error: unknown) {
+      const err = error as Error;
+      return { text: `Error processing ${sourcePath}: ${err instanceof Error ? err.message : String(err)}`, failed: true };
+    }
+  }
+
+  async restructureKeys(args: RestructureKeysArgs): Promise<ToolResult> {
+    const { localePath } = args;
+    const moves = args.moves || [];
+
+    try {
+      const settings = await this.settingsFor(args.sourcePath || localePath, args);
+      const separator = settings.keySeparator;
+      const serializer = resolveFormat(localePath, settings.format);
+      const previousContent = await fs.readFile(localePath, 'utf-8');
+      const data = serializer.deserialize(previousContent, { keySeparator: separator });
+      this.localeFiles.add(path.resolve(localePath));
+      const keyStyle: KeyStyle = serializer.flat ? 'flat' : settings.keyStyle || detectKeyStyle(data, separator) || 'nested';
+      const { data: restructured, moved } = moveKeys(data, moves, keyStyle, separator);
+      const content = serializer.serialize(restructured, {
+        locale: settings.locale,
+        indent: settings.indent ?? detectIndent(previousContent),
+        previous: previousContent,
+        ...this.keyLayout(localePath, settings),
+      });
+
+      // Follow the moves in source code, file by file
+      const sources: { file: string; previousContent: string; result: KeyReferenceResult }[] = [];
+      const failures: string[] = [];
+      // Keys of a namespace file (locales/en/common.json) are moved relative to its namespace
+      const namespace = namespaceFromPath(localePath, settings.locales);
+      const scope = namespace === null ? undefined : { namespace, defaultNamespace: args.defaultNamespace || 'common' };
+      if (args.sourcePath && moves.length > 0) {
+        const stats = await fs.stat(args.sourcePath);
+        const rootDir = stats.isDirectory() ? args.sourcePath : path.dirname(args.sourcePath);
+        const files = stats.isDirectory()
+          ? await collectSourceFiles(args.sourcePath, settings.include, settings.exclude)
+          : [path.basename(args.sourcePath)];
+        for (const file of files) {
+          try {
+            const sourceCode = await fs.readFile(path.join(rootDir, file), 'utf-8');
+            const result = rewriteKeyReferences(sourceCode, moves, {
+              separator,
+              adapters: settings.adapters,
+              parserPlugins: settings.parserPlugins,
+              filePath: file,
+              functions: settings.functions,
+              hooks: settings.hooks,
+              scope,
+            });
+            if (result.changes.length > 0 || result.skipped.length > 0) {
+              sources.push({ file: path.join(rootDir, file), previousContent: sourceCode, result });
+            }
+          } catch (error: unknown) {
+            failures.push(`- ${file}: failed (${error instanceof Error ? error.message : String(error)})`);
+          }
+        }
+      }
+
+      const changedSources = sources.filter(source => source.result.changes.length > 0);
+      const lines = [
+        `${args.dryRun ? 'Dry run, nothing written. ' : ''}Restructured ${path.resolve(localePath)} with ${keyStyle} keys.`,
+        ...moved.map(move => `- ${move.from} -> ${move.to} (${move.keys} keys)`),
+      ];
+      if (args.sourcePath && moves.length > 0) {
+        const changeCount = changedSources.reduce((total, source) => total + source.result.changes.length, 0);
+        lines.push(`Updated ${changeCount} key references in ${changedSources.length} files:`);
+        for (const source of sources) {
+          lines.push(
+            ...source.result.changes.map(change => `- ${source.file}:${change.line}:${change.column} ${change.from} -> ${change.to}`),
+            ...source.result.skipped.map(skip => `- ${source.file}:${skip.line}:${skip.column} ${skip.key} skipped (${skip.reason})`)
+          );
+        }
+        if (failures.length > 0) lines.push(`Failed to parse ${failures.length} files:`, ...failures);
+      }
+
+      if (args.dryRun) {
+        const diffs = [
+          unifiedDiff(localePath, previousContent, content),
+          ...changedSources.map(source => unifiedDiff(source.file, source.previousContent, source.result.code)),
+        ].filter(Boolean);
+        lines.push(...(diffs.length > 0 ? diffs : ['(no changes)']));
+      } else {
+        const projectRoot = await findProjectRoot(localePath);
+        const run = await recordRun(projectRoot, 'restructure_keys', [localePath, ...changedSources.map(source => source.file)]);
+        await writeFileAtomic(localePath, content);
+        for (const source of changedSources) await writeFileAtomic(source.file, source.result.code);
+        await completeRun(projectRoot, run);
+        lines.push(`Run id: ${run.id} (restore with undo_extraction)`);
+      }
+
+      return { text: lines.join('\n') };
+    } catch (error: unknown) {
+      const err = error as Error;
+      return { text: `Error processing ${localePath}: ${err instanceof Error ? err.message : String(err)}`, failed: true };
+    }
+  }
+
+  async syncKeys(args: SyncKeysArgs): Promise<ToolResult> {
+    const { sourcePath, localePath } = args;
+
+    try {
+      const settings = await this.settingsFor(sourcePath, args);
+      const separator = settings.keySeparator;
+      // Collect key usages from a single file, or every source file under a directory
+      const stats = await fs.stat(sourcePath);
+      const rootDir = stats.isDirectory() ? sourcePath : path.dirname(sourcePath);
+      const files = stats.isDirectory()
+        ? await collectSourceFiles(sourcePath, settings.include, settings.exclude)
+        : [path.basename(sourcePath)];
+
+      // A namespace file (locales/en/common.json) stores its keys without the namespace, so only its own usages count
+      const namespace = namespaceFromPath(localePath, settings.locales);
+      const scope = namespace === null ? undefined : { namespace, defaultNamespace: args.defaultNamespace || 'common' };
+      const usages: KeyUsage[] = [];
+      const failures: { file: string; error: string }[] = [];
+      for (const file of files) {
+        try {
+          const sourceCode = await fs.readFile(path.join(rootDir, file), 'utf-8');
+          usages.push(...keyUsages(extractKeys(parseSource(sourceCode, settings.parserPlugins, file), settings.adapters, settings), file, separator, scope));
+        } catch (error: unknown) {
+          failures.push({ file, error: error instanceof Error ? error.message : String(error) });
+        }
+      }
+
+      const serializer = resolveFormat(localePath, settings.format);
+      const previousContent = await readFileIfExists(localePath);
+      const data = previousContent === null ? {} : serializer.deserialize(previousContent, { keySeparator: separator });
+      if (previousContent !== null) this.localeFiles.add(path.resolve(localePath));
+      const flatData = flattenKeys(data, separator);
+      const report = compareKeys(usages, Object.keys(flatData), separator);
+
+      const lines = [
+        `${args.dryRun ? 'Dry run, nothing written. ' : ''}Compared ${report.used} keys used in ${files.length} files under ${path.resolve(rootDir)} with ${Object.keys(flatData).length} keys in ${path.resolve(localePath)}${namespace === null ? '' : ` (namespace ${namespace})`}.`,
+        `Missing from the locale file (${report.missing.length}):`,
+        ...report.missing.map(usage => `- ${usage.key} (${usage.file}:${usage.line}:${usage.column})`),
+        `Not referenced in code (${report.unused.length}):`,
+        ...report.unused.map(key => `- ${key}`),
+      ];
+      if (report.wildcards.length > 0) {
+        lines.push(`Dynamic keys kept as prefix wildcards (${report.wildcards.length}):`);
+        for (const wildcard of report.wildcards) {
+          const [first] = wildcard.usages;
+          lines.push(`- ${wildcard.prefix}* covers ${wildcard.covered.length} keys (${first.file}:${first.line}:${first.column}${wildcard.usages.length > 1 ? ` and ${wildcard.usages.length - 1} more` : ''})`);
+        }
+      }
+      if (failures.length > 0) {
+        lines.push(`Failed to parse ${failures.length} files:`, ...failures.map(failure => `- ${failure.file}: failed (${failure.error})`));
+      }
+
+      const adding = args.addMissing && report.missing.length > 0;
+      const pruning = args.pruneUnused && report.unused.length > 0;
+      let runId: string | null = null;
+      if (adding || pruning) {
+        const synced = syncLocaleKeys(flatData, report, args);
+        const keyStyle: KeyStyle = serializer.flat ? 'flat' :
+          settings.keyStyle || detectKeyStyle(data, separator) || 'nested';
+        const content = serializer.serialize(applyKeyStyle(synced, keyStyle, separator), {
+          locale: settings.locale,
+          indent: settings.indent ?? detectIndent(previousContent),
+          previous: previousContent,
+          ...this.keyLayout(localePath, settings),
+        });
+        const summary = [adding && `added ${report.missing.length}`, pruning && `pruned ${report.unused.length}`].filter(Boolean).join(', ');
+
+        if (args.dryRun) {
+          lines.push(`Would have ${summary} keys:`, unifiedDiff(localePath, previousContent, content) || '(no changes)');
+        } else {
+          const projectRoot = await findProjectRoot(localePath);
+          const run = await recordRun(projectRoot, 'sync_keys', [localePath]);
+          await writeFileAtomic(localePath, content);
+          await completeRun(projectRoot, run);
+          this.localeFiles.add(path.resolve(localePath));
+          lines.push(`Updated ${path.resolve(localePath)}: ${summary} keys.`, `Run id: ${run.id} (restore with undo_extraction)`);
+          runId = run.id;
+        }
+      }
+
+      return {
+        text: lines.join('\n'),
+        structured: {
+          dryRun: !!args.dryRun,
+          sourcePath: path.resolve(sourcePath),
+          localePath: path.resolve(localePath),
+          namespace,
+          used: report.used,
+          missing: report.missing,
+          unused: report.unused,
+          wildcards: report.wildcards,
+          failures,
+          added: adding ? report.missing.length : 0,
+          pruned: pruning ? report.unused.length : 0,
+          runId,
+        },
+      };
+    } catch (error: unknown) {
+      const err = error as Error;
+      return { text: `Error processing ${localePath}: ${err instanceof Error ? err.message : String(err)}`, failed: true };
+    }
+  }
+
+  async validateLocales(args: ValidateLocalesArgs): Promise<ToolResult> {
+    const { reference } = args;
+
+    try {
+      const settings = await this.settingsFor(reference, args);
+      const separator = settings.keySeparator;
+      // Locale files that don't exist yet validate as empty, so scaffolding can create them
+      const readLocale = async (file: string, required: boolean): Promise<LocaleData & { previousContent: string | null }> => {
+        const previousContent = required ? await fs.readFile(file, 'utf-8') : await readFileIfExists(file);
+        const data = previousContent === null ? {} : resolveFormat(file, settings.format).deserialize(previousContent, { keySeparator: settings.keySeparator });
+        if (previousContent !== null) this.localeFiles.add(path.resolve(file));
+        return { locale: localeFromPath(file, settings.locales), file: path.resolve(file), data, previousContent };
+      };
+      const referenceLocale = await readLocale(reference, true);
+      // Without explicit files, every other configured locale is checked at the matching path
+      const localeFiles = args.locales ||
+        settings.locales.filter(locale => locale !== referenceLocale.locale).map(locale => swapLocale(reference, locale, settings.locales));
+      const locales = await Promise.all(localeFiles.map(file => readLocale(file, false)));
+      const report = validateLocales(referenceLocale, locales, separator);
+      let scaffold: Record<string, any> | undefined;
+
+      if (args.scaffold) {
+        const targets: { file: string; previousContent: string | null; content: string; added: number }[] = [];
+        report.locales.forEach((validation, index) => {
+          if (validation.missing.length === 0) return;
+          const locale = locales[index];
+          const serializer = resolveFormat(locale.file, settings.format);
+          const scaffolded = scaffoldMissing(locale.data, referenceLocale.data, validation.missing, args.scaffoldValue || 'empty', separator);
+          const keyStyle: KeyStyle = serializer.flat ? 'flat' :
+            settings.keyStyle || detectKeyStyle(locale.data, separator) || detectKeyStyle(referenceLocale.data, separator) || 'nested';
+          const content = serializer.serialize(applyKeyStyle(scaffolded, keyStyle, separator), {
+            locale: locale.locale,
+            indent: settings.indent ?? detectIndent(locale.previousContent ?? referenceLocale.previousContent),
+            previous: locale.previousContent,
+            ...this.keyLayout(locale.file, settings),
+          });
+          targets.push({ file: locale.file, previousContent: locale.previousContent, content, added: validation.missing.length });
+        });
+
+        scaffold = {
+          dryRun: !!args.dryRun,
+          files: targets.map(target => ({
+            file: target.file,
+            added: target.added,
+            ...(args.dryRun ? { diff: unifiedDiff(target.file, target.previousContent, target.content) } : {}),
+          })),
+        };
+        if (!args.dryRun && targets.length > 0) {
+          const projectRoot = await findProjectRoot(reference);
+          const run = await recordRun(projectRoot, 'validate_locales', targets.map(target => target.file));
+          for (const target of targets) {
+            await writeFileAtomic(target.file, target.content);
+            this.localeFiles.add(target.file);
+          }
+          await completeRun(projectRoot, run);
+          scaffold.runId = run.id;
+        }
+      }
+
+      const result = scaffold ? { ...report, scaffold } : report;
+      return { text: JSON.stringify(result, null, 2), structured: result };
+    } catch (error: unknown) {
+      const err = error as Error;
+      return { text: `Error processing ${reference}: ${err instanceof Error ? err.message : String(err)}`, failed: true };
+    }
+  }
+
+  async pseudoLocalize(args: PseudoLocalizeArgs): Promise<ToolResult> {
+    const { sourcePath } = args;
+
+    try {
+      const settings = await this.settingsFor(sourcePath, args);
+      const separator = settings.keySeparator;
+      const pseudoLocale = args.pseudoLocale || (args.rtl ? 'ar-XB' : 'en-XA');
+      const targetPath = path.resolve(args.targetPath || swapLocale(sourcePath, pseudoLocale, settings.locales));
+      if (targetPath === path.resolve(sourcePath)) throw new Error('targetPath must differ from sourcePath');
+
+      const sourceContent = await fs.readFile(sourcePath, 'utf-8');
+      const sourceData = resolveFormat(sourcePath, settings.format).deserialize(sourceContent, { keySeparator: separator });
+      this.localeFiles.add(path.resolve(sourcePath));
+      const { expansion, brackets, accents, rtl } = args;
+      const serializer = resolveFormat(targetPath, settings.format);
+      const keyStyle: KeyStyle = serializer.flat ? 'flat' : settings.keyStyle || detectKeyStyle(sourceData, separator) || 'nested';
+      const data = applyKeyStyle(pseudoLocalizeData(sourceData, { expansion, brackets, accents, rtl }), keyStyle, separator);
+      const previousContent = await readFileIfExists(targetPath);
+      const content = serializer.serialize(data, {
+        locale: pseudoLocale,
+        indent: settings.indent ?? detectIndent(previousContent ?? sourceContent),
+        previous: previousContent,
+        ...this.keyLayout(targetPath, settings),
+      });
+
+      // The whole file is regenerated, so every message in it is machine-generated
+      const leaves = flattenKeys(data, separator);
+      const messages = Object.keys(leaves).filter(key => typeof leaves[key] === 'string' && leaves[key].trim() !== '');
+      const manifest = await this.prepareGeneratedManifest(targetPath, Object.keys(leaves), messages, 'pseudo');
+      const structured = {
+        dryRun: !!args.dryRun,
+        sourcePath: path.resolve(sourcePath),
+        targetPath,
+        locale: pseudoLocale,
+        messages: messages.length,
+        manifest: manifest.file,
+      };
+
+      if (args.dryRun) {
+        const lines = [
+          `Dry run, nothing written. Pseudo-localized ${messages.length} messages for ${targetPath} (${pseudoLocale}).`,
+          'Locale file diff:',
+          unifiedDiff(targetPath, previousContent, content) || '(no changes)',
+          `Manifest would be written to ${manifest.file}.`,
+        ];
+        return { text: lines.join('\n'), structured };
+      }
+
+      const projectRoot = await findProjectRoot(sourcePath);
+      const run = await recordRun(projectRoot, 'pseudo_localize', [targetPath, manifest.file]);
+      await writeFileAtomic(targetPath, content);
+      await writeFileAtomic(manifest.file, manifest.content);
+      await completeRun(projectRoot, run);
+      this.localeFiles.add(targetPath);
+
+      const lines = [
+        `Pseudo-localized ${messages.length} messages from ${path.resolve(sourcePath)} into ${targetPath} (${pseudoLocale})`,
+        `Manifest written to ${manifest.file}`,
+        `Run id: ${run.id} (restore with undo_extraction)`,
+      ];
+      return { text: lines.join('\n'), structured: { ...structured, runId: run.id } };
+    } catch (error: unknown) {
+      const err = error as Error;
+      return { text: `Error processing ${sourcePath}: ${err instanceof Error ? err.message : String(err)}`, failed: true };
+    }
+  }
+
+  async fillTranslations(args: FillTranslationsArgs): Promise<ToolResult> {
+    const { reference } = args;
+
+    try {
+      const settings = await this.settingsFor(reference, args);
+      const separator = settings.keySeparator;
+      if (!settings.translationProvider) {
+        throw new Error(`No translation provider. Pass translationProvider or set it in ${CONFIG_FILES.join(' or ')}`);
+      }
+      const provider = await loadTranslationProvider(settings.translationProvider, process.cwd());
+
+      const referenceContent = await fs.readFile(reference, 'utf-8');
+      const referenceData = resolveFormat(reference, settings.format).deserialize(referenceContent, { keySeparator: separator });
+      const sourceLocale = localeFromPath(reference, settings.locales);
+      this.localeFiles.add(path.resolve(reference));
+      // Translator comments recorded by extraction give the provider context
+      const referenceManifest: ExtractionManifest | null = JSON.parse((await readFileIfExists(manifestPath(path.resolve(reference)))) ?? 'null');
+      const comments = Object.fromEntries(Object.entries(referenceManifest?.entries || {})
+        .filter(([, entry]) => entry.comments.length > 0)
+        .map(([key, entry]) => [key, entry.comments.join('\n')]));
+
+      const localeFiles = (args.locales ||
+        settings.locales.filter(locale => locale !== sourceLocale).map(locale => swapLocale(reference, locale, settings.locales))).map(file => path.resolve(file));
+      const targets: { file: string; locale: string; filled: string[]; rejected: RejectedTranslation[] }[] = [];
+      const writes: { file: string; previousContent: string | null; content: string; manifest: PreparedManifest }[] = [];
+      for (const file of localeFiles) {
+        const previousContent = await readFileIfExists(file);
+        const serializer = resolveFormat(file, settings.format);
+        const existing = previousContent === null ? {} : serializer.deserialize(previousContent, { keySeparator: separator });
+        const locale = localeFromPath(file, settings.locales);
+        const { data, filled, rejected } = await fillTranslations(provider, referenceData, existing, { sourceLocale, targetLocale: locale, separator, comments });
+        targets.push({ file, locale, filled, rejected });
+        if (filled.length === 0) continue;
+        const keyStyle: KeyStyle = serializer.flat ? 'flat' :
+          settings.keyStyle || detectKeyStyle(existing, separator) || detectKeyStyle(referenceData, separator) || 'nested';
+        const content = serializer.serialize(applyKeyStyle(data, keyStyle, separator), {
+          locale,
+          indent: settings.indent ?? detectIndent(previousContent ?? referenceContent),
+          previous: previousContent,
+          ...this.keyLayout(file, settings),
+        });
+        writes.push({ file, previousContent, content, manifest: await this.prepareGeneratedManifest(file, Object.keys(data), filled, provider.name) });
+      }
+
+      let runId: string | null = null;
+      if (!args.dryRun && writes.length > 0) {
+        const projectRoot = await findProjectRoot(reference);
+        const run = await recordRun(projectRoot, 'fill_translations', writes.flatMap(write => [write.file, write.manifest.file]));
+        for (const write of writes) {
+          await writeFileAtomic(write.file, write.content);
+          await writeFileAtomic(write.manifest.file, write.manifest.content);
+          this.localeFiles.add(write.file);
+        }
+        await completeRun(projectRoot, run);
+        runId = run.id;
+      }
+
+      const structured = {
+        dryRun: !!args.dryRun,
+        provider: provider.name,
+        locales: targets.map(target => ({
+          locale: target.locale,
+          file: target.file,
+          filled: target.filled.map(key => ({ key, machineGenerated: true })),
+          rejected: target.rejected,
+          manifest: writes.find(write => write.file === target.file)?.manifest.file ?? null,
+        })),
+        runId,
+      };
+      const lines = [
+        args.dryRun ? `Dry run, nothing written. Translation provider: ${provider.name}` : `Translation provider: ${provider.name}`,
+        ...targets.flatMap(target => [
+          `${target.file} (${target.locale}): ${target.filled.length} filled, ${target.rejected.length} rejected`,
+          ...target.rejected.map(rejection => `- ${rejection.key}: ${rejection.reason}`),
+        ]),
+        ...(args.dryRun ? writes.map(write => unifiedDiff(write.file, write.previousContent, write.content)) : []),
+        ...(writes.length > 0 ? [`Machine-generated values tagged in ${writes.map(write => write.manifest.file).join(', ')}`] : []),
+        ...(runId ? [`Run id: ${runId} (restore with undo_extraction)`] : []),
+      ];
+
+      return { text: lines.join('\n'), structured };
+    } catch (error: unknown) {
+      const err = error as Error;
+      return { text: `Error processing ${reference}: ${err instanceof Error ? err.message : String(err)}`, failed: true };
+    }
+  }
+
+  async getTranslation(args: GetTranslationArgs): Promise<ToolResult> {
+    const { key } = args;
+
+    try {
+      const settings = await this.settingsFor(args.localePaths?.[0] || process.cwd(), args);
+      const files = await this.localeTargets(args.localePaths);
+      const lines = [`${key}:`];
+      for (const file of files) {
+        const label = `${localeFromPath(file, settings.locales)} (${path.relative(process.cwd(), file) || file})`;
+        try {
+          const data = resolveFormat(file, settings.format).deserialize(await fs.readFile(file, 'utf-8'), { keySeparator: settings.keySeparator });
+          const value = getEntry(data, key, settings.keySeparator);
+          lines.push(`- ${label}: ${value === undefined ? '(missing)' : JSON.stringify(value)}`);
+        } catch (error: unknown) {
+          lines.push(`- ${label}: failed (${error instanceof Error ? error.message : String(error)})`);
+        }
+      }
+
+      return { text: lines.join('\n') };
+    } catch (error: unknown) {
+      const err = error as Error;
+      return { text: `Error looking up ${key}: ${err instanceof Error ? err.message : String(err)}`, failed: true };
+    }
+  }
+
+  async searchTranslations(args: SearchTranslationsArgs): Promise<ToolResult> {
+    const { query } = args;
+    const limit = args.limit ?? 50;
+
+    try {
+      const settings = await this.settingsFor(args.localePaths?.[0] || process.cwd(), args);
+      const pattern = args.regex
+        ? new RegExp(query, args.caseSensitive ? '' : 'i')
+        : null;
+      const needle = args.caseSensitive ? query : query.toLowerCase();
+      const matches = (text: string) => pattern ? pattern.test(text) : (args.caseSensitive ? text : text.toLowerCase()).includes(needle);
+
+      const files = await this.localeTargets(args.localePaths);
+      const results: string[] = [];
+      let total = 0;
+      for (const file of files) {
+        const data = resolveFormat(file, settings.format).deserialize(await fs.readFile(file, 'utf-8'), { keySeparator: settings.keySeparator });
+        for (const entry of searchEntries(data, matches, args.scope || 'both', settings.keySeparator)) {
+          total++;
+          if (results.length < limit) results.push(`- ${localeFromPath(file, settings.locales)} ${entry.key}: ${JSON.stringify(entry.value)} (${path.relative(process.cwd(), file) || file})`);
+        }
+      }
+
+      const lines = [`Found ${total} matches for ${args.regex ? `/${query}/` : JSON.stringify(query)} in ${files.length} locale files${total > limit ? `, showing the first ${limit}` : ''}.`, ...results];
+      return { text: lines.join('\n') };
+    } catch (error: unknown) {
+      const err = error as Error;
+      return { text: `Error searching translations: ${err instanceof Error ? err.message : String(err)}`, failed: true };
+    }
+  }
+
+  async setTranslation(args: SetTranslationArgs): Promise<ToolResult> {
+    const { localePath, key } = args;
+
+    try {
+      const settings = await this.settingsFor(localePath, args);
+      const [edit] = await this.loadLocaleEdits([localePath], settings, true);
+      const serializer = resolveFormat(localePath, settings.format);
+      const keyStyle: KeyStyle = serializer.flat ? 'flat' :
+        detectKeyStyle(edit.data, settings.keySeparator) || settings.keyStyle || 'nested';
+      const outcome = setEntry(edit.data, key, args.value, keyStyle, settings.keySeparator);
+      const lines = [`${outcome === 'added' ? 'Added' : outcome === 'changed' ? 'Changed' : 'Unchanged'} ${key} in ${path.resolve(localePath)}.`];
+      if (outcome !== 'unchanged') lines.push(...await this.writeLocaleEdits('set_translation', [edit], settings, args.dryRun));
+
+      return { text: lines.join('\n') };
+    } catch (error: unknown) {
+      const err = error as Error;
+      return { text: `Error processing ${localePath}: ${err instanceof Error ? err.message : String(err)}`, failed: true };
+    }
+  }
+
+  async renameTranslation(args: RenameTranslationArgs): Promise<ToolResult> {
+    const { from, to } = args;
+
+    try {
+      const settings = await this.settingsFor(args.localePaths?.[0] || process.cwd(), args);
+      const separator = settings.keySeparator;
+      // Rename in memory everywhere first, so a clash in one file leaves every file untouched
+      const edits = (await this.loadLocaleEdits(await this.localeTargets(args.localePaths), settings))
+        .filter(edit => getEntry(edit.data, from, separator) !== undefined);
+      for (const edit of edits) {
+        const serializer = resolveFormat(edit.file, settings.format);
+        if (serializer.flat) {
+          edit.renamed = Object.fromEntries(Object.keys(edit.data)
+            .filter(key => key === from || key.startsWith(`${from}${separator}`))
+            .map(key => [`${to}${key.slice(from.length)}`, key]));
+        }
+        renameEntry(edit.data, from, to, serializer.flat ? 'flat' : detectKeyStyle(edit.data, separator) || settings.keyStyle || 'nested', separator);
+      }
+
+      const lines = [
+        `Renamed ${from} to ${to} in ${edits.length} locale files:`,
+        ...edits.map(edit => `- ${edit.file}`),
+      ];
+      if (edits.length > 0) lines.push(...await this.writeLocaleEdits('rename_translation', edits, settings, args.dryRun));
+
+      return { text: lines.join('\n') };
+    } catch (error: unknown) {
+      const err = error as Error;
+      return { text: `Error renaming ${from}: ${err instanceof Error ? err.message : String(err)}`, failed: true };
+    }
+  }
+
+  async deleteTranslation(args: DeleteTranslationArgs): Promise<ToolResult> {
+    const { key } = args;
+
+    try {
+      const settings = await this.settingsFor(args.localePaths?.[0] || process.cwd(), args);
+      const edits = (await this.loadLocaleEdits(await this.localeTargets(args.localePaths), settings))
+        .filter(edit => deleteEntry(edit.data, key, settings.keySeparator));
+
+      const lines = [
+        `Deleted ${key} from ${edits.length} locale files:`,
+        ...edits.map(edit => `- ${edit.file}`),
+      ];
+      if (edits.length > 0) lines.push(...await this.writeLocaleEdits('delete_translation', edits, settings, args.dryRun));
+
+      return { text: lines.join('\n') };
+    } catch (error: unknown) {
+      const err = error as Error;
+      return { text: `Error deleting ${key}: ${err instanceof Error ? err.message : String(err)}`, failed: true };
+    }
+  }
+
+  // Read locale files for editing; a missing file starts empty when allowed
+  private async loadLocaleEdits(files: string[], settings: Settings, allowMissing = false): Promise<LocaleFileEdit[]> {
+    return Promise.all(files.map(async file => {
+      const previousContent = allowMissing ? await readFileIfExists(file) ?? '' : await fs.readFile(file, 'utf-8');
+      const data = previousContent === '' ? {} : resolveFormat(file, settings.format).deserialize(previousContent, { keySeparator: settings.keySeparator });
+      return { file: path.resolve(file), previousContent, data };
+    }));
+  }
+
+  // Diffs of the edited files on a dry run, else journal and write them atomically
+  private async writeLocaleEdits(tool: string, edits: LocaleFileEdit[], settings: Settings, dryRun?: boolean): Promise<string[]> {
+    const contents = edits.map(edit => this.serializeEdit(edit.file, edit.data, edit.previousContent, settings, edit.renamed));
+    if (dryRun) {
+      return ['Dry run, nothing written.', ...edits.map((edit, index) => unifiedDiff(edit.file, edit.previousContent || null, contents[index]))];
+    }
+    const projectRoot = await findProjectRoot(edits[0].file);
+    const run = await recordRun(projectRoot, tool, edits.map(edit => edit.file));
+    for (const [index, edit] of edits.entries()) {
+      await writeFileAtomic(edit.file, contents[index]);
+      this.localeFiles.add(edit.file);
+    }
+    await completeRun(projectRoot, run);
+    return [`Run id: ${run.id} (restore with undo_extraction)`];
+  }
+
+  async watch(args: WatchI18nArgs): Promise<ToolResult> {
+    const { rootDir } = args;
+
+    try {
+      const resolvedRoot = path.resolve(rootDir);
+      // A watch whose watcher failed is replaced by a new one
+      const existing = [...this.watches.values()].find(session => session.rootDir === resolvedRoot && !session.stopped);
+      if (existing) {
+        return { text: [`Already watching ${resolvedRoot}.`, ...this.formatWatch(existing)].join('\n') };
+      }
+
+      const settings = await this.settingsFor(rootDir, args);
+      const projectRoot = await findProjectRoot(rootDir);
+      const initial = await this.runBatchExtraction(args, settings, true);
+      const onError = (error: Error) => {
+        session.lastError = `watcher stopped: ${error.message}`;
+        session.stopped = true;
+      };
+      const watcher = watchSources(rootDir, { include: settings.include, exclude: settings.exclude, debounceMs: args.debounceMs, onError }, async () => {
+        try {
+          // Settings are resolved again so edits to the configuration file apply to the next run
+          const run = await this.runBatchExtraction(args, await this.settingsFor(rootDir, args), true);
+          session.extractions++;
+          if (run.runId) session.runIds.push(run.runId);
+          // The initial run stays restorable; of the runs after it only the latest are kept
+          const initialRuns = initial.runId ? 1 : 0;
+          while (session.runIds.length > initialRuns + WATCH_HISTORY_LIMIT) {
+            await dropRun(projectRoot, session.runIds.splice(initialRuns, 1)[0]);
+            session.droppedRuns++;
+          }
+          for (const target of run.prepared) session.written.add(path.resolve(target.targetPath));
+          for (const manifest of run.manifests) session.written.add(manifest.file);
+          session.lastError = null;
+        } catch (error: unknown) {
+          session.lastError = error instanceof Error ? error.message : String(error);
+        }
+      });
+      const session: WatchSession = {
+        id: `watch-${++this.watchCount}`,
+        rootDir: resolvedRoot,
+        watcher,
+        startedAt: new Date().toISOString(),
+        extractions: 0,
+        runIds: initial.runId ? [initial.runId] : [],
+        droppedRuns: 0,
+        written: new Set([...initial.prepared.map(target => path.resolve(target.targetPath)), ...initial.manifests.map(manifest => manifest.file)]),
+        lastError: null,
+        stopped: false,
+      };
+      this.watches.set(session.id, session);
+
+      const count = (status: BatchFileReport['status']) => initial.reports.filter(report => report.status === status).length;
+      const lines = [
+        `Watching ${resolvedRoot} as ${session.id} (stop with unwatch_i18n).`,
+        `Initial run: ${initial.reports.length} files, ${count('extracted')} extracted, ${count('error')} failed, ${initial.cached} from the cache; ${initial.prepared.length} locale files updated.`,
+        ...initial.prepared.map(target => `- ${path.resolve(target.targetPath)}`),
+      ];
+      if (initial.runId) lines.push(`Run id: ${initial.runId} (restore with undo_extraction)`);
+
+      return { text: lines.join('\n') };
+    } catch (error: unknown) {
+      const err = error as Error;
+      return { text: `Error watching ${rootDir}: ${err instanceof Error ? err.message : String(err)}`, failed: true };
+    }
+  }
+
+  async unwatch(args: UnwatchI18nArgs): Promise<ToolResult> {
+    const sessions = args.watchId ? [this.watches.get(args.watchId)].filter((session): session is WatchSession => !!session) : [...this.watches.values()];
+    if (args.watchId && sessions.length === 0) {
+      return { text: `Error stopping watch: no watch ${args.watchId}`, failed: true };
+    }
+
+    const lines = [`Stopped ${sessions.length} watches.`];
+    for (const session of sessions) {
+      session.watcher.close();
+      this.watches.delete(session.id);
+      lines.push(`${session.id}: ${session.rootDir}`, ...this.formatWatch(session).map(line => `  ${line}`));
+    }
+
+    return { text: lines.join('\n') };
+  }
+
+  private formatWatch(session: WatchSession): string[] {
+    return [
+      `Started ${session.startedAt}; ${session.extractions} extractions after changes, ${session.runIds.length + session.droppedRuns} runs that wrote files.`,
+      ...[...session.written].sort().map(file => `- ${file}`),
+      ...(session.runIds.length > 0 ? [`Run ids: ${session.runIds.join(', ')}`] : []),
+      ...(session.droppedRuns > 0 ? [`${session.droppedRuns} older runs were dropped from the history; only the initial and the last ${WATCH_HISTORY_LIMIT} are kept.`] : []),
+      ...(session.stopped ? [`Not watching anymore: ${session.lastError}`] : session.lastError ? [`Last run failed: ${session.lastError}`] : []),
+    ];
+  }
+
+  async getConfig(args: GetConfigArgs): Promise<ToolResult> {
+    const startPath = args.path || process.cwd();
+
+    try {
+      const settings = await this.settingsFor(startPath);
+      const lines = [
+        settings.configFile ? `Configuration: ${settings.configFile}` : `No ${CONFIG_FILES.join(' or ')} found above ${path.resolve(startPath)}; using defaults.`,
+        JSON.stringify(settings, null, 2),
+      ];
+
+      return { text: lines.join('\n') };
+    } catch (error: unknown) {
+      const err = error as Error;
+      return { text: `Error reading configuration for ${startPath}: ${err instanceof Error ? err.message : String(err)}`, failed: true };
+    }
+  }
+
+  async undo(args: UndoExtractionArgs): Promise<ToolResult> {
+    try {
+      const projectRoot = await findProjectRoot(args.projectDir || process.cwd());
+      const run = await restoreRun(projectRoot, args.runId, args.force);
+      const lines = [
+        `Undid ${run.tool} run ${run.id} from ${run.createdAt}:`,
+        ...run.files.map(file => file.backup === null ? `- ${file.path}: removed (created by the run)` : `- ${file.path}: restored`),
+      ];
+
+      return { text: lines.join('\n') };
+    } catch (error: unknown) {
+      const err = error as Error;
+      return { text: `Error undoing extraction: ${err instanceof Error ? err.message : String(err)}`, failed: true };
+    }
+  }
+
+  // How a flat format stores the keys of a locale file: one namespace's file (locales/de/common.po) holds
+  // keys relative to that namespace, so only files holding several put the first segment into a PO msgctxt
+  private keyLayout(file: string, settings: { keySeparator?: string; locales?: string[] }): Pick<FormatOptions, 'keySeparator' | 'context'> {
+    return { keySeparator: settings.keySeparator, context: namespaceFromPath(file, settings.locales) === null };
+  }
+
+  // Read the target locale file and merge extracted data into what it already contains, without writing yet
+  private async prepareMergedTarget(targetPath: string, dataContent: Record<string, any>, options: MergeTargetOptions = {}): Promise<PreparedTarget> {
+    const serializer = resolveFormat(targetPath, options.format);
+
+    // Load existing translations if file exists. A file that can't be parsed fails the run rather than
+    // being overwritten with the extracted keys alone
+    const previousContent = await readFileIfExists(targetPath);
+    let existingContent: Record<string, any> = {};
+    if (previousContent !== null) {
+      try {
+        existingContent = serializer.deserialize(previousContent, { keySeparator: options.keySeparator });
+      } catch (error: unknown) {
+        throw new Error(`Could not parse ${targetPath}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+
+    // Both sides share one layout before merging; flat formats (PO, XLIFF, ...) store separator-joined keys only
+    const separator = options.keySeparator || '.';
+    const keyStyle: KeyStyle = serializer.flat ? 'flat' :
+      options.keyStyle || detectKeyStyle(existingContent, separator) || 'nested';
+    existingContent = applyKeyStyle(existingContent, keyStyle, separator);
+    const newContent = applyKeyStyle(dataContent, keyStyle, separator);
+
+    // Merge new translations with existing ones
+    const strategy = options.strategy || DEFAULT_MERGE_STRATEGY;
+    const { data, report } = mergeLocaleData(existingContent, newContent, strategy, separator);
+    if (strategy === 'fail-on-conflict' && report.conflicts.length > 0) {
+      throw new MergeConflictError(targetPath, report.conflicts);
+    }
+
+    return {
+      targetPath,
+      previousContent,
+      content: serializer.serialize(data, {
+        locale: options.locale || 'en',
+        indent: options.indent ?? detectIndent(previousContent),
+        previous: previousContent,
+        ...this.keyLayout(targetPath, options),
+      }),
+      report,
+    };
+  }
+
+  // Manifest next to a locale file, keeping what earlier runs recorded for other source files
+  private async prepareManifest(targetPath: string, sourceFiles: string[], entries: { key: string; location: ManifestLocation }[]): Promise<PreparedManifest> {
+    const file = manifestPath(path.resolve(targetPath));
+    const previousContent = await readFileIfExists(file);
+    let previous: ExtractionManifest | null = null;
+    if (previousContent !== null) {
+      try {
+        previous = JSON.parse(previousContent);
+      } catch (error: unknown) {
+        console.warn(`Warning: Could not parse existing manifest ${file}. Starting fresh. Error: ${(error as Error).message}`);
+      }
+    }
+    const manifest = mergeManifest(previous, file, path.resolve(targetPath), sourceFiles.map(source => path.resolve(source)), entries);
+    return { file, content: `${JSON.stringify(manifest, null, 2)}\n` };
+  }
+
+  // Manifest next to a locale file with freshly generated values tagged as machine-generated
+  private async prepareGeneratedManifest(localePath: string, keys: string[], generated: string[], provider: string): Promise<PreparedManifest> {
+    const file = manifestPath(path.resolve(localePath));
+    const previousContent = await readFileIfExists(file);
+    let previous: ExtractionManifest | null = null;
+    if (previousContent !== null) {
+      try {
+        previous = JSON.parse(previousContent);
+      } catch (error: unknown) {
+        console.warn(`Warning: Could not parse existing manifest ${file}. Starting fresh. Error: ${(error as Error).message}`);
+      }
+    }
+    const manifest = markGenerated(previous, file, path.resolve(localePath), keys, generated, { provider, generatedAt: new Date().toISOString() });
+    return { file, content: `${JSON.stringify(manifest, null, 2)}\n` };
+  }
+
+  // Manifest record of an extracted entry, under the key it has in the locale file
+  private manifestEntry(entry: ExtractedEntry, separator: string, prefixNamespace = true): { key: string; location: ManifestLocation } {
+    const { file, line, column, comment } = entry;
+    return {
+      key: prefixNamespace && entry.namespace ? `${entry.namespace}${separator}${entry.key}` : entry.key,
+      location: { file, line, column, ...(comment ? { comment } : {}) },
+    };
+  }
+
+  private async writePreparedTarget(target: PreparedTarget): Promise<void> {
+    await writeFileAtomic(target.targetPath, target.content);
+    this.localeFiles.add(path.resolve(target.targetPath));
+  }
+
+  // Locale files found under LOCALE_PATHS plus the ones earlier tool calls read or wrote, as absolute paths
+  async knownLocaleFiles(): Promise<string[]> {
+    const files = new Set(this.localeFiles);
+    for (const localePath of LOCALE_PATHS) {
+      const stats = await fs.stat(localePath).catch(() => null);
+      if (stats?.isDirectory()) {
+        const found = await collectSourceFiles(localePath, ['**/*'], [...DEFAULT_EXCLUDE, `**/*${MANIFEST_SUFFIX}`], LOCALE_EXTENSIONS);
+        for (const file of found) files.add(path.resolve(localePath, file));
+      } else if (stats?.isFile()) {
+        files.add(path.resolve(localePath));
+      }
+    }
+    return [...files].sort();
+  }
+
+  // Explicit locale files, else every known one
+  private async localeTargets(localePaths?: string[]): Promise<string[]> {
+    if (localePaths && localePaths.length > 0) return localePaths.map(file => path.resolve(file));
+    const files = await this.knownLocaleFiles();
+    if (files.length === 0) throw new Error('No known locale files. Pass localePaths or set LOCALE_PATHS');
+    return files;
+  }
+
+  // Effective settings of a tool call: its arguments over the configuration that applies to the path
+  private async settingsFor(startPath: string, overrides: SettingOverrides = {}): Promise<Settings> {
+    return resolveSettings(await loadConfig(startPath), overrides);
+  }
+
+  // Serialize edited locale data the way the file looked before: same indentation (the configured one for new files) and trailing newline
+  private serializeEdit(
+    file: string,
+    data: Record<string, any>,
+    previousContent: string,
+    settings: Settings,
+    renamed?: Record<string, string>
+  ): string {
+    const content = resolveFormat(file, settings.format).serialize(data, {
+      locale: localeFromPath(file, settings.locales),
+      indent: detectIndent(previousContent) ?? settings.indent,
+      previous: previousContent,
+      renamed,
+      ...this.keyLayout(file, settings),
+    });
+    return previousContent.endsWith('\n') && !content.endsWith('\n') ? `${content}\n` : content;
+  }
+
+  // --- Start Refactored Extraction Logic ---
+
+  // "title: Identifier `getTitle` at line 12 (not a constant)", naming the file when it was imported
+  private formatUnresolved(value: UnresolvedValue, sourcePath: string): string {
+      const location = path.resolve(sourcePath) === value.file ? `line ${value.line}` : `${value.file}:${value.line}`;
+      return `${value.key || '(root)'}: ${value.nodeType} at ${location} (${value.reason})`;
+  }
+
+  // Extract translations from a source file as namespace-prefixed keys
+  private async extractDataContent(sourceCode: string, options: ExtractionOptions = {}): Promise<Record<string, any>> {
+      return this.prefixNamespaces(await this.extractNamespacedContent(sourceCode, options), options.keySeparator);
+  }
+
+  // Same extraction as extractDataContent, grouped by namespace ('' for keys without one)
+  private async extractNamespacedContent(sourceCode: string, options: ExtractionOptions = {}): Promise<Record<string, Record<string, any>>> {
+      const ast = parseSource(sourceCode, options.parserPlugins, options.filePath);
+
+      // First, try to extract t() function calls from React components
+      const translationCalls = this.extractNamespacedTranslationCalls(ast, options);
+      if (Object.keys(translationCalls).length > 0) {
+          return translationCalls;
+      }
+      // Components don't export locale data, so a template file without calls has nothing to extract
+      if (isTemplateSource(options.filePath)) return {};
+
+      // If no translation calls found, statically evaluate the locale object the module exports
+      const graph = await loadModuleGraph(options.filePath ?? null, sourceCode, ast, options.parserPlugins);
+      const unresolved: UnresolvedValue[] = [];
+      const locations: Record<string, SourceLocation> = {};
+      const extractedData = evaluateLocaleExports(graph, {
+          placeholderStyle: options.placeholderStyle,
+          placeholders: options.placeholders,
+          unresolved,
+          locations,
+      });
+      for (const [file, module] of graph.modules) {
+          if (file !== graph.entry && options.dependencies) options.dependencies[file] = contentHash(module.sourceCode);
+      }
+      options.unresolved?.push(...unresolved);
+      options.skipped?.push(...unresolved.map(value => ({
+          file: value.file,
+          line: value.line,
+          column: value.column,
+          key: value.key,
+          nodeType: value.nodeType,
+          reason: value.reason,
+      })));
+      if (extractedData) options.entries?.push(...this.moduleEntries(extractedData, locations, graph, options.keySeparator));
+
+      return extractedData ? { '': extractedData } : {}; // Return extracted data or empty object
+  }
+
+  // Flatten namespace groups into namespace-prefixed keys ("Home.title")
+  private prefixNamespaces(namespaces: Record<string, Record<string, any>>, separator = '.'): Record<string, any> {
+      const result: Record<string, any> = {};
+      for (const [namespace, data] of Object.entries(namespaces)) {
+          for (const [key, value] of Object.entries(data)) {
+              result[namespace ? `${namespace}${separator}${key}` : key] = value;
+          }
+      }
+      return result;
+  }
+
+  // One entry per leaf value of an evaluated locale module, with the translator comment above it
+  private moduleEntries(data: Record<string, any>, locations: Record<string, SourceLocation>, graph: ModuleGraph, separator = '.'): ExtractedEntry[] {
+      const comments = new Map<string, Map<number, string>>();
+      const commentFor = (location: SourceLocation) => {
+          if (!comments.has(location.file)) {
+              const program = graph.modules.get(location.file)?.program;
+              comments.set(location.file, translatorComments(program ? (program.parent as t.File).comments : null));
+          }
+          return comments.get(location.file)!.get(location.line);
+      };
+
+      const entries: ExtractedEntry[] = [];
+      const walk = (value: any, segments: string[]) => {
+          if (value !== null && typeof value === 'object' && Object.keys(value).length > 0) {
+              for (const [key, child] of Object.entries(value)) walk(child, [...segments, key]);
+              return;
+          }
+          const location = locations[segments.join('.')] ?? { file: graph.entry, line: 0, column: 0 };
+          const comment = commentFor(location);
+          entries.push({ key: segments.join(separator), namespace: '', value, ...location, ...(comment ? { comment } : {}) });
+      };
+      for (const [key, value] of Object.entries(data)) walk(value, [key]);
+      return entries;
+  }
+
+  // Extract t() function calls from React components
+  private extractTranslationCalls(ast: t.File, options: ExtractionOptions = {}): Record<string, any> {
+      return this.prefixNamespaces(this.extractNamespacedTranslationCalls(ast, options), options.keySeparator);
+  }
+
+  // Extract translation calls of every supported library, grouped by namespace
+  private extractNamespacedTranslationCalls(ast: t.File, options: ExtractionOptions = {}): Record<string, Record<string, any>> {
+      const translations: Record<string, Record<string, any>> = {};
+      const file = options.filePath ? path.resolve(options.filePath) : '';
+      const usages = extractKeys(ast, options.adapters, options.adapterOptions);
+
+      for (const { namespace, key, defaultValue, dynamic, line, column } of usages) {
+          // Keys built at runtime have no single entry to write
+          if (dynamic) {
+              options.skipped?.push({ file, line, column, key, reason: 'key built at runtime' });
+              continue;
+          }
+          const group = translations[namespace] ||= {};
+          // Empty string for keys without default values, but never let a bare usage erase a known default
+          if (defaultValue !== null) {
+              group[key] = defaultValue;
+          } else if (!(key in group)) {
+              group[key] = "";
+          }
+      }
+
+      if (options.entries) {
+          const comments = translatorComments(ast.comments);
+          for (const usage of usages) {
+              if (usage.dynamic) continue;
+              const comment = usage.description ?? comments.get(usage.line);
+              options.entries.push({
+                  key: usage.key,
+                  namespace: usage.namespace,
+                  value: translations[usage.namespace][usage.key],
+                  file,
+                  line: usage.line,
+                  column: usage.column,
+                  ...(comment ? { comment } : {}),
+              });
+          }
+      }
+
+      return translations;
+  }
+
+  // --- End Refactored Extraction Logic ---
+
+  // Stop every watch so the process can exit
+  close(): void {
+    for (const session of this.watches.values()) session.watcher.close();
+    this.watches.clear();
+  }
+}
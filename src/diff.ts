@@ -0,0 +1,92 @@
+type DiffLine = { kind: ' ' | '-' | '+'; text: string };
+
+// Largest LCS table aligned line by line (16 MB); bigger rewrites show as the old lines removed and the new ones added
+const MAX_TABLE_CELLS = 4_000_000;
+
+// Line-level diff: common prefix and suffix are trimmed, the middle is aligned by longest common subsequence
+function diffLines(oldLines: string[], newLines: string[]): DiffLine[] {
+  let prefix = 0;
+  while (prefix < oldLines.length && prefix < newLines.length && oldLines[prefix] === newLines[prefix]) prefix++;
+  let suffix = 0;
+  while (
+    suffix < oldLines.length - prefix &&
+    suffix < newLines.length - prefix &&
+    oldLines[oldLines.length - 1 - suffix] === newLines[newLines.length - 1 - suffix]
+  ) suffix++;
+
+  const a = oldLines.slice(prefix, oldLines.length - suffix);
+  const b = newLines.slice(prefix, newLines.length - suffix);
+  const context = (lines: string[]) => lines.map(text => ({ kind: ' ' as const, text }));
+  if ((a.length + 1) * (b.length + 1) > MAX_TABLE_CELLS) {
+    return [
+      ...context(oldLines.slice(0, prefix)),
+      ...a.map(text => ({ kind: '-' as const, text })),
+      ...b.map(text => ({ kind: '+' as const, text })),
+      ...context(oldLines.slice(oldLines.length - suffix)),
+    ];
+  }
+
+  // lengths[i][j] = LCS length of a[i..] and b[j..]
+  const lengths = Array.from({ length: a.length + 1 }, () => new Uint32Array(b.length + 1));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const middle: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      middle.push({ kind: ' ', text: a[i++] });
+      j++;
+    } else if (i < a.length && (j === b.length || lengths[i + 1][j] >= lengths[i][j + 1])) {
+      middle.push({ kind: '-', text: a[i++] });
+    } else {
+      middle.push({ kind: '+', text: b[j++] });
+    }
+  }
+
+  return [...context(oldLines.slice(0, prefix)), ...middle, ...context(oldLines.slice(oldLines.length - suffix))];
+}
+
+// Unified diff between two versions of a file; null content means the file does not exist
+export function unifiedDiff(filePath: string, oldContent: string | null, newContent: string | null, context = 3): string {
+  const split = (content: string | null) => content === null || content === '' ? [] : content.replace(/\n$/, '').split('\n');
+  const lines = diffLines(split(oldContent), split(newContent));
+  if (lines.every(line => line.kind === ' ')) return '';
+
+  const header = [
+    oldContent === null ? '--- /dev/null' : `--- ${filePath}`,
+    newContent === null ? '+++ /dev/null' : `+++ ${filePath}`,
+  ];
+
+  // Group changed lines into hunks with surrounding context
+  const hunks: string[] = [];
+  let index = 0;
+  while (index < lines.length) {
+    const firstChange = lines.findIndex((line, position) => position >= index && line.kind !== ' ');
+    if (firstChange === -1) break;
+    const start = Math.max(firstChange - context, index);
+    let end = firstChange;
+    for (let position = firstChange; position < lines.length && position - end <= context * 2; position++) {
+      if (lines[position].kind !== ' ') end = position;
+    }
+    end = Math.min(end + context, lines.length - 1);
+
+    const before = lines.slice(0, start);
+    const hunk = lines.slice(start, end + 1);
+    const oldStart = before.filter(line => line.kind !== '+').length;
+    const newStart = before.filter(line => line.kind !== '-').length;
+    const oldCount = hunk.filter(line => line.kind !== '+').length;
+    const newCount = hunk.filter(line => line.kind !== '-').length;
+    hunks.push(
+      `@@ -${oldCount === 0 ? oldStart : oldStart + 1},${oldCount} +${newCount === 0 ? newStart : newStart + 1},${newCount} @@`,
+      ...hunk.map(line => `${line.kind}${line.text}`)
+    );
+    index = end + 1;
+  }
+
+  return [...header, ...hunks].join('\n');
+}
@@ -0,0 +1,127 @@
+import { flattenKeys, type KeyStyle } from './keys.js';
+
+// Single-entry lookups and edits on deserialized locale data. Edits change the data in place, so
+// every other key keeps its position, whether the file nests its keys or joins them with the separator.
+
+const isObject = (item: any): item is Record<string, any> => item !== null && typeof item === 'object';
+const isPlainObject = (item: any): item is Record<string, any> => isObject(item) && !Array.isArray(item);
+
+interface EntryLocation {
+  parent: Record<string, any>;
+  property: string;
+  ancestors: { parent: Record<string, any>; property: string }[]; // Outermost first
+}
+
+// Find the object holding a key, trying whole keys before splitting them: "Home.title" matches a
+// flat "Home.title" entry as well as { Home: { title } } or { "Home": { "title": ... } } mixes
+function locateEntry(data: Record<string, any>, key: string, separator: string): EntryLocation | null {
+  const search = (object: Record<string, any>, rest: string, ancestors: EntryLocation['ancestors']): EntryLocation | null => {
+    if (Object.prototype.hasOwnProperty.call(object, rest)) return { parent: object, property: rest, ancestors };
+    const segments = rest.split(separator);
+    for (let index = segments.length - 1; index > 0; index--) {
+      const head = segments.slice(0, index).join(separator);
+      if (!isObject(object[head])) continue;
+      const found = search(object[head], segments.slice(index).join(separator), [...ancestors, { parent: object, property: head }]);
+      if (found) return found;
+    }
+    return null;
+  };
+  return search(data, key, []);
+}
+
+// Value of a key (a string, or the subtree below it), undefined when the key does not exist
+export function getEntry(data: Record<string, any>, key: string, separator = '.'): any {
+  const location = locateEntry(data, key, separator);
+  return location ? location.parent[location.property] : undefined;
+}
+
+/**
+ * Set the value of a key. Existing keys change in place; new keys are appended to the deepest
+ * existing parent, as a separator-joined key in flat files and as nested objects otherwise.
+ */
+export function setEntry(data: Record<string, any>, key: string, value: any, style: KeyStyle, separator = '.'): 'added' | 'changed' | 'unchanged' {
+  const location = locateEntry(data, key, separator);
+  if (location) {
+    const existing = location.parent[location.property];
+    if (isPlainObject(existing) && !isPlainObject(value)) throw new Error(`${key} holds nested keys`);
+    if (JSON.stringify(existing) === JSON.stringify(value)) return 'unchanged';
+    location.parent[location.property] = value;
+    return 'changed';
+  }
+
+  const flat = flattenKeys(data, separator);
+  const clash = Object.keys(flat).find(existing => existing.startsWith(`${key}${separator}`) || key.startsWith(`${existing}${separator}`));
+  if (clash !== undefined) throw new Error(`Cannot add ${key}: ${clash} already exists`);
+
+  if (style === 'flat') {
+    data[key] = value;
+    return 'added';
+  }
+  const segments = key.split(separator);
+  let target = data;
+  for (const segment of segments.slice(0, -1)) {
+    if (!isPlainObject(target[segment])) target[segment] = {};
+    target = target[segment];
+  }
+  target[segments[segments.length - 1]] = value;
+  return 'added';
+}
+
+// Remove a key (or subtree), along with parent objects it leaves empty; false when the key does not exist
+export function deleteEntry(data: Record<string, any>, key: string, separator = '.'): boolean {
+  const location = locateEntry(data, key, separator);
+  if (!location) return false;
+  const remove = (parent: Record<string, any>, property: string) => {
+    if (Array.isArray(parent)) parent.splice(Number(property), 1);
+    else delete parent[property];
+  };
+  remove(location.parent, location.property);
+  let emptied = location.parent;
+  for (const ancestor of [...location.ancestors].reverse()) {
+    if (Object.keys(emptied).length > 0) break;
+    remove(ancestor.parent, ancestor.property);
+    emptied = ancestor.parent;
+  }
+  return true;
+}
+
+// Rename a key or subtree. A rename within the same parent keeps the key's position; a move elsewhere appends it there.
+export function renameEntry(data: Record<string, any>, from: string, to: string, style: KeyStyle, separator = '.'): void {
+  const location = locateEntry(data, from, separator);
+  if (!location) throw new Error(`Key ${from} not found`);
+  if (to.startsWith(`${from}${separator}`)) throw new Error(`Cannot move ${from} into itself`);
+  if (locateEntry(data, to, separator)) throw new Error(`Cannot rename ${from} to ${to}: ${to} already exists`);
+
+  const parentPrefix = from.slice(0, from.length - location.property.length);
+  const property = to.startsWith(parentPrefix) ? to.slice(parentPrefix.length) : null;
+  // Stays in the same parent when the new name needs no nesting, or the parent already holds joined keys
+  if (property && !Array.isArray(location.parent) && (!property.includes(separator) || location.property.includes(separator))) {
+    const entries = Object.entries(location.parent);
+    for (const key of Object.keys(location.parent)) delete location.parent[key];
+    for (const [key, value] of entries) location.parent[key === location.property ? property : key] = value;
+    return;
+  }
+
+  const value = location.parent[location.property];
+  deleteEntry(data, from, separator);
+  setEntry(data, to, value, style, separator);
+}
+
+// Leaf entries whose key or value satisfies the matcher
+export function searchEntries(
+  data: Record<string, any>,
+  matches: (text: string) => boolean,
+  scope: 'keys' | 'values' | 'both',
+  separator = '.'
+): { key: string; value: any }[] {
+  return Object.entries(flattenKeys(data, separator))
+    .filter(([key, value]) =>
+      (scope !== 'values' && matches(key)) || (scope !== 'keys' && value !== null && typeof value !== 'object' && matches(String(value)))
+    )
+    .map(([key, value]) => ({ key, value }));
+}
+
+// Indentation of the first indented line, so rewritten files keep their look
+export function detectIndent(content: string | null): string | undefined {
+  return content ? /^([ \t]+)\S/m.exec(content)?.[1] : undefined;
+}
@@ -0,0 +1,601 @@
+import type { Binding, NodePath } from '@babel/traverse';
+import * as t from '@babel/types';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { parseSource, traverse, type ParserPluginName } from './ast.js';
+import { interpolate, type PlaceholderStyle } from './interpolation.js';
+import type { SourceLocation } from './manifest.js';
+
+// A value the evaluator could not work out statically; it is left out of the extracted data
+export interface UnresolvedValue {
+  file: string;
+  key: string; // Dotted key path the value belonged to
+  nodeType: string;
+  line: number;
+  column: number;
+  reason: string;
+}
+
+export interface EvaluateOptions {
+  placeholderStyle?: PlaceholderStyle;
+  placeholders?: Record<string, Record<string, string>>; // Filled with key -> placeholder name -> expression
+  unresolved?: UnresolvedValue[]; // Filled with values that were dropped
+  locations?: Record<string, SourceLocation>; // Filled with dotted key -> where its value is written
+}
+
+interface ModuleRecord {
+  file: string;
+  sourceCode: string;
+  program: NodePath<t.Program> | null;
+  imports: Map<string, string | null>; // Relative specifier -> resolved file
+  json?: unknown; // Parsed content of .json modules
+  error?: string; // Why the module could not be loaded
+}
+
+// Every module reachable from an entry file through relative imports, loaded ahead of the (synchronous) evaluation
+export interface ModuleGraph {
+  entry: string;
+  modules: Map<string, ModuleRecord>;
+}
+
+type ExportTarget =
+  | { kind: 'value'; path: NodePath }
+  | { kind: 'reexport'; source: string; name: string }
+  | { kind: 'namespace'; source: string };
+
+interface ModuleExports {
+  named: Map<string, ExportTarget>;
+  stars: string[]; // Sources of `export * from '...'`
+}
+
+const UNRESOLVED = Symbol('unresolved');
+type Value = unknown;
+
+// Extensions tried for import specifiers without one (or with a .js that stands for a .ts file)
+const RESOLVE_EXTENSIONS = ['.ts', '.tsx', '.js', '.jsx', '.mjs', '.cjs', '.json'];
+
+function programPath(ast: t.File): NodePath<t.Program> {
+  let program: NodePath<t.Program> | null = null;
+  traverse(ast, {
+    Program: (path: NodePath<t.Program>) => {
+      program = path;
+      path.stop();
+    },
+  });
+  return program!;
+}
+
+function isRelative(specifier: string): boolean {
+  return specifier.startsWith('./') || specifier.startsWith('../');
+}
+
+async function isFile(filePath: string): Promise<boolean> {
+  return (await fs.stat(filePath).catch(() => null))?.isFile() ?? false;
+}
+
+async function resolveModule(fromFile: string, specifier: string): Promise<string | null> {
+  const base = path.resolve(path.dirname(fromFile), specifier);
+  const withoutJs = base.replace(/\.[cm]?js$/, '');
+  const candidates = [
+    base,
+    ...RESOLVE_EXTENSIONS.map(extension => `${withoutJs}${extension}`),
+    ...RESOLVE_EXTENSIONS.map(extension => path.join(base, `index${extension}`)),
+  ];
+  for (const candidate of candidates) {
+    if (await isFile(candidate)) return candidate;
+  }
+  return null;
+}
+
+// Module specifiers a file pulls values from: imports, re-exports and require('...') calls
+function moduleSpecifiers(ast: t.File): string[] {
+  const specifiers: string[] = [];
+  traverse(ast, {
+    ImportDeclaration: (path: NodePath<t.ImportDeclaration>) => {
+      specifiers.push(path.node.source.value);
+    },
+    'ExportNamedDeclaration|ExportAllDeclaration': (path: NodePath<t.ExportNamedDeclaration | t.ExportAllDeclaration>) => {
+      if (path.node.source) specifiers.push(path.node.source.value);
+    },
+    CallExpression: (path: NodePath<t.CallExpression>) => {
+      const [argument] = path.node.arguments;
+      if (t.isIdentifier(path.node.callee, { name: 'require' }) && t.isStringLiteral(argument)) specifiers.push(argument.value);
+    },
+  });
+  return specifiers;
+}
+
+// Load the entry file and every module it reaches through relative imports
+export async function loadModuleGraph(
+  filePath: string | null,
+  sourceCode: string,
+  ast: t.File,
+  parserPlugins: ParserPluginName[] = []
+): Promise<ModuleGraph> {
+  const entry = filePath ? path.resolve(filePath) : '<source>';
+  const modules = new Map<string, ModuleRecord>();
+  const queue: { record: ModuleRecord; ast: t.File | null }[] = [];
+
+  const entryRecord: ModuleRecord = { file: entry, sourceCode, program: programPath(ast), imports: new Map() };
+  modules.set(entry, entryRecord);
+  queue.push({ record: entryRecord, ast });
+
+  while (queue.length > 0) {
+    const { record, ast: moduleAst } = queue.shift()!;
+    if (!moduleAst || !filePath) continue;
+
+    for (const specifier of moduleSpecifiers(moduleAst)) {
+      if (!isRelative(specifier) || record.imports.has(specifier)) continue;
+      const file = await resolveModule(record.file, specifier);
+      record.imports.set(specifier, file);
+      if (!file || modules.has(file)) continue;
+
+      const content = await fs.readFile(file, 'utf-8');
+      const loaded: ModuleRecord = { file, sourceCode: content, program: null, imports: new Map() };
+      modules.set(file, loaded);
+      try {
+        if (path.extname(file) === '.json') {
+          loaded.json = JSON.parse(content);
+        } else {
+          const parsed = parseSource(content, parserPlugins, file);
+          loaded.program = programPath(parsed);
+          queue.push({ record: loaded, ast: parsed });
+        }
+      } catch (error: unknown) {
+        loaded.error = error instanceof Error ? error.message : String(error);
+      }
+    }
+  }
+
+  return { entry, modules };
+}
+
+function isPlainObject(value: Value): value is Record<string, any> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+// Statically evaluates locale modules: literals, objects with spreads and computed keys, arrays,
+// concatenation, TypeScript wrappers, constants and values imported from relative files
+class StaticEvaluator {
+  private exportsCache = new Map<string, ModuleExports>();
+  private evaluating = new Set<t.Node>();
+  private placeholderStyle: PlaceholderStyle;
+  placeholders: Record<string, Record<string, string>>;
+  unresolved: UnresolvedValue[];
+  locations: Record<string, SourceLocation>;
+
+  constructor(private graph: ModuleGraph, options: EvaluateOptions) {
+    this.placeholderStyle = options.placeholderStyle || 'mustache';
+    this.placeholders = options.placeholders || {};
+    this.unresolved = options.unresolved || [];
+    this.locations = options.locations || {};
+  }
+
+  // Values evaluated later win, like later properties and spreads do in the object itself
+  private locate(module: ModuleRecord, node: t.Node, keyPath: string[]): void {
+    this.locations[keyPath.join('.')] = { file: module.file, line: node.loc?.start.line ?? 0, column: node.loc?.start.column ?? 0 };
+  }
+
+  private fail(module: ModuleRecord, node: t.Node, keyPath: string[], reason: string): typeof UNRESOLVED {
+    this.unresolved.push({
+      file: module.file,
+      key: keyPath.join('.'),
+      nodeType: node.type,
+      line: node.loc?.start.line ?? 0,
+      column: node.loc?.start.column ?? 0,
+      reason,
+    });
+    return UNRESOLVED;
+  }
+
+  // Evaluate without reporting failures, for values that have a fallback
+  private attempt(path: NodePath, module: ModuleRecord, keyPath: string[]): Value {
+    const reported = this.unresolved.length;
+    const value = this.value(path, module, keyPath);
+    this.unresolved.length = reported;
+    return value;
+  }
+
+  value(path: NodePath, module: ModuleRecord, keyPath: string[]): Value {
+    const node = path.node;
+    if (t.isStringLiteral(node) || t.isNumericLiteral(node) || t.isBooleanLiteral(node)) return node.value;
+    if (t.isNullLiteral(node)) return null;
+    if (t.isIdentifier(node) && node.name === 'undefined') return null; // Represent undefined as null in JSON
+    if (t.isUnaryExpression(node) && node.operator === 'void') return null;
+    if (t.isUnaryExpression(node) && node.operator === '-' && t.isNumericLiteral(node.argument)) return -node.argument.value;
+
+    // Type-only wrappers: {...} as const, {...} satisfies Messages, value!, (value)
+    if (
+      t.isTSAsExpression(node) || t.isTSSatisfiesExpression(node) || t.isTSNonNullExpression(node) ||
+      t.isTSTypeAssertion(node) || t.isParenthesizedExpression(node)
+    ) {
+      return this.value(path.get('expression') as NodePath, module, keyPath);
+    }
+
+    if (t.isTemplateLiteral(node)) return this.template(path as NodePath<t.TemplateLiteral>, module, keyPath);
+    if (t.isConditionalExpression(node) && this.placeholderStyle === 'icu') return this.message(node, module, keyPath);
+    if (t.isBinaryExpression(node) && node.operator === '+') {
+      const left = this.value(path.get('left') as NodePath, module, keyPath);
+      const right = this.value(path.get('right') as NodePath, module, keyPath);
+      if (left === UNRESOLVED || right === UNRESOLVED) return UNRESOLVED;
+      if (typeof left === 'object' || typeof right === 'object') return this.fail(module, node, keyPath, 'concatenation of non-primitive values');
+      return (left as any) + (right as any);
+    }
+    if (t.isObjectExpression(node)) return this.object(path as NodePath<t.ObjectExpression>, module, keyPath);
+    if (t.isArrayExpression(node)) return this.array(path as NodePath<t.ArrayExpression>, module, keyPath);
+    if (t.isIdentifier(node)) return this.identifier(path as NodePath<t.Identifier>, module, keyPath);
+    if (t.isMemberExpression(node)) return this.member(path as NodePath<t.MemberExpression>, module, keyPath);
+    if (t.isCallExpression(node) && this.requiredModule(node, module)) {
+      return this.moduleDefault(this.requiredModule(node, module)!, node, module, keyPath);
+    }
+
+    return this.fail(module, node, keyPath, 'not a static value');
+  }
+
+  // String constants are written into the template, anything else (numbers included) stays a placeholder
+  private template(path: NodePath<t.TemplateLiteral>, module: ModuleRecord, keyPath: string[]): Value {
+    const expressions = (path.get('expressions') as NodePath[]).map(expression => this.stringConstant(expression, module, keyPath));
+    if (expressions.every(value => value !== null)) {
+      return path.node.quasis.map((quasi, index) => (quasi.value.cooked ?? quasi.value.raw) + (expressions[index] ?? '')).join('');
+    }
+    const constants = new Map<t.Node, string>();
+    for (const [index, node] of path.node.expressions.entries()) {
+      if (expressions[index] !== null) constants.set(node, expressions[index]!);
+    }
+    return this.message(path.node, module, keyPath, constants);
+  }
+
+  // The string an expression holds when it is constant text, e.g. a const set to a string literal.
+  // Messages built from other expressions, such as ICU plurals, don't count
+  private stringConstant(path: NodePath, module: ModuleRecord, keyPath: string[]): string | null {
+    if (t.isConditionalExpression(path.node)) return null;
+    const key = keyPath.join('.');
+    const placeholders = this.placeholders[key];
+    const value = this.attempt(path, module, keyPath);
+    const interpolated = this.placeholders[key] !== placeholders;
+    if (placeholders === undefined) delete this.placeholders[key];
+    else this.placeholders[key] = placeholders;
+    return typeof value === 'string' && !interpolated ? value : null;
+  }
+
+  private message(node: t.Node, module: ModuleRecord, keyPath: string[], constants?: Map<t.Node, string>): Value {
+    const interpolated = interpolate(node, module.sourceCode, this.placeholderStyle, constants);
+    if (!interpolated) return this.fail(module, node, keyPath, 'not a static value');
+    if (Object.keys(interpolated.placeholders).length > 0) this.placeholders[keyPath.join('.')] = interpolated.placeholders;
+    return interpolated.message;
+  }
+
+  private object(path: NodePath<t.ObjectExpression>, module: ModuleRecord, keyPath: string[]): Value {
+    const result: Record<string, any> = {};
+    for (const property of path.get('properties') as NodePath[]) {
+      const node = property.node;
+      if (t.isSpreadElement(node)) {
+        const spread = this.value(property.get('argument') as NodePath, module, keyPath);
+        if (isPlainObject(spread)) Object.assign(result, spread);
+        else if (spread !== UNRESOLVED) this.fail(module, node, keyPath, 'spread of a value that is not an object');
+        continue;
+      }
+      if (!t.isObjectProperty(node)) {
+        this.fail(module, node, keyPath, `${node.type} is not a translation value`);
+        continue;
+      }
+
+      const key = this.propertyKey(property as NodePath<t.ObjectProperty>, module, keyPath);
+      if (key === null) continue;
+      const value = this.value(property.get('value') as NodePath, module, [...keyPath, key]);
+      if (value !== UNRESOLVED) {
+        result[key] = value;
+        this.locate(module, node, [...keyPath, key]);
+      }
+    }
+    return result;
+  }
+
+  private propertyKey(path: NodePath<t.ObjectProperty>, module: ModuleRecord, keyPath: string[]): string | null {
+    const key = path.node.key;
+    if (!path.node.computed) {
+      if (t.isIdentifier(key)) return key.name;
+      if (t.isStringLiteral(key) || t.isNumericLiteral(key)) return String(key.value);
+    }
+    const value = this.value(path.get('key') as NodePath, module, keyPath);
+    if (typeof value === 'string' || typeof value === 'number') return String(value);
+    if (value !== UNRESOLVED) this.fail(module, key, keyPath, 'computed key is not a string');
+    return null;
+  }
+
+  private array(path: NodePath<t.ArrayExpression>, module: ModuleRecord, keyPath: string[]): Value {
+    const result: any[] = [];
+    for (const element of path.get('elements') as NodePath<t.Node | null>[]) {
+      const node = element.node;
+      if (node === null) {
+        result.push(null); // Sparse arrays e.g. [1,,3]
+      } else if (t.isSpreadElement(node)) {
+        const spread = this.value(element.get('argument') as NodePath, module, keyPath);
+        if (Array.isArray(spread)) result.push(...spread);
+        else if (spread !== UNRESOLVED) this.fail(module, node, keyPath, 'spread of a value that is not an array');
+      } else {
+        // Unresolved elements keep their slot so later indexes stay stable
+        const value = this.value(element as NodePath, module, [...keyPath, String(result.length)]);
+        if (value !== UNRESOLVED) this.locate(module, node, [...keyPath, String(result.length)]);
+        result.push(value === UNRESOLVED ? null : value);
+      }
+    }
+    return result;
+  }
+
+  private member(path: NodePath<t.MemberExpression>, module: ModuleRecord, keyPath: string[]): Value {
+    const object = this.value(path.get('object') as NodePath, module, keyPath);
+    if (object === UNRESOLVED) return UNRESOLVED;
+    const property = path.node.computed
+      ? this.value(path.get('property') as NodePath, module, keyPath)
+      : t.isIdentifier(path.node.property) ? path.node.property.name : UNRESOLVED;
+    if (property === UNRESOLVED) return UNRESOLVED;
+
+    if (object !== null && typeof object === 'object' && Object.prototype.hasOwnProperty.call(object, String(property))) {
+      return (object as Record<string, any>)[String(property)];
+    }
+    if (Array.isArray(object) && property === 'length') return object.length;
+    return this.fail(module, path.node, keyPath, `property ${String(property)} not found`);
+  }
+
+  private identifier(path: NodePath<t.Identifier>, module: ModuleRecord, keyPath: string[]): Value {
+    const name = path.node.name;
+    const binding = path.scope.getBinding(name);
+    if (!binding) return this.fail(module, path.node, keyPath, `\`${name}\` is not defined in the file`);
+    return this.binding(binding, path.node, module, keyPath);
+  }
+
+  private binding(binding: Binding, reference: t.Node, module: ModuleRecord, keyPath: string[]): Value {
+    const declaration = binding.path;
+    const name = binding.identifier.name;
+
+    if (declaration.isImportSpecifier() || declaration.isImportDefaultSpecifier() || declaration.isImportNamespaceSpecifier()) {
+      const source = (declaration.parentPath.node as t.ImportDeclaration).source.value;
+      const file = this.resolve(module, source);
+      if (!file) return this.fail(module, reference, keyPath, `\`${name}\` is imported from ${source}, which is not a relative file`);
+      if (declaration.isImportNamespaceSpecifier()) return this.namespaceObject(file, reference, module, keyPath);
+      if (declaration.isImportDefaultSpecifier()) return this.moduleDefault(file, reference, module, keyPath);
+      const imported = declaration.node.imported;
+      return this.exported(file, t.isIdentifier(imported) ? imported.name : imported.value, reference, module, keyPath);
+    }
+
+    if (!declaration.isVariableDeclarator()) return this.fail(module, reference, keyPath, `\`${name}\` is not a constant`);
+    if (!binding.constant) return this.fail(module, reference, keyPath, `\`${name}\` is reassigned`);
+    const init = declaration.get('init') as NodePath<t.Expression | null | undefined>;
+    if (!init.node) return this.fail(module, reference, keyPath, `\`${name}\` has no initial value`);
+
+    // const { title } = messages picks one property of the initial value
+    const id = declaration.node.id;
+    let property: string | null = null;
+    if (t.isObjectPattern(id)) {
+      const match = id.properties.find((prop): prop is t.ObjectProperty =>
+        t.isObjectProperty(prop) && !prop.computed && t.isIdentifier(prop.value, { name }));
+      if (!match || !(t.isIdentifier(match.key) || t.isStringLiteral(match.key))) {
+        return this.fail(module, reference, keyPath, `\`${name}\` is destructured in a way that can't be evaluated`);
+      }
+      property = t.isIdentifier(match.key) ? match.key.name : match.key.value;
+    } else if (!t.isIdentifier(id)) {
+      return this.fail(module, reference, keyPath, `\`${name}\` is destructured in a way that can't be evaluated`);
+    }
+
+    if (this.evaluating.has(init.node)) return this.fail(module, reference, keyPath, `\`${name}\` refers to itself`);
+    this.evaluating.add(init.node);
+    try {
+      const value = this.value(init as NodePath, module, keyPath);
+      if (property === null || value === UNRESOLVED) return value;
+      if (isPlainObject(value) && Object.prototype.hasOwnProperty.call(value, property)) return value[property];
+      return this.fail(module, reference, keyPath, `property ${property} not found`);
+    } finally {
+      this.evaluating.delete(init.node);
+    }
+  }
+
+  private resolve(module: ModuleRecord, specifier: string): string | null {
+    return module.imports.get(specifier) ?? null;
+  }
+
+  private requiredModule(node: t.CallExpression, module: ModuleRecord): string | null {
+    const [argument] = node.arguments;
+    if (!t.isIdentifier(node.callee, { name: 'require' }) || !t.isStringLiteral(argument)) return null;
+    return this.resolve(module, argument.value);
+  }
+
+  private loaded(file: string, reference: t.Node, module: ModuleRecord, keyPath: string[]): ModuleRecord | typeof UNRESOLVED {
+    const target = this.graph.modules.get(file);
+    if (!target) return this.fail(module, reference, keyPath, `${file} was not loaded`);
+    if (target.error) return this.fail(module, reference, keyPath, `${path.basename(file)} could not be parsed: ${target.error}`);
+    return target;
+  }
+
+  // export default / module.exports of a module (the parsed content for JSON files)
+  private moduleDefault(file: string, reference: t.Node, module: ModuleRecord, keyPath: string[]): Value {
+    const target = this.loaded(file, reference, module, keyPath);
+    if (target === UNRESOLVED) return UNRESOLVED;
+    if (target.json !== undefined) return target.json;
+    return this.exported(file, 'default', reference, module, keyPath);
+  }
+
+  private exported(file: string, name: string, reference: t.Node, module: ModuleRecord, keyPath: string[]): Value {
+    const target = this.loaded(file, reference, module, keyPath);
+    if (target === UNRESOLVED) return UNRESOLVED;
+    if (target.json !== undefined) {
+      return isPlainObject(target.json) && name in target.json
+        ? target.json[name]
+        : this.fail(module, reference, keyPath, `${path.basename(file)} has no key ${name}`);
+    }
+
+    const found = this.findExport(target, name, new Set());
+    if (found) return this.exportValue(found.module, found.target, reference, keyPath);
+
+    // CommonJS modules expose their named values as properties of module.exports
+    if (name !== 'default') {
+      const fallback = this.findExport(target, 'default', new Set());
+      if (fallback) {
+        const value = this.exportValue(fallback.module, fallback.target, reference, keyPath);
+        if (isPlainObject(value) && name in value) return value[name];
+      }
+    }
+    return this.fail(module, reference, keyPath, `${path.basename(file)} has no export ${name}`);
+  }
+
+  private findExport(module: ModuleRecord, name: string, visited: Set<string>): { module: ModuleRecord; target: ExportTarget } | null {
+    if (visited.has(module.file)) return null;
+    visited.add(module.file);
+    const exports = this.moduleExports(module);
+    const target = exports.named.get(name);
+    if (target) return { module, target };
+    if (name === 'default') return null; // export * never re-exports the default
+    for (const source of exports.stars) {
+      const file = this.resolve(module, source);
+      const starModule = file ? this.graph.modules.get(file) : undefined;
+      const found = starModule && starModule.program ? this.findExport(starModule, name, visited) : null;
+      if (found) return found;
+    }
+    return null;
+  }
+
+  exportValue(module: ModuleRecord, target: ExportTarget, reference: t.Node, keyPath: string[]): Value {
+    if (target.kind === 'value') return this.value(target.path, module, keyPath);
+    const file = this.resolve(module, target.source);
+    if (!file) return this.fail(module, reference, keyPath, `${target.source} is not a relative file`);
+    if (target.kind === 'namespace') return this.namespaceObject(file, reference, module, keyPath);
+    return target.name === 'default'
+      ? this.moduleDefault(file, reference, module, keyPath)
+      : this.exported(file, target.name, reference, module, keyPath);
+  }
+
+  // import * as messages from './x': every named export as one object
+  private namespaceObject(file: string, reference: t.Node, module: ModuleRecord, keyPath: string[]): Value {
+    const target = this.loaded(file, reference, module, keyPath);
+    if (target === UNRESOLVED) return UNRESOLVED;
+    if (target.json !== undefined) return isPlainObject(target.json) ? { ...target.json, default: target.json } : { default: target.json };
+    const result: Record<string, any> = {};
+    for (const name of this.exportNames(target, new Set())) {
+      const value = this.exported(file, name, reference, module, [...keyPath, name]);
+      if (value !== UNRESOLVED) result[name] = value;
+    }
+    return result;
+  }
+
+  exportNames(module: ModuleRecord, visited: Set<string>): string[] {
+    if (visited.has(module.file) || !module.program) return [];
+    visited.add(module.file);
+    const exports = this.moduleExports(module);
+    const names = new Set(exports.named.keys());
+    for (const source of exports.stars) {
+      const file = this.resolve(module, source);
+      const starModule = file ? this.graph.modules.get(file) : undefined;
+      if (starModule) this.exportNames(starModule, visited).filter(name => name !== 'default').forEach(name => names.add(name));
+    }
+    return [...names];
+  }
+
+  exportTarget(module: ModuleRecord, name: string): ExportTarget | null {
+    return this.findExport(module, name, new Set())?.target ?? null;
+  }
+
+  // ESM exports and CommonJS module.exports / exports.x assignments at the top level of a module
+  moduleExports(module: ModuleRecord): ModuleExports {
+    const cached = this.exportsCache.get(module.file);
+    if (cached) return cached;
+
+    const exports: ModuleExports = { named: new Map(), stars: [] };
+    for (const statement of module.program?.get('body') ?? []) {
+      const node = statement.node;
+      if (t.isExportDefaultDeclaration(node)) {
+        exports.named.set('default', { kind: 'value', path: statement.get('declaration') as NodePath });
+      } else if (t.isExportNamedDeclaration(node)) {
+        if (t.isVariableDeclaration(node.declaration)) {
+          for (const declarator of statement.get('declaration.declarations') as NodePath<t.VariableDeclarator>[]) {
+            if (t.isIdentifier(declarator.node.id) && declarator.node.init) {
+              exports.named.set(declarator.node.id.name, { kind: 'value', path: declarator.get('init') as NodePath });
+            }
+          }
+        } else if (node.declaration && 'id' in node.declaration && t.isIdentifier(node.declaration.id)) {
+          // Functions and classes are exported but never translation values
+          exports.named.set(node.declaration.id.name, { kind: 'value', path: statement.get('declaration') as NodePath });
+        }
+        (statement.get('specifiers') as NodePath[]).forEach(specifier => {
+          const spec = specifier.node;
+          const exportedName = (name: t.Identifier | t.StringLiteral) => t.isIdentifier(name) ? name.name : name.value;
+          if (t.isExportSpecifier(spec)) {
+            const local = spec.local.name;
+            exports.named.set(exportedName(spec.exported), node.source
+              ? { kind: 'reexport', source: node.source.value, name: local }
+              : { kind: 'value', path: specifier.get('local') as NodePath });
+          } else if (t.isExportNamespaceSpecifier(spec) && node.source) {
+            exports.named.set(exportedName(spec.exported), { kind: 'namespace', source: node.source.value });
+          }
+        });
+      } else if (t.isExportAllDeclaration(node)) {
+        exports.stars.push(node.source.value);
+      } else if (t.isExpressionStatement(node) && t.isAssignmentExpression(node.expression, { operator: '=' })) {
+        const name = commonJsExport(node.expression.left);
+        if (name !== null) exports.named.set(name, { kind: 'value', path: statement.get('expression.right') as NodePath });
+      }
+    }
+    this.exportsCache.set(module.file, exports);
+    return exports;
+  }
+}
+
+// module.exports -> "default", module.exports.x / exports.x -> "x"
+function commonJsExport(left: t.Node): string | null {
+  const isModuleExports = (node: t.Node) =>
+    t.isMemberExpression(node) && t.isIdentifier(node.object, { name: 'module' }) && t.isIdentifier(node.property, { name: 'exports' });
+  if (isModuleExports(left)) return 'default';
+  if (t.isMemberExpression(left) && !left.computed && t.isIdentifier(left.property)) {
+    if (isModuleExports(left.object) || t.isIdentifier(left.object, { name: 'exports' })) return left.property.name;
+  }
+  return null;
+}
+
+/**
+ * Evaluate the translations a locale module exports. The default export (or module.exports)
+ * wins when it is an object. Otherwise a single exported object is used as is, and several
+ * exports (`export const en = {...}; export const de = {...}`) are keyed by export name.
+ * Exported functions and classes are ignored. Returns null when nothing could be evaluated.
+ */
+export function evaluateLocaleExports(graph: ModuleGraph, options: EvaluateOptions = {}): Record<string, any> | null {
+  const evaluator = new StaticEvaluator(graph, options);
+  const entry = graph.modules.get(graph.entry)!;
+  const reference = entry.program!.node;
+
+  const defaultExport = evaluator.exportTarget(entry, 'default');
+  if (defaultExport) {
+    const value = evaluator.exportValue(entry, defaultExport, reference, []);
+    if (isPlainObject(value)) return value;
+  }
+
+  const result: Record<string, any> = {};
+  for (const name of evaluator.exportNames(entry, new Set())) {
+    if (name === 'default') continue;
+    const target = evaluator.exportTarget(entry, name);
+    if (!target || (target.kind === 'value' && (target.path.isFunction() || target.path.isClass()))) continue;
+    const reported = evaluator.unresolved.length;
+    const value = evaluator.exportValue(entry, target, reference, [name]);
+    if (isPlainObject(value) || typeof value === 'string') result[name] = value;
+    else evaluator.unresolved.length = reported; // Not a translation export, so its gaps don't matter
+  }
+
+  const names = Object.keys(result);
+  if (names.length === 0) return null;
+  if (names.length > 1 || !isPlainObject(result[names[0]])) return result;
+
+  // A single exported object is the locale itself, so its name drops out of the reported keys
+  const prefix = `${names[0]}.`;
+  for (const key of Object.keys(evaluator.placeholders)) {
+    if (!key.startsWith(prefix)) continue;
+    evaluator.placeholders[key.slice(prefix.length)] = evaluator.placeholders[key];
+    delete evaluator.placeholders[key];
+  }
+  for (const unresolved of evaluator.unresolved) {
+    if (unresolved.key.startsWith(prefix)) unresolved.key = unresolved.key.slice(prefix.length);
+  }
+  for (const key of Object.keys(evaluator.locations)) {
+    if (!key.startsWith(prefix)) continue;
+    evaluator.locations[key.slice(prefix.length)] = evaluator.locations[key];
+    delete evaluator.locations[key];
+  }
+  return result[names[0]];
+}
@@ -0,0 +1,39 @@
+import { randomBytes } from 'crypto';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+// Write through a temp file in the same directory and rename it over the target,
+// so readers never see a half-written file and a crash leaves the original intact
+export async function writeFileAtomic(filePath: string, content: string): Promise<void> {
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  const tempPath = path.join(path.dirname(filePath), `.${path.basename(filePath)}.${randomBytes(4).toString('hex')}.tmp`);
+  try {
+    await fs.writeFile(tempPath, content, 'utf-8');
+    await fs.rename(tempPath, filePath);
+  } catch (error) {
+    await fs.rm(tempPath, { force: true });
+    throw error;
+  }
+}
+
+// File content, or null when the file does not exist
+export async function readFileIfExists(filePath: string): Promise<string | null> {
+  try {
+    return await fs.readFile(filePath, 'utf-8');
+  } catch (error: unknown) {
+    if ((error as { code?: string }).code === 'ENOENT') return null;
+    throw error;
+  }
+}
+
+// Nearest ancestor directory that looks like a project root (.mcp-i18n, package.json or .git), else the start directory
+export async function findProjectRoot(startPath: string): Promise<string> {
+  const start = path.resolve(startPath);
+  const startDir = (await fs.stat(start).catch(() => null))?.isDirectory() ? start : path.dirname(start);
+  for (let dir = startDir; ; dir = path.dirname(dir)) {
+    for (const marker of ['.mcp-i18n', 'package.json', '.git']) {
+      if (await fs.stat(path.join(dir, marker)).catch(() => null)) return dir;
+    }
+    if (path.dirname(dir) === dir) return startDir;
+  }
+}
@@ -0,0 +1,78 @@
+import { escapeXml, renamedEntries, spliceEntries, stringEntries, xmlAttribute, xmlElementText } from './common.js';
+import type { FileEntry } from './common.js';
+import type { LocaleSerializer } from './types.js';
+
+// Android resource strings need apostrophes, quotes and leading @/? escaped on top of XML escaping
+function escapeAndroid(text: string): string {
+  return escapeXml(
+    text
+      .replace(/\\/g, '\\\\')
+      .replace(/'/g, "\\'")
+      .replace(/"/g, '\\"')
+      .replace(/\n/g, '\\n')
+      .replace(/\t/g, '\\t')
+      .replace(/^([@?])/, '\\$1')
+  );
+}
+
+function unescapeAndroid(text: string): string {
+  // Text wrapped in double quotes keeps its whitespace and apostrophes verbatim
+  const unquoted = /^"([\s\S]*)"$/.test(text) ? text.slice(1, -1) : text.replace(/\s+/g, ' ').trim();
+  return unquoted.replace(/\\(.)/g, (_, char) => char === 'n' ? '\n' : char === 't' ? '\t' : char);
+}
+
+// The <string> elements of a resources file; plurals, string arrays and comments are left to the file
+function androidStrings(content: string): (FileEntry & { element: string; value: string })[] {
+  const strings: (FileEntry & { element: string; value: string })[] = [];
+  for (const match of content.matchAll(/<string(\s[^>]*?)?(?:\/>|>[\s\S]*?<\/string>)/g)) {
+    const [element, attributes = ''] = match;
+    const key = xmlAttribute(attributes, 'name');
+    if (key === null) continue;
+    strings.push({ key, start: match.index!, end: match.index! + element.length, element, value: unescapeAndroid(xmlElementText(element, 'string') ?? '') });
+  }
+  return strings;
+}
+
+function stringElement(key: string, value: string): string {
+  return `<string name="${escapeXml(key)}">${escapeAndroid(value)}</string>`;
+}
+
+/**
+ * Android res/values/strings.xml. Over an existing file only <string> elements change, keeping their
+ * other attributes (translatable, formatted); comments, <plurals> and <string-array> stay as written.
+ */
+export const androidFormat: LocaleSerializer = {
+  name: 'android',
+  extensions: ['.xml'],
+  mimeType: 'application/xml',
+  flat: true,
+  serialize: (data, options) => {
+    const previous = options.previous ?? '';
+    const closing = previous.search(/\n?[ \t]*<\/resources>/);
+    const entries = stringEntries(data);
+    if (closing === -1) {
+      return [
+        '<?xml version="1.0" encoding="utf-8"?>',
+        '<resources>',
+        ...entries.map(([key, value]) => `    ${stringElement(key, value)}`),
+        '</resources>',
+        '',
+      ].join('\n');
+    }
+
+    const strings = renamedEntries(androidStrings(previous), options.renamed);
+    const prologue = previous.slice(0, strings.length > 0 ? strings[0].start : closing);
+    const indent = strings.length > 0 ? /[ \t]*$/.exec(prologue)![0] : `${/\n([ \t]*)[^\n]*$/.exec(prologue)?.[1] ?? ''}    `;
+    const values = new Map(entries);
+    return spliceEntries(previous, strings, entries.map(([key]) => key), (key, string) => {
+      const value = values.get(key)!;
+      if (!string) return stringElement(key, value);
+      const element = options.renamed?.[key] !== undefined
+        ? string.element.replace(/^(<string\b[^>]*?\sname\s*=\s*)(?:"[^"]*"|'[^']*')/, (_, tag: string) => `${tag}"${escapeXml(key)}"`)
+        : string.element;
+      if (string.value === value) return element;
+      return element.replace(/^(<string\b[^>]*?)\s*(?:\/>|>[\s\S]*<\/string>)$/, (_, tag: string) => `${tag}>${escapeAndroid(value)}</string>`);
+    }, strings.length > 0 ? Math.max(prologue.lastIndexOf('\n'), 0) : closing, indent);
+  },
+  deserialize: content => Object.fromEntries(androidStrings(content).map(string => [string.key, string.value])),
+};
@@ -0,0 +1,64 @@
+import { stringEntries } from './common.js';
+import type { LocaleSerializer } from './types.js';
+
+// ARB keys must be Dart identifiers: "Home.title" -> "homeTitle"
+function toIdentifier(key: string): string {
+  const words = key.split(/[^A-Za-z0-9]+/).filter(Boolean);
+  const identifier = words
+    .map((word, index) => index === 0 ? word.charAt(0).toLowerCase() + word.slice(1) : word.charAt(0).toUpperCase() + word.slice(1))
+    .join('');
+  if (!identifier) return 'key';
+  return /^[0-9]/.test(identifier) ? `key${identifier}` : identifier;
+}
+
+// Identifier of every key an ARB file already has, by key
+function arbIdentifiers(arb: Record<string, any>): Map<string, string> {
+  const identifiers = new Map<string, string>();
+  for (const identifier of Object.keys(arb)) {
+    if (identifier.startsWith('@')) continue;
+    const metadata = arb[`@${identifier}`];
+    identifiers.set(typeof metadata?.['x-key'] === 'string' ? metadata['x-key'] : identifier, identifier);
+  }
+  return identifiers;
+}
+
+/**
+ * Flutter Application Resource Bundle; the original key is kept in "x-key" metadata when it had to be renamed.
+ * Over an existing file, keys keep their identifiers and @key metadata (descriptions, placeholders) and
+ * the file keeps its global @@ attributes; a renamed key takes its metadata to its new identifier.
+ */
+export const arbFormat: LocaleSerializer = {
+  name: 'arb',
+  extensions: ['.arb'],
+  mimeType: 'application/json',
+  flat: true,
+  serialize: (data, options) => {
+    const previous: Record<string, any> = options.previous ? JSON.parse(options.previous) : {};
+    const identifiers = arbIdentifiers(previous);
+    const result: Record<string, any> = { '@@locale': options.locale };
+    for (const [attribute, value] of Object.entries(previous)) {
+      if (attribute.startsWith('@@') && attribute !== '@@locale') result[attribute] = value;
+    }
+    for (const [key, value] of stringEntries(data)) {
+      let identifier = identifiers.get(key);
+      if (identifier === undefined || identifier in result) {
+        identifier = toIdentifier(key);
+        for (let suffix = 2; identifier in result; suffix++) identifier = `${toIdentifier(key)}${suffix}`;
+      }
+      result[identifier] = value;
+      const metadata = identifiers.get(key) === identifier ? previous[`@${identifier}`] : undefined;
+      // A renamed key gets a new identifier, its description and placeholders come along
+      const renamedFrom = options.renamed?.[key] !== undefined ? identifiers.get(options.renamed[key]) : undefined;
+      const { 'x-key': _, ...carried } = renamedFrom !== undefined ? previous[`@${renamedFrom}`] ?? {} : {};
+      if (metadata !== undefined) result[`@${identifier}`] = metadata;
+      else if (identifier !== key || Object.keys(carried).length > 0) result[`@${identifier}`] = { ...carried, ...identifier !== key ? { 'x-key': key } : {} };
+    }
+    return JSON.stringify(result, null, options.indent ?? 2);
+  },
+  deserialize: content => {
+    const arb = JSON.parse(content);
+    const result: Record<string, any> = {};
+    for (const [key, identifier] of arbIdentifiers(arb)) result[key] = arb[identifier];
+    return result;
+  },
+};
@@ -0,0 +1,104 @@
+// String entries of an already flattened catalog; null becomes '', empty objects/arrays are dropped
+export function stringEntries(data: Record<string, any>): [string, string][] {
+  return Object.entries(data)
+    .filter(([, value]) => value === null || typeof value !== 'object')
+    .map(([key, value]) => [key, value === null || value === undefined ? '' : String(value)]);
+}
+
+export function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+export function unescapeXml(text: string): string {
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec) => String.fromCodePoint(parseInt(dec, 10)))
+    .replace(/&amp;/g, '&');
+}
+
+// Read an XML attribute from an opening tag's attribute string
+export function xmlAttribute(attributes: string, name: string): string | null {
+  const match = new RegExp(`(?:^|\\s)${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)')`).exec(attributes);
+  return match ? unescapeXml(match[1] ?? match[2]) : null;
+}
+
+// Text content of the first <tag> element in a fragment, CDATA sections included
+export function xmlElementText(fragment: string, tag: string): string | null {
+  const match = new RegExp(`<${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</${tag}>|<${tag}(?:\\s[^>]*)?/>`).exec(fragment);
+  if (!match) return null;
+  return (match[1] ?? '')
+    .split(/(<!\[CDATA\[[\s\S]*?\]\]>)/)
+    .map(part => part.startsWith('<![CDATA[') ? part.slice(9, -3) : unescapeXml(part))
+    .join('');
+}
+
+// An entry of a file being rewritten in place and the range of content it takes up
+export interface FileEntry {
+  key: string;
+  start: number;
+  end: number;
+}
+
+/**
+ * Rewrite the entries of an existing file one by one, so everything around them (comments, groups,
+ * other elements) stays as written. `keys` is the new catalog in order and `write` gives the text of a
+ * key, from its current entry when the file has one. Entries whose key left the catalog are cut out
+ * with the line break before them; new keys go on their own line after the entry of the key before
+ * them, or at `insertAt` when no key before them is in the file.
+ */
+export function spliceEntries<T extends FileEntry>(
+  content: string,
+  entries: T[],
+  keys: string[],
+  write: (key: string, entry: T | undefined) => string,
+  insertAt: number,
+  indent: string
+): string {
+  const byKey = new Map<string, T>();
+  for (const entry of entries) if (!byKey.has(entry.key)) byKey.set(entry.key, entry);
+  const added = new Map<T | null, string[]>();
+  let anchor: T | null = null;
+  for (const key of keys) {
+    const entry = byKey.get(key);
+    if (entry) anchor = entry;
+    else added.set(anchor, [...added.get(anchor) ?? [], write(key, undefined)]);
+  }
+
+  const lines = (texts: string[] = []) => texts.map(text => `\n${indent}${text}`).join('');
+  const kept = new Set(keys);
+  // At the very start of the file there is no line to follow, so new lines end with the break instead
+  let result = insertAt === 0
+    ? (added.get(null) ?? []).map(text => `${text}\n`).join('')
+    : `${content.slice(0, insertAt)}${lines(added.get(null))}`;
+  let cursor = insertAt;
+  let orphanBreak = false; // An entry on the first line was cut out, so the break after it goes too
+  for (const entry of entries) {
+    let gap = content.slice(cursor, entry.start);
+    if (orphanBreak) gap = gap.replace(/^\r?\n/, '');
+    orphanBreak = false;
+    if (kept.has(entry.key) && byKey.get(entry.key) === entry) {
+      result += `${gap}${write(entry.key, entry)}${lines(added.get(entry))}`;
+    } else {
+      const trimmed = gap.replace(/\r?\n[ \t]*$/, '');
+      result += trimmed;
+      orphanBreak = trimmed === gap && result === '';
+    }
+    cursor = entry.end;
+  }
+  if (orphanBreak) cursor += /^\r?\n/.exec(content.slice(cursor))?.[0].length ?? 0;
+  return `${result}${content.slice(cursor)}`;
+}
+
+// Entries of a file under the keys they were renamed to (FormatOptions.renamed)
+export function renamedEntries<T extends FileEntry>(entries: T[], renamed: Record<string, string> = {}): T[] {
+  const newKeys = new Map(Object.entries(renamed).map(([to, from]) => [from, to]));
+  return entries.map(entry => newKeys.has(entry.key) ? { ...entry, key: newKeys.get(entry.key)! } : entry);
+}
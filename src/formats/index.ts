@@ -0,0 +1,38 @@
+import * as path from 'path';
+import { androidFormat } from './android.js';
+import { arbFormat } from './arb.js';
+import { jsonFormat } from './json.js';
+import { poFormat, potFormat } from './po.js';
+import { stringsFormat } from './strings.js';
+import type { LocaleFormat, LocaleSerializer } from './types.js';
+import { xliff2Format, xliffFormat } from './xliff.js';
+import { yamlFormat } from './yaml.js';
+
+export type { FormatOptions, LocaleFormat, LocaleSerializer } from './types.js';
+
+export const FORMATS: Record<LocaleFormat, LocaleSerializer> = {
+  json: jsonFormat,
+  yaml: yamlFormat,
+  po: poFormat,
+  pot: potFormat,
+  xliff: xliffFormat,
+  xliff2: xliff2Format,
+  arb: arbFormat,
+  strings: stringsFormat,
+  android: androidFormat,
+};
+
+export const FORMAT_NAMES = Object.keys(FORMATS) as LocaleFormat[];
+
+// Extensions of every supported locale file format
+export const LOCALE_EXTENSIONS = [...new Set(FORMAT_NAMES.flatMap(name => FORMATS[name].extensions))];
+
+// Pick the serializer from an explicit format, else from the file extension (JSON when unknown)
+export function resolveFormat(filePath: string, format?: LocaleFormat): LocaleSerializer {
+  if (format) {
+    if (!FORMATS[format]) throw new Error(`Unsupported format "${format}". Expected one of: ${FORMAT_NAMES.join(', ')}`);
+    return FORMATS[format];
+  }
+  const extension = path.extname(filePath).toLowerCase();
+  return FORMAT_NAMES.map(name => FORMATS[name]).find(serializer => serializer.extensions.includes(extension)) || jsonFormat;
+}
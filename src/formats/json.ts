@@ -0,0 +1,10 @@
+import type { LocaleSerializer } from './types.js';
+
+export const jsonFormat: LocaleSerializer = {
+  name: 'json',
+  extensions: ['.json'],
+  mimeType: 'application/json',
+  flat: false,
+  serialize: (data, options) => JSON.stringify(data, null, options.indent ?? 2),
+  deserialize: content => JSON.parse(content),
+};
@@ -0,0 +1,173 @@
+import { stringEntries } from './common.js';
+import type { FormatOptions, LocaleSerializer } from './types.js';
+
+function escapePo(text: string): string {
+  return text
+    .replace(/\\/g, '\\\\')
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, '\\n')
+    .replace(/\t/g, '\\t');
+}
+
+function unescapePo(text: string): string {
+  return text.replace(/\\(.)/g, (_, char) => char === 'n' ? '\n' : char === 't' ? '\t' : char);
+}
+
+// The first key segment becomes the msgctxt: "Home.title" -> msgctxt "Home", msgid "title"
+function splitContext(key: string, options: FormatOptions): [string | null, string] {
+  if (options.context === false) return [null, key];
+  const separator = options.keySeparator || '.';
+  const index = key.indexOf(separator);
+  return index > 0 ? [key.slice(0, index), key.slice(index + separator.length)] : [null, key];
+}
+
+// One catalog entry: its comment and keyword lines as written, and the line range of each keyword
+interface PoEntry {
+  lines: string[];
+  fields: Record<string, string>; // msgctxt, msgid, msgid_plural, msgstr, msgstr[n], unescaped
+  ranges: Record<string, [number, number]>;
+}
+
+function poEntries(content: string): PoEntry[] {
+  const entries: PoEntry[] = [];
+  let entry: PoEntry = { lines: [], fields: {}, ranges: {} };
+  let current: string | null = null;
+
+  const flush = () => {
+    if (entry.lines.length > 0) entries.push(entry);
+    entry = { lines: [], fields: {}, ranges: {} };
+    current = null;
+  };
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (line === '') {
+      flush();
+      continue;
+    }
+    // Comments and a new msgctxt/msgid after a msgstr start the next entry even without a blank line
+    const complete = Object.keys(entry.fields).some(field => field.startsWith('msgstr'));
+    const keyword = /^(msgctxt|msgid_plural|msgid|msgstr(?:\[\d+\])?)\s+"(.*)"$/.exec(line);
+    const continuation = /^"(.*)"$/.exec(line);
+    if (complete && (line.startsWith('#') || keyword?.[1] === 'msgctxt' || keyword?.[1] === 'msgid')) flush();
+    if (line.startsWith('#')) {
+      // Comments (including obsolete #~ entries) carry no values
+      current = null;
+    } else if (keyword) {
+      current = keyword[1];
+      entry.fields[current] = unescapePo(keyword[2]);
+      entry.ranges[current] = [entry.lines.length, entry.lines.length + 1];
+    } else if (continuation && current) {
+      entry.fields[current] += unescapePo(continuation[1]);
+      entry.ranges[current][1] = entry.lines.length + 1;
+    }
+    entry.lines.push(rawLine);
+  }
+  flush();
+  return entries;
+}
+
+// Key of an entry, null for the header and for comment-only (e.g. obsolete) entries
+function entryKey(entry: PoEntry, separator = '.'): string | null {
+  const { msgctxt, msgid } = entry.fields;
+  if (!msgid) return null;
+  return msgctxt !== undefined ? `${msgctxt}${separator}${msgid}` : msgid;
+}
+
+// The singular translation: msgstr, or msgstr[0] of a plural entry
+function entryValue(entry: PoEntry): string {
+  return entry.fields.msgstr ?? entry.fields['msgstr[0]'] ?? '';
+}
+
+// Lines of an entry the file already has, with a new value. Comments, flags, references and other
+// plural forms are kept; a template's value is its extracted (#.) comment
+function updateEntry(entry: PoEntry, value: string, template: boolean): string[] {
+  if (template) {
+    const extracted = entry.lines.filter(line => line.startsWith('#.')).map(line => line.replace(/^#\. ?/, '')).join('\n');
+    if (!value || extracted === value) return entry.lines;
+    const first = entry.lines.findIndex(line => line.startsWith('#.') || !line.startsWith('# '));
+    const lines = entry.lines.filter(line => !line.startsWith('#.'));
+    lines.splice(first, 0, ...value.split('\n').map(line => `#. ${line}`));
+    return lines;
+  }
+  if (entryValue(entry) === value) return entry.lines;
+  const field = 'msgstr' in entry.fields ? 'msgstr' : 'msgstr[0]' in entry.fields ? 'msgstr[0]' : null;
+  if (field === null) return [...entry.lines, `msgstr "${escapePo(value)}"`];
+  const [start, end] = entry.ranges[field];
+  return [...entry.lines.slice(0, start), `${field} "${escapePo(value)}"`, ...entry.lines.slice(end)];
+}
+
+// An entry under a new key: only msgctxt and msgid change, comments, flags and translations stay
+function rekeyEntry(entry: PoEntry, key: string, options: FormatOptions): PoEntry {
+  const [context, id] = splitContext(key, options);
+  const lines = [...entry.lines];
+  const [idStart, idEnd] = entry.ranges.msgid;
+  lines.splice(idStart, idEnd - idStart, `msgid "${escapePo(id)}"`);
+  // msgctxt comes before msgid, so its range is still where it was
+  const [contextStart, contextEnd] = entry.ranges.msgctxt ?? [idStart, idStart];
+  lines.splice(contextStart, contextEnd - contextStart, ...context !== null ? [`msgctxt "${escapePo(context)}"`] : []);
+  return poEntries(lines.join('\n'))[0];
+}
+
+/**
+ * Write a flat catalog as a PO file. Over an existing file, the header, obsolete entries and every
+ * entry still in the catalog are kept as written: translator and extracted comments, flags,
+ * references and plural forms survive, a changed value only replaces msgstr (msgstr[0]) and a
+ * renamed key only msgctxt and msgid.
+ */
+function serializePo(data: Record<string, any>, options: FormatOptions, template: boolean): string {
+  const previous = poEntries(options.previous ?? '');
+  const previousHeader = previous.find(entry => entry.fields.msgid === '' && entry.fields.msgctxt === undefined);
+  const header = previousHeader?.lines ?? [
+    'msgid ""',
+    'msgstr ""',
+    '"Content-Type: text/plain; charset=UTF-8\\n"',
+    ...(template ? [] : [`"Language: ${escapePo(options.locale)}\\n"`]),
+  ];
+  const separator = options.keySeparator || '.';
+  const byKey = new Map(previous.map(entry => [entryKey(entry, separator), entry]));
+  const entries = stringEntries(data).map(([key, value]) => {
+    const renamedFrom = options.renamed?.[key];
+    const existing = byKey.get(key) ?? (renamedFrom !== undefined ? byKey.get(renamedFrom) : undefined);
+    if (existing) return updateEntry(entryKey(existing, separator) !== key ? rekeyEntry(existing, key, options) : existing, value, template).join('\n');
+    const [context, id] = splitContext(key, options);
+    return [
+      // Templates carry the source text as an extracted comment, msgstr stays empty for translators
+      ...(template && value ? value.split('\n').map(line => `#. ${line}`) : []),
+      ...(context !== null ? [`msgctxt "${escapePo(context)}"`] : []),
+      `msgid "${escapePo(id)}"`,
+      `msgstr "${template ? '' : escapePo(value)}"`,
+    ].join('\n');
+  });
+  const obsolete = previous.filter(entry => entry !== previousHeader && entryKey(entry) === null).map(entry => entry.lines.join('\n'));
+  return `${[header.join('\n'), ...entries, ...obsolete].join('\n\n')}\n`;
+}
+
+function deserializePo(content: string, options: Pick<FormatOptions, 'keySeparator'> = {}): Record<string, any> {
+  const result: Record<string, any> = {};
+  for (const entry of poEntries(content)) {
+    const key = entryKey(entry, options.keySeparator || '.');
+    if (key !== null) result[key] = entryValue(entry);
+  }
+  return result;
+}
+
+// gettext catalog with msgctxt taken from the namespace, in files that hold several
+export const poFormat: LocaleSerializer = {
+  name: 'po',
+  extensions: ['.po'],
+  mimeType: 'text/x-gettext-translation',
+  flat: true,
+  serialize: (data, options) => serializePo(data, options, false),
+  deserialize: deserializePo,
+};
+
+// gettext template: same layout, empty translations
+export const potFormat: LocaleSerializer = {
+  name: 'pot',
+  extensions: ['.pot'],
+  mimeType: 'text/x-gettext-translation-template',
+  flat: true,
+  serialize: (data, options) => serializePo(data, options, true),
+  deserialize: deserializePo,
+};
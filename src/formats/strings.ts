@@ -0,0 +1,60 @@
+import { renamedEntries, spliceEntries, stringEntries } from './common.js';
+import type { FileEntry } from './common.js';
+import type { LocaleSerializer } from './types.js';
+
+function escapeStrings(text: string): string {
+  return text
+    .replace(/\\/g, '\\\\')
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, '\\n')
+    .replace(/\t/g, '\\t');
+}
+
+function unescapeStrings(text: string): string {
+  return text.replace(/\\(U[0-9a-fA-F]{4}|u[0-9a-fA-F]{4}|.)/g, (_, sequence: string) => {
+    if (sequence.length === 5) return String.fromCharCode(parseInt(sequence.slice(1), 16));
+    return sequence === 'n' ? '\n' : sequence === 't' ? '\t' : sequence === 'r' ? '\r' : sequence;
+  });
+}
+
+// The "key" = "value"; pairs of a file. Comments are matched (and skipped) first so quotes inside them are not taken for entries
+function stringsEntries(content: string): (FileEntry & { value: string })[] {
+  const entries: (FileEntry & { value: string })[] = [];
+  const pattern = /\/\*[\s\S]*?\*\/|\/\/[^\n]*|"((?:[^"\\]|\\.)*)"\s*=\s*"((?:[^"\\]|\\.)*)"\s*;/g;
+  for (const match of content.matchAll(pattern)) {
+    const [text, key, value] = match;
+    if (key !== undefined) entries.push({ key: unescapeStrings(key), start: match.index!, end: match.index! + text.length, value: unescapeStrings(value) });
+  }
+  return entries;
+}
+
+function stringsLine(key: string, value: string): string {
+  return `"${escapeStrings(key)}" = "${escapeStrings(value)}";`;
+}
+
+// Apple Localizable.strings: "key" = "value"; Over an existing file only the pairs change, comments stay
+export const stringsFormat: LocaleSerializer = {
+  name: 'strings',
+  extensions: ['.strings'],
+  mimeType: 'text/plain',
+  flat: true,
+  serialize: (data, options) => {
+    const previous = options.previous ?? '';
+    const pairs = renamedEntries(stringsEntries(previous), options.renamed);
+    const entries = stringEntries(data);
+    if (pairs.length === 0) {
+      const lines = entries.map(([key, value]) => `${stringsLine(key, value)}\n`).join('');
+      return previous === '' || previous.endsWith('\n') ? `${previous}${lines}` : `${previous}\n${lines}`;
+    }
+
+    const indent = /[ \t]*$/.exec(previous.slice(0, pairs[0].start))![0];
+    const values = new Map(entries);
+    return spliceEntries(previous, pairs, entries.map(([key]) => key), (key, pair) => {
+      const value = values.get(key)!;
+      return pair && pair.value === value && options.renamed?.[key] === undefined
+        ? previous.slice(pair.start, pair.end)
+        : stringsLine(key, value);
+    }, Math.max(previous.lastIndexOf('\n', pairs[0].start), 0), indent);
+  },
+  deserialize: content => Object.fromEntries(stringsEntries(content).map(entry => [entry.key, entry.value])),
+};
@@ -0,0 +1,20 @@
+// Locale file formats the extractor can write and read back
+export type LocaleFormat = 'json' | 'yaml' | 'po' | 'pot' | 'xliff' | 'xliff2' | 'arb' | 'strings' | 'android';
+
+export interface FormatOptions {
+  locale: string; // Language of the values being written, e.g. "en"
+  indent?: string; // Indentation of nested lines when the format allows a choice (default: two spaces)
+  previous?: string | null; // Content of the file being rewritten; its keys keep what the format stores beside their values
+  renamed?: Record<string, string>; // Keys of a flat catalog renamed since the previous content (new key -> old key); their entries move with them
+  keySeparator?: string; // Joins key segments a format stores apart, such as msgctxt and msgid in PO (default: ".")
+  context?: boolean; // PO: the first key segment is a namespace and goes into msgctxt (default: true); off for a single namespace's file
+}
+
+export interface LocaleSerializer {
+  name: LocaleFormat;
+  extensions: string[]; // First one is used when a file name has to be generated
+  mimeType: string;
+  flat: boolean; // Stores flat key/value pairs only, nested data is flattened to dotted keys
+  serialize(data: Record<string, any>, options: FormatOptions): string;
+  deserialize(content: string, options?: Pick<FormatOptions, 'keySeparator'>): Record<string, any>;
+}
@@ -0,0 +1,146 @@
+import { escapeXml, renamedEntries, spliceEntries, stringEntries, xmlAttribute, xmlElementText } from './common.js';
+import type { FileEntry } from './common.js';
+import type { FormatOptions, LocaleSerializer } from './types.js';
+
+type XliffVersion = '1.2' | '2.0';
+
+// A <trans-unit> (1.2) or <unit> (2.0) element and where it is in the file
+interface XliffUnit extends FileEntry {
+  element: string;
+  value: string; // The target when the unit has one, else the source
+  translated: boolean;
+}
+
+// Reads both XLIFF 1.2 <trans-unit> and XLIFF 2.0 <unit> elements, preferring translated targets
+function xliffUnits(content: string): XliffUnit[] {
+  const units: XliffUnit[] = [];
+  const unitPattern = /<(trans-unit|unit)\b([^>]*)>([\s\S]*?)<\/\1>/g;
+  for (const match of content.matchAll(unitPattern)) {
+    const [element, , attributes, body] = match;
+    const key = xmlAttribute(attributes, 'name') ?? xmlAttribute(attributes, 'resname') ?? xmlAttribute(attributes, 'id');
+    if (key === null) continue;
+    const target = xmlElementText(body, 'target');
+    units.push({
+      key,
+      start: match.index!,
+      end: match.index! + element.length,
+      element,
+      value: target ?? xmlElementText(body, 'source') ?? '',
+      translated: target !== null,
+    });
+  }
+  return units;
+}
+
+function deserializeXliff(content: string): Record<string, any> {
+  return Object.fromEntries(xliffUnits(content).map(unit => [unit.key, unit.value]));
+}
+
+// Lines of a new unit, relative to its own indentation
+function unitLines(version: XliffVersion, key: string, value: string, index: number, translated: boolean): string[] {
+  const text = escapeXml(value);
+  if (version === '1.2') {
+    return [
+      `<trans-unit id="${escapeXml(key)}">`,
+      `  <source>${text}</source>`,
+      ...(translated ? [`  <target>${text}</target>`] : []),
+      '</trans-unit>',
+    ];
+  }
+  // Unit ids must be NMTOKENs in XLIFF 2.0, so the key itself goes into the name attribute
+  return [
+    `<unit id="${/^[\w.:-]+$/.test(key) ? escapeXml(key) : `u${index + 1}`}" name="${escapeXml(key)}">`,
+    '  <segment>',
+    `    <source>${text}</source>`,
+    ...(translated ? [`    <target>${text}</target>`] : []),
+    '  </segment>',
+    '</unit>',
+  ];
+}
+
+// Change the value of a unit the file already has. Only the target (or, in a file without
+// translations, the source) changes; ids, notes, states and the source text stay as they were
+function updateUnit(element: string, value: string, translated: boolean): string {
+  const text = escapeXml(value);
+  const target = /<target\b([^>]*?)(?:\/>|>[\s\S]*?<\/target>)/;
+  if (target.test(element)) return element.replace(target, (_, attributes: string) => `<target${attributes}>${text}</target>`);
+  if (translated) {
+    return element.replace(/(\n[ \t]*)?(<source\b[^>]*?(?:\/>|>[\s\S]*?<\/source>))/, (_, indent: string | undefined, source: string) =>
+      `${indent ?? ''}${source}${indent ?? ''}<target>${text}</target>`);
+  }
+  return element.replace(/<source\b([^>]*?)(?:\/>|>[\s\S]*?<\/source>)/, (_, attributes: string) => `<source${attributes}>${text}</source>`);
+}
+
+// Give a unit a new key in the attribute it took its key from
+function renameUnit(element: string, key: string, version: XliffVersion): string {
+  return element.replace(/^<(?:trans-unit|unit)\b([^>]*)>/, (tag, attributes: string) => {
+    const attribute = ['name', 'resname', 'id'].find(name => xmlAttribute(attributes, name) !== null)!;
+    if (attribute === 'id' && version === '2.0' && !/^[\w.:-]+$/.test(key)) return tag.replace(/>$/, ` name="${escapeXml(key)}">`);
+    return tag.replace(new RegExp(`(\\s${attribute}\\s*=\\s*)(?:"[^"]*"|'[^']*')`), (_, name: string) => `${name}"${escapeXml(key)}"`);
+  });
+}
+
+/**
+ * Write a flat catalog as XLIFF. Over an existing file only the units change: the file header,
+ * groups and comments stay as they are, and so does every unit still in the catalog, so a vendor's
+ * translated file keeps its source text, target language and notes. A changed value only replaces
+ * the unit's target, and a renamed key only the unit's key attribute. New units of a translated file
+ * get the value as both source and target.
+ */
+function serializeXliff(data: Record<string, any>, options: FormatOptions, version: XliffVersion): string {
+  const previous = options.previous ?? '';
+  const units = renamedEntries(xliffUnits(previous), options.renamed);
+  const closing = previous.search(version === '1.2' ? /\n?[ \t]*<\/body>/ : /\n?[ \t]*<\/file>/);
+  const entries = stringEntries(data);
+
+  if (units.length === 0 && closing === -1) {
+    const header = version === '1.2'
+      ? [
+          '<?xml version="1.0" encoding="UTF-8"?>',
+          '<xliff version="1.2" xmlns="urn:oasis:names:tc:xliff:document:1.2">',
+          `  <file source-language="${escapeXml(options.locale)}" datatype="plaintext" original="messages">`,
+          '    <body>',
+        ]
+      : [
+          '<?xml version="1.0" encoding="UTF-8"?>',
+          `<xliff xmlns="urn:oasis:names:tc:xliff:document:2.0" version="2.0" srcLang="${escapeXml(options.locale)}">`,
+          '  <file id="messages">',
+        ];
+    const indent = version === '1.2' ? '      ' : '    ';
+    const footer = version === '1.2' ? ['    </body>', '  </file>', '</xliff>', ''] : ['  </file>', '</xliff>', ''];
+    const body = entries.flatMap(([key, value], index) => unitLines(version, key, value, index, false).map(line => `${indent}${line}`));
+    return [...header, ...body, ...footer].join('\n');
+  }
+
+  const prologue = previous.slice(0, units.length > 0 ? units[0].start : closing);
+  const indent = units.length > 0 ? /[ \t]*$/.exec(prologue)![0] : `${/\n([ \t]*)[^\n]*$/.exec(prologue)?.[1] ?? ''}  `;
+  const translated = /\s(?:target-language|trgLang)\s*=/.test(prologue) || units.some(unit => unit.translated);
+  // New units go after the line before the first unit, or before the closing tag of a file without units
+  const insertAt = units.length > 0 ? Math.max(prologue.lastIndexOf('\n'), 0) : closing;
+  const values = new Map(entries);
+  const positions = new Map(entries.map(([key], index) => [key, index]));
+  return spliceEntries(previous, units, entries.map(([key]) => key), (key, unit) => {
+    const value = values.get(key)!;
+    if (!unit) return unitLines(version, key, value, positions.get(key)!, translated).join(`\n${indent}`);
+    const element = options.renamed?.[key] !== undefined ? renameUnit(unit.element, key, version) : unit.element;
+    return unit.value === value ? element : updateUnit(element, value, translated);
+  }, insertAt, indent);
+}
+
+export const xliffFormat: LocaleSerializer = {
+  name: 'xliff',
+  extensions: ['.xlf', '.xliff'],
+  mimeType: 'application/xliff+xml',
+  flat: true,
+  serialize: (data, options) => serializeXliff(data, options, '1.2'),
+  deserialize: deserializeXliff,
+};
+
+export const xliff2Format: LocaleSerializer = {
+  name: 'xliff2',
+  extensions: ['.xlf', '.xliff'],
+  mimeType: 'application/xliff+xml',
+  flat: true,
+  serialize: (data, options) => serializeXliff(data, options, '2.0'),
+  deserialize: deserializeXliff,
+};
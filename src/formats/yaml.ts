@@ -0,0 +1,42 @@
+import { isMap, isNode, isScalar, parse, parseDocument, stringify } from 'yaml';
+import type { Document, YAMLMap } from 'yaml';
+import type { LocaleSerializer } from './types.js';
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+// Bring a mapping of the previous document in line with the data. Pairs that stay keep their
+// comments, anchors and quoting; a changed scalar only changes its value
+function updateMap(document: Document, map: YAMLMap, data: Record<string, any>): void {
+  const pairs = new Map(map.items.map(pair => [String(isScalar(pair.key) ? pair.key.value : pair.key), pair]));
+  map.items = Object.entries(data).map(([key, value]) => {
+    const pair = pairs.get(key);
+    if (!pair) return document.createPair(key, value);
+    if (isMap(pair.value) && isPlainObject(value)) {
+      updateMap(document, pair.value, value);
+    } else if (isScalar(pair.value) && (value === null || typeof value !== 'object')) {
+      pair.value.value = value;
+    } else if (JSON.stringify(isNode(pair.value) ? pair.value.toJS(document) : pair.value) !== JSON.stringify(value)) {
+      pair.value = document.createNode(value);
+    }
+    return pair;
+  });
+}
+
+export const yamlFormat: LocaleSerializer = {
+  name: 'yaml',
+  extensions: ['.yaml', '.yml'],
+  mimeType: 'application/yaml',
+  flat: false,
+  serialize: (data, options) => {
+    // YAML indentation can only be spaces
+    const indent = options.indent && /^ +$/.test(options.indent) ? options.indent.length : 2;
+    // Over an existing file the document is edited rather than written anew, so its comments survive
+    const document = options.previous ? parseDocument(options.previous) : null;
+    if (!document || document.errors.length > 0 || !isMap(document.contents)) return stringify(data, { indent });
+    updateMap(document, document.contents, data);
+    return document.toString({ indent, lineWidth: 0 });
+  },
+  deserialize: content => parse(content) ?? {},
+};
@@ -0,0 +1,110 @@
+import { createHash, randomBytes } from 'crypto';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { readFileIfExists, writeFileAtomic } from './files.js';
+
+// Backups of every file a run is about to change, relative to the project root
+export const HISTORY_DIR = path.join('.mcp-i18n', 'history');
+
+export interface HistoryFile {
+  path: string; // Absolute path of the changed file
+  backup: string | null; // Backup file name inside the run directory, null when the run created the file
+  written?: string | null; // SHA-256 of the content the run left, null for no file; unset until the run completed
+}
+
+export interface HistoryRun {
+  id: string;
+  tool: string;
+  createdAt: string;
+  files: HistoryFile[];
+}
+
+const MANIFEST = 'run.json';
+
+// Sortable run ids: timestamp first, random suffix against collisions within the same millisecond
+function createRunId(): string {
+  return `${new Date().toISOString().replace(/[-:.]/g, '').replace('T', '-')}-${randomBytes(3).toString('hex')}`;
+}
+
+// Back up the current content of files before a run changes them
+export async function recordRun(projectRoot: string, tool: string, filePaths: string[]): Promise<HistoryRun> {
+  const run: HistoryRun = { id: createRunId(), tool, createdAt: new Date().toISOString(), files: [] };
+  const runDir = path.join(projectRoot, HISTORY_DIR, run.id);
+  await fs.mkdir(runDir, { recursive: true });
+
+  for (const filePath of new Set(filePaths.map(file => path.resolve(file)))) {
+    const content = await readFileIfExists(filePath);
+    const backup = content === null ? null : `${run.files.length}-${path.basename(filePath)}`;
+    if (backup !== null) await fs.writeFile(path.join(runDir, backup), content!, 'utf-8');
+    run.files.push({ path: filePath, backup });
+  }
+
+  await writeFileAtomic(path.join(runDir, MANIFEST), JSON.stringify(run, null, 2));
+  return run;
+}
+
+function contentHash(content: string | null): string | null {
+  return content === null ? null : createHash('sha256').update(content).digest('hex');
+}
+
+// Note what a run left in its files once it has written them, so restoring it can tell whether they changed since
+export async function completeRun(projectRoot: string, run: HistoryRun): Promise<void> {
+  for (const file of run.files) file.written = contentHash(await readFileIfExists(file.path));
+  await writeFileAtomic(path.join(projectRoot, HISTORY_DIR, run.id, MANIFEST), JSON.stringify(run, null, 2));
+}
+
+// Recorded runs, oldest first
+export async function listRuns(projectRoot: string): Promise<HistoryRun[]> {
+  const historyDir = path.join(projectRoot, HISTORY_DIR);
+  const entries = await fs.readdir(historyDir, { withFileTypes: true }).catch(() => []);
+  const runs: HistoryRun[] = [];
+  for (const entry of entries) {
+    if (!entry.isDirectory()) continue;
+    const manifest = await readFileIfExists(path.join(historyDir, entry.name, MANIFEST));
+    if (manifest !== null) runs.push(JSON.parse(manifest));
+  }
+  return runs.sort((a, b) => a.id.localeCompare(b.id));
+}
+
+// Forget a run without restoring its files
+export async function dropRun(projectRoot: string, runId: string): Promise<void> {
+  await fs.rm(path.join(projectRoot, HISTORY_DIR, runId), { recursive: true, force: true });
+}
+
+/**
+ * Put back the files of a run (the most recent one when no id is given) and drop it from the history.
+ * Files that no longer hold what the run wrote, because a later run or an editor changed them, would
+ * lose those changes, so the run is only restored over them with force.
+ */
+export async function restoreRun(projectRoot: string, runId?: string, force = false): Promise<HistoryRun> {
+  const runs = await listRuns(projectRoot);
+  const run = runId ? runs.find(candidate => candidate.id === runId) : runs[runs.length - 1];
+  if (!run) {
+    throw new Error(runId
+      ? `No extraction run ${runId} in ${path.join(projectRoot, HISTORY_DIR)}`
+      : `No extraction runs recorded in ${path.join(projectRoot, HISTORY_DIR)}`);
+  }
+
+  if (!force) {
+    const changed: string[] = [];
+    for (const file of run.files) {
+      if (file.written === undefined || contentHash(await readFileIfExists(file.path)) === file.written) continue;
+      const later = runs.filter(candidate => candidate.id > run.id && candidate.files.some(other => other.path === file.path));
+      changed.push(`${file.path} (${later.length > 0 ? `changed by run ${later.map(candidate => candidate.id).join(', ')}` : 'edited since'})`);
+    }
+    if (changed.length > 0) {
+      throw new Error(`Files changed after run ${run.id}; restoring it would discard those changes: ${changed.join('; ')}. Undo the later runs first, or pass force to restore anyway`);
+    }
+  }
+
+  const runDir = path.join(projectRoot, HISTORY_DIR, run.id);
+  for (const file of run.files) {
+    if (file.backup === null) {
+      await fs.rm(file.path, { force: true });
+    } else {
+      await writeFileAtomic(file.path, await fs.readFile(path.join(runDir, file.backup), 'utf-8'));
+    }
+  }
+  await fs.rm(runDir, { recursive: true, force: true });
+  return run;
+}
@@ -0,0 +1,215 @@
+// Parser for ICU MessageFormat messages: "Hello {name}", "{count, plural, one {# item} other {# items}}"
+export type IcuNode =
+  | { type: 'text'; value: string }
+  | { type: 'pound' } // "#" inside a plural branch
+  | { type: 'argument'; name: string; format?: string; style?: string }
+  | { type: 'plural' | 'selectordinal' | 'select'; name: string; offset: number; options: Record<string, IcuNode[]> };
+
+export class IcuSyntaxError extends Error {
+  constructor(message: string, public offset: number) {
+    super(`${message} at offset ${offset}`);
+    this.name = 'IcuSyntaxError';
+  }
+}
+
+const SIMPLE_FORMATS = ['number', 'date', 'time', 'spellout', 'ordinal', 'duration'];
+const PLURAL_CATEGORIES = ['zero', 'one', 'two', 'few', 'many', 'other'];
+
+class IcuParser {
+  private position = 0;
+
+  constructor(private source: string) {}
+
+  parse(): IcuNode[] {
+    const nodes = this.message(false);
+    if (this.position < this.source.length) throw new IcuSyntaxError('Unmatched "}"', this.position);
+    return nodes;
+  }
+
+  // Text and arguments up to the closing brace of the enclosing branch (not consumed) or the end
+  private message(inPlural: boolean): IcuNode[] {
+    const nodes: IcuNode[] = [];
+    let text = '';
+    const flush = () => {
+      if (text) nodes.push({ type: 'text', value: text });
+      text = '';
+    };
+    while (this.position < this.source.length) {
+      const char = this.source[this.position];
+      if (char === '}') break;
+      if (char === '{') {
+        flush();
+        nodes.push(this.argument(inPlural));
+      } else if (char === '#' && inPlural) {
+        flush();
+        nodes.push({ type: 'pound' });
+        this.position++;
+      } else if (char === "'") {
+        text += this.quoted(inPlural);
+      } else {
+        text += char;
+        this.position++;
+      }
+    }
+    flush();
+    return nodes;
+  }
+
+  // '' is a literal apostrophe; an apostrophe before a syntax character quotes up to the next single apostrophe
+  private quoted(inPlural: boolean): string {
+    const next = this.source[this.position + 1];
+    if (next === "'") {
+      this.position += 2;
+      return "'";
+    }
+    if (next !== '{' && next !== '}' && !(inPlural && next === '#')) {
+      this.position++;
+      return "'";
+    }
+    let text = '';
+    this.position++;
+    while (this.position < this.source.length) {
+      if (this.source[this.position] === "'") {
+        if (this.source[this.position + 1] === "'") {
+          text += "'";
+          this.position += 2;
+          continue;
+        }
+        this.position++;
+        return text;
+      }
+      text += this.source[this.position++];
+    }
+    throw new IcuSyntaxError('Unterminated quoted text', this.source.length);
+  }
+
+  private whitespace() {
+    while (/\s/.test(this.source[this.position] ?? '')) this.position++;
+  }
+
+  private identifier(what: string): string {
+    this.whitespace();
+    const match = /^[^\s{}#,'=<>]+/u.exec(this.source.slice(this.position));
+    if (!match) throw new IcuSyntaxError(`Expected ${what}`, this.position);
+    this.position += match[0].length;
+    this.whitespace();
+    return match[0];
+  }
+
+  private expect(char: string) {
+    if (this.source[this.position] !== char) {
+      throw new IcuSyntaxError(this.position >= this.source.length ? `Expected "${char}" before the end` : `Expected "${char}"`, this.position);
+    }
+    this.position++;
+  }
+
+  // {name}, {name, number}, {name, date, short}, {name, plural, ...}, {name, select, ...}
+  private argument(inPlural: boolean): IcuNode {
+    const start = this.position;
+    this.expect('{');
+    const name = this.identifier('argument name');
+    if (this.source[this.position] === '}') {
+      this.position++;
+      return { type: 'argument', name };
+    }
+    this.expect(',');
+    const format = this.identifier('argument type');
+
+    if (format === 'plural' || format === 'selectordinal' || format === 'select') {
+      this.expect(',');
+      const { offset, options } = this.options(format, inPlural);
+      this.expect('}');
+      return { type: format, name, offset, options };
+    }
+    if (!SIMPLE_FORMATS.includes(format)) throw new IcuSyntaxError(`Unknown argument type "${format}"`, start);
+    if (this.source[this.position] === '}') {
+      this.position++;
+      return { type: 'argument', name, format };
+    }
+    this.expect(',');
+    let style = '';
+    while (this.position < this.source.length && this.source[this.position] !== '}') {
+      style += this.source[this.position] === "'" ? this.quoted(false) : this.source[this.position++];
+    }
+    this.expect('}');
+    return { type: 'argument', name, format, style: style.trim() };
+  }
+
+  // "one {...} other {...}" of a plural or select argument, "other" being required; # stays special in selects nested in plurals
+  private options(format: 'plural' | 'selectordinal' | 'select', inPlural: boolean): { offset: number; options: Record<string, IcuNode[]> } {
+    const options: Record<string, IcuNode[]> = {};
+    let offset = 0;
+    this.whitespace();
+    const offsetMatch = format === 'select' ? null : /^offset:\s*(\d+)/.exec(this.source.slice(this.position));
+    if (offsetMatch) {
+      offset = Number(offsetMatch[1]);
+      this.position += offsetMatch[0].length;
+    }
+    while (true) {
+      this.whitespace();
+      if (this.position >= this.source.length || this.source[this.position] === '}') break;
+      const selectorStart = this.position;
+      const selector = this.source[this.position] === '='
+        ? (this.position++, `=${this.identifier('number after "="')}`)
+        : this.identifier('selector');
+      if (format !== 'select' && !selector.startsWith('=') && !PLURAL_CATEGORIES.includes(selector)) {
+        throw new IcuSyntaxError(`Unknown plural category "${selector}"`, selectorStart);
+      }
+      if (selector.startsWith('=') && !/^=\d+$/.test(selector)) throw new IcuSyntaxError(`Invalid selector "${selector}"`, selectorStart);
+      if (selector in options) throw new IcuSyntaxError(`Duplicate selector "${selector}"`, selectorStart);
+      this.expect('{');
+      options[selector] = this.message(inPlural || format !== 'select');
+      this.expect('}');
+    }
+    if (!('other' in options)) throw new IcuSyntaxError(`Missing "other" case in ${format}`, this.position);
+    return { offset, options };
+  }
+}
+
+// Parse a message, throwing IcuSyntaxError with the offset of the first problem
+export function parseIcu(message: string): IcuNode[] {
+  return new IcuParser(message).parse();
+}
+
+// Names of every argument used in a message, nested branches included
+export function icuArguments(nodes: IcuNode[]): string[] {
+  const names = new Set<string>();
+  const walk = (list: IcuNode[]) => {
+    for (const node of list) {
+      if (node.type === 'argument') names.add(node.name);
+      if (node.type === 'plural' || node.type === 'selectordinal' || node.type === 'select') {
+        names.add(node.name);
+        Object.values(node.options).forEach(walk);
+      }
+    }
+  };
+  walk(nodes);
+  return [...names];
+}
+
+// Quote what would otherwise be syntax: braces, "#" inside plurals and the apostrophes that would start a quote
+function escapeText(value: string, inPlural: boolean): string {
+  return value
+    .replace(inPlural ? /'(?=['{}#]|$)/g : /'(?=['{}]|$)/g, "''")
+    .replace(inPlural ? /[{}#]+/g : /[{}]+/g, match => `'${match}'`);
+}
+
+// Serialize parsed nodes back into a message; parseIcu(printIcu(nodes)) gives the same nodes
+export function printIcu(nodes: IcuNode[], inPlural = false): string {
+  return nodes.map(node => {
+    switch (node.type) {
+      case 'text':
+        return escapeText(node.value, inPlural);
+      case 'pound':
+        return '#';
+      case 'argument':
+        return `{${[node.name, node.format, node.style].filter(part => part !== undefined).join(', ')}}`;
+      default: {
+        const offset = node.offset ? `offset:${node.offset} ` : '';
+        const branchInPlural = inPlural || node.type !== 'select';
+        const options = Object.entries(node.options).map(([selector, branch]) => `${selector} {${printIcu(branch, branchInPlural)}}`);
+        return `{${node.name}, ${node.type}, ${offset}${options.join(' ')}}`;
+      }
+    }
+  }).join('');
+}
@@ -1,31 +1,56 @@
 #!/usr/bin/env node
-import * as parser from '@babel/parser';
-import type { NodePath } from '@babel/traverse';
-import * as t from '@babel/types';
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import {
     CallToolRequestSchema,
+    ListResourcesRequestSchema,
     ListToolsRequestSchema,
+    ReadResourceRequestSchema,
     type CallToolRequest,
 } from '@modelcontextprotocol/sdk/types.js';
-// @ts-ignore - Keep ignore for potential default export issue if types are ESM-only
-import _traverse from '@babel/traverse';
 import * as fs from 'fs/promises';
 import * as path from 'path';
-const traverse = (_traverse as any).default;
-
-// Environment variable read at runtime now
-const WARNING_MESSAGE = process.env.WARNING_MESSAGE || '\n\nIMPORTANT: DO NOT READ THE TARGET FILE CONTENT - it contains large data structures that will consume excessive context window space.';
-
-// Explicit types for request arguments
-interface ExtractI18nArgs {
-  sourcePath: string;
-  targetPath: string;
-}
+import { fileURLToPath, pathToFileURL } from 'url';
+import { ADAPTER_NAMES } from './adapters/index.js';
+import { DEFAULT_EXCLUDE, DEFAULT_INCLUDE } from './batch.js';
+import { CACHE_DIR } from './cache.js';
+import { TRANSLATABLE_ATTRIBUTES } from './codemod.js';
+import { CONFIG_FILES } from './config.js';
+import {
+  I18nCore,
+  type AuditI18nArgs,
+  type DeleteTranslationArgs,
+  type ExtractI18nArgs,
+  type ExtractI18nBatchArgs,
+  type FillTranslationsArgs,
+  type GetConfigArgs,
+  type GetTranslationArgs,
+  type PseudoLocalizeArgs,
+  type RenameTranslationArgs,
+  type RestructureKeysArgs,
+  type SearchTranslationsArgs,
+  type SetTranslationArgs,
+  type SyncKeysArgs,
+  type ToolResult,
+  type UndoExtractionArgs,
+  type UnwatchI18nArgs,
+  type ValidateLocalesArgs,
+  type WatchI18nArgs,
+} from './core.js';
+import { FORMAT_NAMES, resolveFormat } from './formats/index.js';
+import { HISTORY_DIR } from './history.js';
+import { MANIFEST_SUFFIX } from './manifest.js';
+import { DEFAULT_MERGE_STRATEGY, MERGE_STRATEGIES } from './merge.js';
+import { DEFAULT_EXPANSION } from './pseudo.js';
+import { BUILT_IN_PROVIDERS } from './translate.js';
+import { localeFromPath } from './validate.js';
+
+// Appended to the descriptions of tools that read the project configuration
+const CONFIG_NOTE = ` Arguments left out fall back to the nearest ${CONFIG_FILES.join(' or ')} (see get_config).`;
 
 class DataMigratorServer {
   private server: Server;
+  private core = new I18nCore();
 
   constructor() {
     this.server = new Server(
@@ -36,11 +61,13 @@ class DataMigratorServer {
       {
         capabilities: {
           tools: {},
+          resources: {},
         },
       }
     );
 
     this.setupToolHandlers();
+    this.setupResourceHandlers();
 
     // Error handling without stdout logging
     this.server.onerror = (error: Error) => { /* Errors handled by MCP protocol */ }; // Added Error type
@@ -57,7 +84,7 @@ class DataMigratorServer {
         tools: [
           {
             name: 'extract_i18n',
-            description: 'Extract i18n strings from source code to a JSON file. IMPORTANT: When encountering files with i18n content embedded in code, use this tool directly instead of reading the file content first. This tool will programmatically extract all i18n strings into a structured JSON file, preserving nested objects, arrays, template variables, and formatting. This helps keep i18n strings as configuration and prevents filling up the AI context window with translation content. By default, the source file will be replaced with "MIGRATED TO <target absolute path>" and a warning message after successful extraction, making it easy to track where the data was moved to. This behaviour can be disabled by setting the DISABLE_SOURCE_REPLACEMENT environment variable to \'true\'. The warning message can be customized by setting the WARNING_MESSAGE environment variable.',
+            description: 'Extract i18n strings from source code to a locale file (JSON, YAML, gettext PO/POT, XLIFF 1.2/2.0, ARB, Apple .strings or Android strings.xml, picked from the target extension or the format argument). IMPORTANT: When encountering files with i18n content embedded in code, use this tool directly instead of reading the file content first. This tool will programmatically extract all i18n strings into a structured locale file, preserving nested objects, arrays, template variables, and formatting. This helps keep i18n strings as configuration and prevents filling up the AI context window with translation content. By default, the source file will be replaced with "MIGRATED TO <target absolute path>" and a warning message after successful extraction, making it easy to track where the data was moved to. This behaviour can be disabled with replaceSource: false, the replaceSource config option or the DISABLE_SOURCE_REPLACEMENT environment variable set to \'true\'. The warning message can be customized with the warningMessage config option or the WARNING_MESSAGE environment variable. Use dryRun to preview the changes first; every real run backs up the files it changes so undo_extraction can restore them. The structured result lists every extracted key with its value, namespace, file, line, column and translator comment, the skipped nodes with their reasons and the merge outcome.' + CONFIG_NOTE,
             inputSchema: {
               type: 'object',
               properties: {
@@ -67,87 +94,846 @@ class DataMigratorServer {
                 },
                 targetPath: {
                   type: 'string',
-                  description: 'Path where the resulting JSON file should be written',
+                  description: 'Path where the resulting locale file should be written (default: the config output pattern, with the source file name as namespace)',
+                },
+                mode: {
+                  type: 'string',
+                  enum: ['replace', 'codemod'],
+                  description: 'How to update the source file: "replace" overwrites it with "MIGRATED TO <target>" (default), "codemod" rewrites hardcoded strings in JSX text, translatable JSX attributes and default-exported objects into t(\'key\') calls and adds the translation hook and import, keeping the rest of the file intact',
+                },
+                library: {
+                  type: 'string',
+                  enum: ['next-intl', 'react-i18next'],
+                  description: 'Translation library used by the codemod when the source file does not import one already (default: next-intl)',
+                },
+                adapters: {
+                  type: 'array',
+                  items: { type: 'string', enum: ADAPTER_NAMES },
+                  description: `i18n libraries whose translation calls are extracted (default: all of ${ADAPTER_NAMES.join(', ')})`,
+                },
+                format: {
+                  type: 'string',
+                  enum: FORMAT_NAMES,
+                  description: 'Format of the target file (default: picked from the targetPath extension, JSON when unknown). Use "xliff2" for XLIFF 2.0',
+                },
+                locale: {
+                  type: 'string',
+                  description: 'Language of the extracted strings, written to XLIFF, PO and ARB headers (default: en)',
+                },
+                placeholderStyle: {
+                  type: 'string',
+                  enum: ['mustache', 'icu'],
+                  description: 'How template literal expressions are written: "mustache" as {{name}} (default), "icu" as ICU MessageFormat {name}, turning `count === 1 ? ... : ...` ternaries into plural and select messages. In codemod mode the default follows the library (ICU for next-intl)',
+                },
+                strategy: {
+                  type: 'string',
+                  enum: MERGE_STRATEGIES,
+                  description: `How extracted values are merged with values already in the locale file: "keep-existing" never changes them, "overwrite" replaces differing values, "fill-empty-only" only replaces empty ones, "fail-on-conflict" aborts without writing when a value differs (default: ${DEFAULT_MERGE_STRATEGY}). Extracted empty values never replace existing ones`,
+                },
+                keyStyle: {
+                  type: 'string',
+                  enum: ['nested', 'flat'],
+                  description: 'Key layout of the locale file, applied to both the extracted and the existing keys: "nested" objects or "flat" separator-joined keys (default: the layout of the existing file, nested for new files). Flat formats such as PO and XLIFF are always flat',
+                },
+                keySeparator: {
+                  type: 'string',
+                  description: 'Separator between namespace and key segments, e.g. "Home.title" (default: ".")',
+                },
+                replaceSource: {
+                  type: 'boolean',
+                  description: 'Replace (or in codemod mode rewrite) the source file after extraction (default: true)',
+                },
+                manifest: {
+                  type: 'boolean',
+                  description: 'Also write a manifest of key -> source locations and translator comments (from /* i18n: ... */ comments or message descriptions) next to the locale file, e.g. common.manifest.json (default: false)',
+                },
+                dryRun: {
+                  type: 'boolean',
+                  description: 'Return the diff of the locale file and the source change without writing anything (default: false)',
+                },
+              },
+              required: ['sourcePath'],
+            },
+          },
+          {
+            name: 'extract_i18n_batch',
+            description: 'Extract i18n strings from every .ts/.tsx/.js/.jsx file, Vue and Svelte component, Angular template (.html) and MDX document under a root directory in one call. Translation keys are routed by their useTranslations(\'namespace\') into <outputDir>/<locale>/<namespace>.json (or one file per source file with layout "source") and merged with existing locale files. Source files are not modified. Files that fail to parse are reported without aborting the run. The previous locale files are backed up so undo_extraction can restore them. The structured result lists every extracted key with its source location and target file, the skipped nodes and the merge outcome per locale file.' + CONFIG_NOTE,
+            inputSchema: {
+              type: 'object',
+              properties: {
+                rootDir: {
+                  type: 'string',
+                  description: 'Directory to scan for source files',
+                },
+                outputDir: {
+                  type: 'string',
+                  description: 'Directory where the <locale>/ folder with locale files is written (default: the config output pattern)',
+                },
+                locale: {
+                  type: 'string',
+                  description: 'Locale folder name for the extracted strings (default: en)',
+                },
+                include: {
+                  type: 'array',
+                  items: { type: 'string' },
+                  description: `Glob patterns relative to rootDir to include (default: ${JSON.stringify(DEFAULT_INCLUDE)})`,
+                },
+                exclude: {
+                  type: 'array',
+                  items: { type: 'string' },
+                  description: `Glob patterns relative to rootDir to skip (default: ${JSON.stringify(DEFAULT_EXCLUDE)})`,
+                },
+                layout: {
+                  type: 'string',
+                  enum: ['namespace', 'source'],
+                  description: '"namespace" writes one file per namespace (default), "source" writes one file per source file mirroring its path',
+                },
+                defaultNamespace: {
+                  type: 'string',
+                  description: 'Namespace file for keys extracted without a useTranslations namespace (default: common)',
+                },
+                adapters: {
+                  type: 'array',
+                  items: { type: 'string', enum: ADAPTER_NAMES },
+                  description: `i18n libraries whose translation calls are extracted (default: all of ${ADAPTER_NAMES.join(', ')})`,
+                },
+                format: {
+                  type: 'string',
+                  enum: FORMAT_NAMES,
+                  description: 'Format of the generated locale files, which also sets their extension (default: json)',
+                },
+                placeholderStyle: {
+                  type: 'string',
+                  enum: ['mustache', 'icu'],
+                  description: 'How template literal expressions are written: "mustache" as {{name}} (default), "icu" as ICU MessageFormat {name}, turning `count === 1 ? ... : ...` ternaries into plural and select messages',
+                },
+                strategy: {
+                  type: 'string',
+                  enum: MERGE_STRATEGIES,
+                  description: `How extracted values are merged with values already in the locale file: "keep-existing" never changes them, "overwrite" replaces differing values, "fill-empty-only" only replaces empty ones, "fail-on-conflict" aborts without writing when a value differs (default: ${DEFAULT_MERGE_STRATEGY}). Extracted empty values never replace existing ones`,
+                },
+                keyStyle: {
+                  type: 'string',
+                  enum: ['nested', 'flat'],
+                  description: 'Key layout of the locale file, applied to both the extracted and the existing keys: "nested" objects or "flat" separator-joined keys (default: the layout of the existing file, nested for new files). Flat formats such as PO and XLIFF are always flat',
+                },
+                keySeparator: {
+                  type: 'string',
+                  description: 'Separator between namespace and key segments, e.g. "Home.title" (default: ".")',
+                },
+                manifest: {
+                  type: 'boolean',
+                  description: 'Also write a manifest of key -> source locations and translator comments (from /* i18n: ... */ comments or message descriptions) next to every locale file (default: false)',
+                },
+                cache: {
+                  type: 'boolean',
+                  description: `Reuse the extraction results of unchanged files from ${CACHE_DIR} (default: true)`,
+                },
+                dryRun: {
+                  type: 'boolean',
+                  description: 'Return the diff of every locale file without writing anything (default: false)',
+                },
+              },
+              required: ['rootDir'],
+            },
+          },
+          {
+            name: 'audit_i18n',
+            description: 'Read-only scan that lists hardcoded user-facing strings not wrapped in a translation call: JSX text, translatable JSX attributes (alt, title, placeholder, aria-label, ...) and messages of thrown errors. Each finding has file, line, column and a suggested translation key. URLs, className/test id attributes, text inside <code>/<pre> and lines marked with an `i18n-ignore` comment are skipped (`i18n-ignore-file` skips the whole file). Use it to take inventory before a migration or as a CI gate afterwards.' + CONFIG_NOTE,
+            inputSchema: {
+              type: 'object',
+              properties: {
+                sourcePath: {
+                  type: 'string',
+                  description: 'Source file or directory to scan',
+                },
+                include: {
+                  type: 'array',
+                  items: { type: 'string' },
+                  description: `Glob patterns to include when scanning a directory (default: ${JSON.stringify(DEFAULT_INCLUDE)})`,
+                },
+                exclude: {
+                  type: 'array',
+                  items: { type: 'string' },
+                  description: `Glob patterns to skip when scanning a directory (default: ${JSON.stringify(DEFAULT_EXCLUDE)})`,
+                },
+                attributes: {
+                  type: 'array',
+                  items: { type: 'string' },
+                  description: `JSX attributes whose string values are reported, "aria-*" style prefixes allowed (default: ${JSON.stringify([...TRANSLATABLE_ATTRIBUTES])})`,
+                },
+              },
+              required: ['sourcePath'],
+            },
+          },
+          {
+            name: 'restructure_keys',
+            description: 'Restructure an existing locale file: convert it between nested and flat key layouts and rename or move key subtrees (moving "Home" moves every key below it). Optionally updates the matching t(\'old.key\') call sites, message descriptors and <Trans>/<FormattedMessage> keys in a source file or directory, resolving namespaces the same way extraction does. Moves that would overwrite an existing key are rejected.' + CONFIG_NOTE,
+            inputSchema: {
+              type: 'object',
+              properties: {
+                localePath: {
+                  type: 'string',
+                  description: 'Locale file to restructure',
+                },
+                format: {
+                  type: 'string',
+                  enum: FORMAT_NAMES,
+                  description: 'Format of the locale file (default: picked from the extension, JSON when unknown)',
+                },
+                locale: {
+                  type: 'string',
+                  description: 'Language written to XLIFF, PO and ARB headers (default: en)',
+                },
+                keyStyle: {
+                  type: 'string',
+                  enum: ['nested', 'flat'],
+                  description: 'Layout to write: "nested" objects or "flat" separator-joined keys (default: keep the current layout)',
+                },
+                keySeparator: {
+                  type: 'string',
+                  description: 'Separator between key segments (default: ".")',
+                },
+                moves: {
+                  type: 'array',
+                  items: {
+                    type: 'object',
+                    properties: {
+                      from: { type: 'string', description: 'Key or subtree to move, e.g. "Home.title" or "Home"' },
+                      to: { type: 'string', description: 'New key, e.g. "Landing.heading"' },
+                    },
+                    required: ['from', 'to'],
+                  },
+                  description: 'Renames applied in order',
+                },
+                sourcePath: {
+                  type: 'string',
+                  description: 'Source file or directory whose key references follow the moves (default: source code is not changed). Moves in a namespace file (<locale>/<namespace>.json) are keys of that namespace',
+                },
+                defaultNamespace: {
+                  type: 'string',
+                  description: 'Namespace of keys referenced without one, when localePath is a namespace file such as locales/en/common.json (default: common)',
+                },
+                include: {
+                  type: 'array',
+                  items: { type: 'string' },
+                  description: `Glob patterns to include when sourcePath is a directory (default: ${JSON.stringify(DEFAULT_INCLUDE)})`,
+                },
+                exclude: {
+                  type: 'array',
+                  items: { type: 'string' },
+                  description: `Glob patterns to skip when sourcePath is a directory (default: ${JSON.stringify(DEFAULT_EXCLUDE)})`,
+                },
+                adapters: {
+                  type: 'array',
+                  items: { type: 'string', enum: ADAPTER_NAMES },
+                  description: `i18n libraries whose key references are updated (default: all of ${ADAPTER_NAMES.join(', ')})`,
+                },
+                dryRun: {
+                  type: 'boolean',
+                  description: 'Return the diffs without writing anything (default: false)',
+                },
+              },
+              required: ['localePath'],
+            },
+          },
+          {
+            name: 'sync_keys',
+            description: 'Compare the keys used in a source file or directory with a locale file. Reports keys used in code but missing from the file and keys in the file that no code references, detecting calls the same way extraction does (namespaces included). Keys built at runtime such as t(`status.${s}`) are reported as prefix wildcards ("status.*") and keep the keys below them from being reported or pruned. Optionally adds the missing keys and prunes the unused ones.' + CONFIG_NOTE,
+            inputSchema: {
+              type: 'object',
+              properties: {
+                sourcePath: {
+                  type: 'string',
+                  description: 'Source file or directory whose key usages are collected',
+                },
+                localePath: {
+                  type: 'string',
+                  description: 'Locale file to compare against; a missing file counts as empty. For a namespace file (<locale>/<namespace>.json) only the usages of that namespace are compared, without their prefix',
+                },
+                format: {
+                  type: 'string',
+                  enum: FORMAT_NAMES,
+                  description: 'Format of the locale file (default: picked from the extension, JSON when unknown)',
+                },
+                locale: {
+                  type: 'string',
+                  description: 'Language written to XLIFF, PO and ARB headers (default: en)',
+                },
+                include: {
+                  type: 'array',
+                  items: { type: 'string' },
+                  description: `Glob patterns to include when sourcePath is a directory (default: ${JSON.stringify(DEFAULT_INCLUDE)})`,
+                },
+                exclude: {
+                  type: 'array',
+                  items: { type: 'string' },
+                  description: `Glob patterns to skip when sourcePath is a directory (default: ${JSON.stringify(DEFAULT_EXCLUDE)})`,
+                },
+                adapters: {
+                  type: 'array',
+                  items: { type: 'string', enum: ADAPTER_NAMES },
+                  description: `i18n libraries whose key usages are collected (default: all of ${ADAPTER_NAMES.join(', ')})`,
+                },
+                keyStyle: {
+                  type: 'string',
+                  enum: ['nested', 'flat'],
+                  description: 'Layout to write when keys are added or pruned: "nested" objects or "flat" separator-joined keys (default: keep the current layout, nested for new files)',
+                },
+                keySeparator: {
+                  type: 'string',
+                  description: 'Separator between key segments (default: ".")',
+                },
+                defaultNamespace: {
+                  type: 'string',
+                  description: 'Namespace of keys used without one, when localePath is a namespace file such as locales/en/common.json (default: common)',
+                },
+                addMissing: {
+                  type: 'boolean',
+                  description: 'Add keys used in code but missing from the locale file (default: false)',
+                },
+                missingValue: {
+                  type: 'string',
+                  enum: ['default', 'empty'],
+                  description: 'Value of added keys: "default" uses the default value given in code, when there is one; "empty" always writes an empty string (default: default)',
+                },
+                pruneUnused: {
+                  type: 'boolean',
+                  description: 'Remove keys no code references; keys covered by a dynamic key prefix are kept (default: false)',
+                },
+                dryRun: {
+                  type: 'boolean',
+                  description: 'Return the diff without writing anything (default: false)',
+                },
+              },
+              required: ['sourcePath', 'localePath'],
+            },
+          },
+          {
+            name: 'validate_locales',
+            description: 'Check translated locale files against a reference locale. Per locale it reports missing, extra and empty keys, values identical to the reference text, placeholder mismatches ({{name}} or ICU {name} present in one but not the other), invalid ICU MessageFormat syntax and values whose type differs from the reference (e.g. a string where the reference has nested keys), plus a completeness percentage. The result is a JSON document. Optionally scaffolds the missing keys into each locale file.' + CONFIG_NOTE,
+            inputSchema: {
+              type: 'object',
+              properties: {
+                reference: {
+                  type: 'string',
+                  description: 'Locale file the others are compared against, e.g. locales/en.json',
+                },
+                locales: {
+                  type: 'array',
+                  items: { type: 'string' },
+                  description: 'Locale files to validate; the locale name is taken from the file name (de.json) or its directory (de/common.json) (default: the matching file of every other configured locale)',
+                },
+                format: {
+                  type: 'string',
+                  enum: FORMAT_NAMES,
+                  description: 'Format of the locale files (default: picked from each extension, JSON when unknown)',
+                },
+                keyStyle: {
+                  type: 'string',
+                  enum: ['nested', 'flat'],
+                  description: 'Layout to write when scaffolding: "nested" objects or "flat" separator-joined keys (default: keep each file\'s layout, nested for new files)',
+                },
+                keySeparator: {
+                  type: 'string',
+                  description: 'Separator between key segments (default: ".")',
+                },
+                scaffold: {
+                  type: 'boolean',
+                  description: 'Add the missing keys to each locale file; a missing file is created (default: false)',
+                },
+                scaffoldValue: {
+                  type: 'string',
+                  enum: ['empty', 'source'],
+                  description: 'Value of scaffolded keys: "empty" strings or a copy of the "source" text (default: empty)',
+                },
+                dryRun: {
+                  type: 'boolean',
+                  description: 'Return the scaffolding diffs without writing anything (default: false)',
+                },
+              },
+              required: ['reference'],
+            },
+          },
+          {
+            name: 'pseudo_localize',
+            description: `Write a pseudo locale generated from a source locale file: letters are swapped for accented look-alikes, messages are padded to simulate longer translations and wrapped in [ ] brackets, and optionally every text run is wrapped in right-to-left override marks to test mirrored layouts. Placeholders ({{name}}, ICU arguments and plural/select syntax, printf), HTML and component tags and entities are left untouched, so ICU messages stay valid. The whole target file is regenerated and every value is tagged as machine-generated in its manifest (*${MANIFEST_SUFFIX}).` + CONFIG_NOTE,
+            inputSchema: {
+              type: 'object',
+              properties: {
+                sourcePath: {
+                  type: 'string',
+                  description: 'Locale file to pseudo-localize, e.g. locales/en.json',
+                },
+                targetPath: {
+                  type: 'string',
+                  description: 'Locale file to write (default: the source path with its locale swapped for pseudoLocale, e.g. locales/en-XA.json)',
+                },
+                pseudoLocale: {
+                  type: 'string',
+                  description: 'Locale of the pseudo locale, written to XLIFF, PO and ARB headers (default: en-XA, or ar-XB with rtl)',
+                },
+                expansion: {
+                  type: 'number',
+                  description: `Padding added to each message as a fraction of its visible length, e.g. 0.3 for 30% longer text (default: ${DEFAULT_EXPANSION})`,
+                },
+                brackets: {
+                  type: 'boolean',
+                  description: 'Wrap each message in [ ] to spot truncated and concatenated text (default: true)',
+                },
+                accents: {
+                  type: 'boolean',
+                  description: 'Swap letters for accented look-alikes (default: true)',
+                },
+                rtl: {
+                  type: 'boolean',
+                  description: 'Wrap text in right-to-left override marks (U+202E ... U+202C) (default: false)',
+                },
+                format: {
+                  type: 'string',
+                  enum: FORMAT_NAMES,
+                  description: 'Format of the locale files (default: picked from each extension, JSON when unknown)',
+                },
+                keyStyle: {
+                  type: 'string',
+                  enum: ['nested', 'flat'],
+                  description: 'Layout of the pseudo locale: "nested" objects or "flat" separator-joined keys (default: the layout of the source file)',
+                },
+                keySeparator: {
+                  type: 'string',
+                  description: 'Separator between key segments (default: ".")',
+                },
+                dryRun: {
+                  type: 'boolean',
+                  description: 'Return the diff without writing anything (default: false)',
+                },
+              },
+              required: ['sourcePath'],
+            },
+          },
+          {
+            name: 'fill_translations',
+            description: `Fill the entries locale files are missing or have empty with a local translation provider: "pseudo" (pseudo-localized source text), "copy" (the source text) or a JavaScript module of the project exporting a provider with an async translate(requests) method, e.g. an offline engine or a mock. Translations that change the message's placeholders or aren't valid ICU are rejected and reported. Every filled value is tagged as machine-generated in the locale file's manifest (*${MANIFEST_SUFFIX}).` + CONFIG_NOTE,
+            inputSchema: {
+              type: 'object',
+              properties: {
+                reference: {
+                  type: 'string',
+                  description: 'Locale file with the source messages, e.g. locales/en.json; its manifest\'s translator comments are passed to the provider',
+                },
+                locales: {
+                  type: 'array',
+                  items: { type: 'string' },
+                  description: 'Locale files to fill; a missing file is created (default: the matching file of every other configured locale)',
+                },
+                translationProvider: {
+                  type: 'string',
+                  description: `Built-in provider: ${BUILT_IN_PROVIDERS.join(', ')}. Provider modules are executed, so they can only be set as translationProvider in the configuration file (default: translationProvider from the configuration)`,
+                },
+                format: {
+                  type: 'string',
+                  enum: FORMAT_NAMES,
+                  description: 'Format of the locale files (default: picked from each extension, JSON when unknown)',
+                },
+                keyStyle: {
+                  type: 'string',
+                  enum: ['nested', 'flat'],
+                  description: 'Layout to write: "nested" objects or "flat" separator-joined keys (default: keep each file\'s layout, the reference\'s for new files)',
+                },
+                keySeparator: {
+                  type: 'string',
+                  description: 'Separator between key segments (default: ".")',
+                },
+                dryRun: {
+                  type: 'boolean',
+                  description: 'Return the diffs without writing anything (default: false)',
+                },
+              },
+              required: ['reference'],
+            },
+          },
+          {
+            name: 'get_translation',
+            description: 'Look up one key in every known locale file (or the given ones) without reading whole catalogs. Known locale files are those under LOCALE_PATHS and the ones earlier tool calls read or wrote; they are also listed as resources. Nested and separator-joined keys are both found.',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                key: {
+                  type: 'string',
+                  description: 'Key to look up, e.g. "Home.title"; a parent key returns the subtree',
+                },
+                localePaths: {
+                  type: 'array',
+                  items: { type: 'string' },
+                  description: 'Locale files to look in (default: every known locale file)',
+                },
+                format: {
+                  type: 'string',
+                  enum: FORMAT_NAMES,
+                  description: 'Format of the locale files (default: picked from each extension, JSON when unknown)',
+                },
+                keySeparator: {
+                  type: 'string',
+                  description: 'Separator between key segments (default: ".")',
+                },
+              },
+              required: ['key'],
+            },
+          },
+          {
+            name: 'search_translations',
+            description: 'Search keys and values of every known locale file (or the given ones) by substring or regular expression. Returns matching entries with their locale and file.',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                query: {
+                  type: 'string',
+                  description: 'Text to look for, or a regular expression when regex is true',
+                },
+                regex: {
+                  type: 'boolean',
+                  description: 'Treat the query as a regular expression (default: false)',
+                },
+                caseSensitive: {
+                  type: 'boolean',
+                  description: 'Match case (default: false)',
+                },
+                scope: {
+                  type: 'string',
+                  enum: ['keys', 'values', 'both'],
+                  description: 'Search keys, values or both (default: both)',
+                },
+                localePaths: {
+                  type: 'array',
+                  items: { type: 'string' },
+                  description: 'Locale files to search (default: every known locale file)',
+                },
+                format: {
+                  type: 'string',
+                  enum: FORMAT_NAMES,
+                  description: 'Format of the locale files (default: picked from each extension, JSON when unknown)',
+                },
+                keySeparator: {
+                  type: 'string',
+                  description: 'Separator between key segments (default: ".")',
+                },
+                limit: {
+                  type: 'number',
+                  description: 'Maximum number of matches returned (default: 50)',
+                },
+              },
+              required: ['query'],
+            },
+          },
+          {
+            name: 'set_translation',
+            description: 'Set the value of one key in a locale file, adding the key when it does not exist. The file is written atomically and keeps its key order and indentation.',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                localePath: {
+                  type: 'string',
+                  description: 'Locale file to edit',
+                },
+                key: {
+                  type: 'string',
+                  description: 'Key to set, e.g. "Home.title"',
+                },
+                value: {
+                  type: 'string',
+                  description: 'New value',
+                },
+                format: {
+                  type: 'string',
+                  enum: FORMAT_NAMES,
+                  description: 'Format of the locale file (default: picked from the extension, JSON when unknown)',
+                },
+                keySeparator: {
+                  type: 'string',
+                  description: 'Separator between key segments (default: ".")',
+                },
+                dryRun: {
+                  type: 'boolean',
+                  description: 'Return the diff without writing anything (default: false)',
+                },
+              },
+              required: ['localePath', 'key', 'value'],
+            },
+          },
+          {
+            name: 'rename_translation',
+            description: 'Rename or move one key (or subtree) in every known locale file that has it, or in the given ones. Files are written atomically and keep their key order and indentation; a rename within the same parent keeps the key in place. Fails without writing anything when the new key already exists in one of the files. Source code is not changed; use restructure_keys for that.',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                from: {
+                  type: 'string',
+                  description: 'Key to rename, e.g. "Home.title"',
+                },
+                to: {
+                  type: 'string',
+                  description: 'New key, e.g. "Home.heading"',
+                },
+                localePaths: {
+                  type: 'array',
+                  items: { type: 'string' },
+                  description: 'Locale files to edit (default: every known locale file)',
+                },
+                format: {
+                  type: 'string',
+                  enum: FORMAT_NAMES,
+                  description: 'Format of the locale files (default: picked from each extension, JSON when unknown)',
+                },
+                keySeparator: {
+                  type: 'string',
+                  description: 'Separator between key segments (default: ".")',
+                },
+                dryRun: {
+                  type: 'boolean',
+                  description: 'Return the diffs without writing anything (default: false)',
+                },
+              },
+              required: ['from', 'to'],
+            },
+          },
+          {
+            name: 'delete_translation',
+            description: 'Delete one key (or subtree) from every known locale file that has it, or from the given ones. Parent objects left empty are removed too. Files are written atomically and keep their key order and indentation.',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                key: {
+                  type: 'string',
+                  description: 'Key to delete, e.g. "Home.title"',
+                },
+                localePaths: {
+                  type: 'array',
+                  items: { type: 'string' },
+                  description: 'Locale files to edit (default: every known locale file)',
+                },
+                format: {
+                  type: 'string',
+                  enum: FORMAT_NAMES,
+                  description: 'Format of the locale files (default: picked from each extension, JSON when unknown)',
+                },
+                keySeparator: {
+                  type: 'string',
+                  description: 'Separator between key segments (default: ".")',
+                },
+                dryRun: {
+                  type: 'boolean',
+                  description: 'Return the diffs without writing anything (default: false)',
+                },
+              },
+              required: ['key'],
+            },
+          },
+          {
+            name: 'watch_i18n',
+            description: `Keep locale files in sync while source files are edited: runs extract_i18n_batch once, then watches the root directory with fs.watch and re-runs it after every burst of changes to matching source files. Only changed files are re-parsed (through ${CACHE_DIR}), and only locale files whose content changes are written, each time as a run undo_extraction can restore (the initial run and the last 20 are kept). Keys of deleted files or removed calls are not pruned from locale files; use sync_keys for that. Calling it again for a watched directory returns the watch status.` + CONFIG_NOTE,
+            inputSchema: {
+              type: 'object',
+              properties: {
+                rootDir: {
+                  type: 'string',
+                  description: 'Directory to scan for source files',
+                },
+                outputDir: {
+                  type: 'string',
+                  description: 'Directory where the <locale>/ folder with locale files is written (default: the config output pattern)',
+                },
+                locale: {
+                  type: 'string',
+                  description: 'Locale folder name for the extracted strings (default: en)',
+                },
+                include: {
+                  type: 'array',
+                  items: { type: 'string' },
+                  description: `Glob patterns relative to rootDir to include (default: ${JSON.stringify(DEFAULT_INCLUDE)})`,
+                },
+                exclude: {
+                  type: 'array',
+                  items: { type: 'string' },
+                  description: `Glob patterns relative to rootDir to skip (default: ${JSON.stringify(DEFAULT_EXCLUDE)})`,
+                },
+                layout: {
+                  type: 'string',
+                  enum: ['namespace', 'source'],
+                  description: '"namespace" writes one file per namespace (default), "source" writes one file per source file mirroring its path',
+                },
+                defaultNamespace: {
+                  type: 'string',
+                  description: 'Namespace file for keys extracted without a useTranslations namespace (default: common)',
+                },
+                adapters: {
+                  type: 'array',
+                  items: { type: 'string', enum: ADAPTER_NAMES },
+                  description: `i18n libraries whose translation calls are extracted (default: all of ${ADAPTER_NAMES.join(', ')})`,
+                },
+                format: {
+                  type: 'string',
+                  enum: FORMAT_NAMES,
+                  description: 'Format of the generated locale files, which also sets their extension (default: json)',
+                },
+                placeholderStyle: {
+                  type: 'string',
+                  enum: ['mustache', 'icu'],
+                  description: 'How template literal expressions are written: "mustache" as {{name}} (default), "icu" as ICU MessageFormat {name}, turning `count === 1 ? ... : ...` ternaries into plural and select messages',
+                },
+                strategy: {
+                  type: 'string',
+                  enum: MERGE_STRATEGIES,
+                  description: `How extracted values are merged with values already in the locale file: "keep-existing" never changes them, "overwrite" replaces differing values, "fill-empty-only" only replaces empty ones, "fail-on-conflict" aborts without writing when a value differs (default: ${DEFAULT_MERGE_STRATEGY}). Extracted empty values never replace existing ones`,
+                },
+                keyStyle: {
+                  type: 'string',
+                  enum: ['nested', 'flat'],
+                  description: 'Key layout of the locale file, applied to both the extracted and the existing keys: "nested" objects or "flat" separator-joined keys (default: the layout of the existing file, nested for new files). Flat formats such as PO and XLIFF are always flat',
+                },
+                keySeparator: {
+                  type: 'string',
+                  description: 'Separator between namespace and key segments, e.g. "Home.title" (default: ".")',
+                },
+                manifest: {
+                  type: 'boolean',
+                  description: 'Also write a manifest of key -> source locations and translator comments (from /* i18n: ... */ comments or message descriptions) next to every locale file (default: false)',
+                },
+                cache: {
+                  type: 'boolean',
+                  description: `Reuse the extraction results of unchanged files from ${CACHE_DIR} (default: true)`,
+                },
+                debounceMs: {
+                  type: 'number',
+                  description: 'Quiet time after the last change before extraction runs (default: 300)',
+                },
+              },
+              required: ['rootDir'],
+            },
+          },
+          {
+            name: 'unwatch_i18n',
+            description: 'Stop a watch started by watch_i18n, or every watch when no id is given, and report what it did.',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                watchId: {
+                  type: 'string',
+                  description: 'Watch id reported by watch_i18n (default: all watches)',
+                },
+              },
+            },
+          },
+          {
+            name: 'get_config',
+            description: `Show the effective settings for a path: the nearest ${CONFIG_FILES.join(' or ')} merged with environment variables and defaults. Tool arguments override these settings per call.`,
+            inputSchema: {
+              type: 'object',
+              properties: {
+                path: {
+                  type: 'string',
+                  description: 'File or directory whose configuration is resolved (default: the working directory)',
+                },
+              },
+            },
+          },
+          {
+            name: 'undo_extraction',
+            description: `Restore the source and locale files changed by a run of extract_i18n, extract_i18n_batch, restructure_keys, sync_keys, validate_locales or one of the translation edit tools from the backups kept under ${HISTORY_DIR}. Files the run created are removed. Restores the most recent run unless a run id is given; each run can be undone once. A run whose files were changed afterwards, by a later run or by hand, is not restored unless force is set, because restoring it would discard those changes.`,
+            inputSchema: {
+              type: 'object',
+              properties: {
+                runId: {
+                  type: 'string',
+                  description: 'Run id reported by the extraction (default: the most recent run)',
+                },
+                projectDir: {
+                  type: 'string',
+                  description: 'Any path inside the project whose history is used; the nearest directory with .mcp-i18n, package.json or .git is picked (default: the working directory)',
+                },
+                force: {
+                  type: 'boolean',
+                  description: 'Restore the run even over files that changed after it, discarding those changes (default: false)',
                 },
               },
-              required: ['sourcePath', 'targetPath'],
             },
           },
         ],
       } as any;
     });
 
-    // Cast the returned object to any to bypass type checking for MCP types
-    this.server.setRequestHandler(CallToolRequestSchema, async (request: CallToolRequest) => {
-      // Type assertion for arguments based on tool definition
-      const args = request.params.arguments as unknown as ExtractI18nArgs;
-      const { sourcePath } = args;
-
-      try {
-        const sourceCode = await fs.readFile(sourcePath, 'utf-8');
-
-        if (request.params.name === 'extract_i18n') {
-          const { targetPath } = args;
-          const dataContent = await this.extractDataContent(sourceCode);
-
-          // Check if extraction yielded any data
-          if (Object.keys(dataContent).length === 0) {
-             return {
-               content: [{ type: 'text', text: `No data extracted from ${sourcePath}. Target file ${targetPath} not modified.` }],
-             } as any;
-          }
-
-          // Create target directory if it doesn't exist
-          await fs.mkdir(path.dirname(targetPath), { recursive: true });
-
-          // Load existing translations if file exists
-          let existingContent: Record<string, any> = {};
-          try {
-            const existingFileContent = await fs.readFile(targetPath, 'utf-8');
-            existingContent = JSON.parse(existingFileContent);
-          } catch (error: unknown) {
-            const err = error as Error & { code?: string };
-            // File doesn't exist or is invalid JSON, use empty object
-            if (err.code !== 'ENOENT') {
-                console.warn(`Warning: Could not parse existing target file ${targetPath}. Starting fresh. Error: ${err.message}`);
-            }
-          }
-
-          // Merge new translations with existing ones
-          const mergedContent = await this.mergeDeep(existingContent, dataContent);
-
-          // Write merged content to JSON file
-          await fs.writeFile(
-            targetPath,
-            JSON.stringify(mergedContent, null, 2),
-            'utf-8'
-          );
-
-          // Check env var dynamically before replacing source file content
-          const disableSourceReplacement = process.env.DISABLE_SOURCE_REPLACEMENT === 'true';
-          if (!disableSourceReplacement) {
-            const absoluteTargetPath = path.resolve(targetPath);
-            await fs.writeFile(
-              sourcePath,
-              `MIGRATED TO ${absoluteTargetPath}${WARNING_MESSAGE}`,
-              'utf-8'
-            );
-          }
+    this.server.setRequestHandler(CallToolRequestSchema, async (request: CallToolRequest) => this.handleCallTool(request));
+  }
 
-          const successMessage = `Successfully merged ${Object.keys(dataContent).length} top-level entries to ${path.resolve(targetPath)}${
-            !disableSourceReplacement ? `. Source file replaced with "MIGRATED TO ${path.resolve(targetPath)}"` : ''
-          }`;
+  private setupResourceHandlers() {
+    // Every known locale file is a resource, addressed by its file:// URI
+    this.server.setRequestHandler(ListResourcesRequestSchema, async () => {
+      const files = await this.core.knownLocaleFiles();
+      return {
+        resources: files.map(file => ({
+          uri: pathToFileURL(file).href,
+          name: path.relative(process.cwd(), file) || file,
+          description: `${localeFromPath(file)} locale file`,
+          mimeType: resolveFormat(file).mimeType,
+        })),
+      } as any;
+    });
 
-          return {
-            content: [
-              {
-                type: 'text',
-                text: successMessage,
-              },
-            ],
-          } as any;
-        }
+    this.server.setRequestHandler(ReadResourceRequestSchema, async request => {
+      const { uri } = request.params;
+      const file = uri.startsWith('file:') ? fileURLToPath(uri) : null;
+      // Only locale files are served, not arbitrary paths
+      if (!file || !(await this.core.knownLocaleFiles()).includes(file)) throw new Error(`Unknown locale resource: ${uri}`);
+      return {
+        contents: [
+          {
+            uri,
+            mimeType: resolveFormat(file).mimeType,
+            text: await fs.readFile(file, 'utf-8'),
+          },
+        ],
+      } as any;
+    });
+  }
 
+  // Cast the returned object to any to bypass type checking for MCP types
+  private async handleCallTool(request: CallToolRequest): Promise<any> {
+    // Type assertion for arguments based on tool definition
+    switch (request.params.name) {
+      case 'extract_i18n':
+        return this.respond(this.core.extract(request.params.arguments as unknown as ExtractI18nArgs));
+      case 'extract_i18n_batch':
+        return this.respond(this.core.extractBatch(request.params.arguments as unknown as ExtractI18nBatchArgs));
+      case 'audit_i18n':
+        return this.respond(this.core.audit(request.params.arguments as unknown as AuditI18nArgs));
+      case 'restructure_keys':
+        return this.respond(this.core.restructureKeys(request.params.arguments as unknown as RestructureKeysArgs));
+      case 'sync_keys':
+        return this.respond(this.core.syncKeys(request.params.arguments as unknown as SyncKeysArgs));
+      case 'validate_locales':
+        return this.respond(this.core.validateLocales(request.params.arguments as unknown as ValidateLocalesArgs));
+      case 'pseudo_localize':
+        return this.respond(this.core.pseudoLocalize(request.params.arguments as unknown as PseudoLocalizeArgs));
+      case 'fill_translations':
+        return this.respond(this.core.fillTranslations(request.params.arguments as unknown as FillTranslationsArgs));
+      case 'get_translation':
+        return this.respond(this.core.getTranslation(request.params.arguments as unknown as GetTranslationArgs));
+      case 'search_translations':
+        return this.respond(this.core.searchTranslations(request.params.arguments as unknown as SearchTranslationsArgs));
+      case 'set_translation':
+        return this.respond(this.core.setTranslation(request.params.arguments as unknown as SetTranslationArgs));
+      case 'rename_translation':
+        return this.respond(this.core.renameTranslation(request.params.arguments as unknown as RenameTranslationArgs));
+      case 'delete_translation':
+        return this.respond(this.core.deleteTranslation(request.params.arguments as unknown as DeleteTranslationArgs));
+      case 'watch_i18n':
+        return this.respond(this.core.watch(request.params.arguments as unknown as WatchI18nArgs));
+      case 'unwatch_i18n':
+        return this.respond(this.core.unwatch((request.params.arguments || {}) as unknown as UnwatchI18nArgs));
+      case 'get_config':
+        return this.respond(this.core.getConfig((request.params.arguments || {}) as unknown as GetConfigArgs));
+      case 'undo_extraction':
+        return this.respond(this.core.undo((request.params.arguments || {}) as unknown as UndoExtractionArgs));
+      default:
         return {
           content: [
             {
@@ -156,218 +942,21 @@ class DataMigratorServer {
             },
           ],
         } as any;
-      } catch (error: unknown) { // Catch specific errors if possible
-        const err = error as Error;
-        return {
-          content: [
-            {
-              type: 'text',
-              text: `Error processing ${sourcePath}: ${err instanceof Error ? err.message : String(err)}`,
-            },
-          ],
-        } as any;
-      }
-    });
-  }
-
-  // --- Start Refactored Extraction Logic ---
-
-  // Helper to process object properties into a given target object
-  private processPropertyInto(prop: t.ObjectProperty, targetObject: Record<string, any>): void {
-      const key = t.isIdentifier(prop.key) ? prop.key.name :
-                 t.isStringLiteral(prop.key) ? prop.key.value : null;
-      if (!key) return;
-
-      const valueNode = prop.value;
-      const processedValue = this.processNodeValue(valueNode); // Use recursive processing
-
-      // Add to targetObject only if processing yielded a non-null value
-      if (processedValue !== null) {
-          targetObject[key] = processedValue;
-      }
-  }
-
-  // Recursive function to process any AST node into its JS equivalent
-  private processNodeValue(node: t.Node | null): any { // Allow null for array elements
-      if (node === null) {
-          return null; // Handle null directly (e.g., from sparse arrays)
-      }
-      if (t.isStringLiteral(node)) {
-          // Return raw value; empty strings are valid JSON values
-          return node.value;
-      } else if (t.isTemplateLiteral(node)) {
-          // Return joined value; treat empty result as empty string
-          return node.quasis.map(quasi => quasi.value.raw).join('{{}}');
-      } else if (t.isNumericLiteral(node) || t.isBooleanLiteral(node)) {
-          return node.value;
-      } else if (t.isNullLiteral(node)) {
-          return null;
-      } else if (t.isObjectExpression(node)) {
-          const objResult: Record<string, any> = {};
-          node.properties.forEach(prop => {
-              if (t.isObjectProperty(prop)) {
-                  this.processPropertyInto(prop, objResult);
-              }
-              // Ignore SpreadElement, ObjectMethod etc. for now
-          });
-          // Return object even if empty, as empty objects are valid JSON
-          return objResult;
-      } else if (t.isArrayExpression(node)) {
-          const arrayResult: any[] = [];
-          node.elements.forEach(element => {
-              // Process element recursively and push result
-              // element can be null for sparse arrays e.g., [1,,3]
-              arrayResult.push(this.processNodeValue(element));
-          });
-          // Return array even if empty
-          return arrayResult;
-      } else if (t.isIdentifier(node) && node.name === 'undefined') {
-           return null; // Represent undefined as null in JSON
-      } else if (t.isUnaryExpression(node) && node.operator === 'void' && t.isNumericLiteral(node.argument) && node.argument.value === 0) {
-           return null; // Handle `void 0` as null/undefined
-      }
-
-      // Return null for unhandled node types (e.g., FunctionExpression, JSXElement)
-      // Consider logging a warning for unexpected types if needed during debugging
-      // console.warn(`Unhandled AST node type during extraction: ${node.type}`);
-      return null;
-  }
-
-  // Refactored extractDataContent using the new recursive processor
-  private async extractDataContent(sourceCode: string): Promise<Record<string, any>> {
-      const ast = parser.parse(sourceCode, {
-          sourceType: 'module',
-          plugins: ['typescript', 'jsx'], // Add other plugins if needed ('classProperties', 'objectRestSpread', etc.)
-          errorRecovery: true, // Attempt to parse even with minor errors
-      });
-
-      let extractedData: Record<string, any> | null = null;
-
-      // First, try to extract t() function calls from React components
-      const translationCalls = this.extractTranslationCalls(ast);
-      if (Object.keys(translationCalls).length > 0) {
-          return translationCalls;
-      }
-
-      // If no translation calls found, fall back to the original implementation
-      traverse(ast, {
-          ExportDefaultDeclaration: (path: NodePath<t.ExportDefaultDeclaration>) => {
-              const declaration = path.node.declaration;
-
-              // Handle direct object export: export default { ... }
-              if (t.isObjectExpression(declaration)) {
-                  const processed = this.processNodeValue(declaration);
-                  if (processed && typeof processed === 'object' && !Array.isArray(processed)) {
-                      extractedData = processed;
-                  }
-                  path.stop(); // Stop traversal once default export object is processed
-              }
-              // Handle export default identifier pointing to an object
-              else if (t.isIdentifier(declaration)) {
-                 const binding = path.scope.getBinding(declaration.name);
-                 if (binding && t.isVariableDeclarator(binding.path.node) && binding.path.node.init && t.isObjectExpression(binding.path.node.init)) {
-                      const processed = this.processNodeValue(binding.path.node.init);
-                      if (processed && typeof processed === 'object' && !Array.isArray(processed)) {
-                         extractedData = processed;
-                      }
-                      path.stop();
-                 }
-              }
-          }
-      });
-
-      return extractedData || {}; // Return extracted data or empty object
-  }
-
-  // Extract t() function calls from React components
-  private extractTranslationCalls(ast: t.File): Record<string, any> {
-      const translations: Record<string, any> = {};
-      let translationNamespace: string | null = null;
-      
-      // First, try to identify the namespace used with useTranslations
-      traverse(ast, {
-          CallExpression(path: NodePath<t.CallExpression>) {
-              if (
-                  t.isIdentifier(path.node.callee) && 
-                  path.node.callee.name === 'useTranslations' &&
-                  path.node.arguments.length > 0 &&
-                  t.isStringLiteral(path.node.arguments[0])
-              ) {
-                  translationNamespace = path.node.arguments[0].value;
-              }
-          }
-      });
-      
-      // Extract t() function calls
-      traverse(ast, {
-          CallExpression(path: NodePath<t.CallExpression>) {
-              if (
-                  t.isIdentifier(path.node.callee) && 
-                  path.node.callee.name === 't' &&
-                  path.node.arguments.length > 0 &&
-                  t.isStringLiteral(path.node.arguments[0])
-              ) {
-                  const key = path.node.arguments[0].value;
-                  let defaultValue = null;
-                  
-                  // Check for default value in logical OR expression: t('key') || 'Default value'
-                  if (
-                      path.parent && 
-                      t.isLogicalExpression(path.parent) && 
-                      path.parent.operator === '||' &&
-                      path.parent.left === path.node &&
-                      t.isStringLiteral(path.parent.right)
-                  ) {
-                      defaultValue = path.parent.right.value;
-                  }
-                  
-                  // Add namespace prefix if available
-                  const fullKey = translationNamespace ? `${translationNamespace}.${key}` : key;
-                  
-                  // Only add default value if it exists
-                  if (defaultValue !== null) {
-                      translations[fullKey] = defaultValue;
-                  } else {
-                      translations[fullKey] = "";  // Empty string for keys without default values
-                  }
-              }
-          }
-      });
-      
-      return translations;
+    }
   }
 
-  // --- End Refactored Extraction Logic ---
-
-  // Deep merge function (unchanged, seems okay)
-  private async mergeDeep(target: any, source: any): Promise<any> {
-    const isObject = (item: any): item is Record<string, any> => item && typeof item === 'object' && !Array.isArray(item);
-
-    let output = Object.assign({}, target); // Don't modify target directly
-    if (isObject(target) && isObject(source)) {
-      Object.keys(source).forEach(key => {
-        if (isObject(source[key])) {
-          if (!(key in target)) {
-            Object.assign(output, { [key]: source[key] }); // Source is new object
-          } else {
-             output[key] = this.mergeDeep(target[key], source[key]); // Recurse
-          }
-        } else if (Array.isArray(source[key]) && Array.isArray(target[key])) {
-           // Optional: Basic array merge (concatenate unique simple values) - adjust if needed
-           // For simple concatenation: output[key] = target[key].concat(source[key]);
-           // For overwrite (current behavior): Object.assign(output, { [key]: source[key] });
-           // Let's stick to overwrite for simplicity unless specific merge is required
-           Object.assign(output, { [key]: source[key] });
-        }
-        else {
-          Object.assign(output, { [key]: source[key] }); // Overwrite non-object/array properties
-        }
-      });
-    } else {
-       // If target is not an object, source completely replaces it (handles initial case)
-       output = source;
-    }
-    return output;
+  // MCP response of a core result; errors stay text content like any other result
+  private async respond(pending: Promise<ToolResult>): Promise<any> {
+    const result = await pending;
+    return {
+      content: [
+        {
+          type: 'text',
+          text: result.text,
+        },
+      ],
+      ...(result.structured ? { structuredContent: result.structured } : {}),
+    } as any;
   }
 
   // Added for testing - get the handler for the given schema
@@ -383,96 +972,7 @@ class DataMigratorServer {
 
   // Added for testing - direct access to handler functions
   getCallToolHandler(): (request: CallToolRequest) => Promise<any> {
-    // This directly implements the handler logic without relying on internal server structure
-    return async (request: CallToolRequest) => {
-      const args = request.params.arguments as unknown as ExtractI18nArgs;
-      const { sourcePath } = args;
-
-      try {
-        const sourceCode = await fs.readFile(sourcePath, 'utf-8');
-
-        if (request.params.name === 'extract_i18n') {
-          const { targetPath } = args;
-          const dataContent = await this.extractDataContent(sourceCode);
-
-          // Check if extraction yielded any data
-          if (Object.keys(dataContent).length === 0) {
-             return {
-               content: [{ type: 'text', text: `No data extracted from ${sourcePath}. Target file ${targetPath} not modified.` }],
-             } as any;
-          }
-
-          // Create target directory if it doesn't exist
-          await fs.mkdir(path.dirname(targetPath), { recursive: true });
-
-          // Load existing translations if file exists
-          let existingContent: Record<string, any> = {};
-          try {
-            const existingFileContent = await fs.readFile(targetPath, 'utf-8');
-            existingContent = JSON.parse(existingFileContent);
-          } catch (error: unknown) {
-            const err = error as Error & { code?: string };
-            // File doesn't exist or is invalid JSON, use empty object
-            if (err.code !== 'ENOENT') {
-                console.warn(`Warning: Could not parse existing target file ${targetPath}. Starting fresh. Error: ${err.message}`);
-            }
-          }
-
-          // Merge new translations with existing ones
-          const mergedContent = await this.mergeDeep(existingContent, dataContent);
-
-          // Write merged content to JSON file
-          await fs.writeFile(
-            targetPath,
-            JSON.stringify(mergedContent, null, 2),
-            'utf-8'
-          );
-
-          // Check env var dynamically before replacing source file content
-          const disableSourceReplacement = process.env.DISABLE_SOURCE_REPLACEMENT === 'true';
-          if (!disableSourceReplacement) {
-            const absoluteTargetPath = path.resolve(targetPath);
-            await fs.writeFile(
-              sourcePath,
-              `MIGRATED TO ${absoluteTargetPath}${WARNING_MESSAGE}`,
-              'utf-8'
-            );
-          }
-
-          const successMessage = `Successfully merged ${Object.keys(dataContent).length} top-level entries to ${path.resolve(targetPath)}${
-            !disableSourceReplacement ? `. Source file replaced with "MIGRATED TO ${path.resolve(targetPath)}"` : ''
-          }`;
-
-          return {
-            content: [
-              {
-                type: 'text',
-                text: successMessage,
-              },
-            ],
-          } as any;
-        }
-
-        return {
-          content: [
-            {
-              type: 'text',
-              text: `Invalid tool name: ${request.params.name}`, // More informative message
-            },
-          ],
-        } as any;
-      } catch (error: unknown) { // Catch specific errors if possible
-        const err = error as Error;
-        return {
-          content: [
-            {
-              type: 'text',
-              text: `Error processing ${sourcePath}: ${err instanceof Error ? err.message : String(err)}`,
-            },
-          ],
-        } as any;
-      }
-    };
+    return (request: CallToolRequest) => this.handleCallTool(request);
   }
 
   async run() {
@@ -0,0 +1,195 @@
+import * as t from '@babel/types';
+import { printIcu } from './icu.js';
+
+// "mustache" writes {{name}} (i18next, vue-i18n), "icu" writes ICU MessageFormat {name} with plural/select
+export type PlaceholderStyle = 'mustache' | 'icu';
+
+export interface InterpolatedMessage {
+  message: string;
+  placeholders: Record<string, string>; // Placeholder name -> original expression source
+}
+
+// Name a placeholder after its expression: user.name -> userName, items.length -> itemsLength, format(d) -> format
+export function placeholderName(node: t.Node): string {
+  const parts: string[] = [];
+  let current: t.Node = node;
+  while (true) {
+    if (t.isIdentifier(current)) {
+      parts.unshift(current.name);
+      break;
+    } else if (t.isMemberExpression(current) || t.isOptionalMemberExpression(current)) {
+      if (!current.computed && t.isIdentifier(current.property)) parts.unshift(current.property.name);
+      current = current.object;
+    } else if (t.isCallExpression(current) || t.isOptionalCallExpression(current)) {
+      current = current.callee;
+    } else if (t.isTSAsExpression(current) || t.isTSNonNullExpression(current)) {
+      current = current.expression;
+    } else {
+      break;
+    }
+  }
+  const name = parts
+    .map((part, index) => index === 0 ? part : part.charAt(0).toUpperCase() + part.slice(1))
+    .join('');
+  return name || 'value';
+}
+
+interface PluralCase {
+  selector: string; // "one", "=0", ...
+  branch: t.Node;
+}
+
+function isSubject(node: t.Node): boolean {
+  return t.isIdentifier(node) || t.isMemberExpression(node) || t.isOptionalMemberExpression(node);
+}
+
+// Split `count === 1` / `1 === count` into subject and numeric value
+function numericComparison(test: t.Node): { subject: t.Node; operator: string; value: number } | null {
+  if (!t.isBinaryExpression(test)) return null;
+  if (t.isNumericLiteral(test.right) && isSubject(test.left)) {
+    return { subject: test.left, operator: test.operator, value: test.right.value };
+  }
+  if (t.isNumericLiteral(test.left) && isSubject(test.right)) {
+    return { subject: test.right, operator: test.operator, value: test.left.value };
+  }
+  return null;
+}
+
+// Split `kind === 'admin'` into subject and string value
+function stringComparison(test: t.Node): { subject: t.Node; value: string } | null {
+  if (!t.isBinaryExpression(test) || (test.operator !== '===' && test.operator !== '==')) return null;
+  if (t.isStringLiteral(test.right) && isSubject(test.left)) return { subject: test.left, value: test.right.value };
+  if (t.isStringLiteral(test.left) && isSubject(test.right)) return { subject: test.right, value: test.left.value };
+  return null;
+}
+
+class MessageBuilder {
+  placeholders: Record<string, string> = {};
+
+  constructor(private sourceCode: string, private style: PlaceholderStyle, private constants: Map<t.Node, string>) {}
+
+  private source(node: t.Node): string {
+    return this.sourceCode.slice(node.start!, node.end!);
+  }
+
+  // Register an expression and return its placeholder name, reusing names for identical expressions
+  private name(node: t.Node, base = placeholderName(node)): string {
+    const expression = this.source(node);
+    const existing = Object.keys(this.placeholders).find(name => this.placeholders[name] === expression);
+    if (existing) return existing;
+    let name = base;
+    for (let index = 2; name in this.placeholders; index++) name = `${base}${index}`;
+    this.placeholders[name] = expression;
+    return name;
+  }
+
+  private text(value: string, inPlural: boolean): string {
+    // Braces (and "#" in plural branches) are syntax in ICU messages and have to be quoted
+    return this.style === 'icu' ? printIcu([{ type: 'text', value }], inPlural) : value;
+  }
+
+  private placeholder(node: t.Node, base?: string): string {
+    const name = this.name(node, base);
+    return this.style === 'icu' ? `{${name}}` : `{{${name}}}`;
+  }
+
+  // A ternary that can't be expressed as plural/select becomes one placeholder named after what it tests
+  private conditionalPlaceholder(node: t.ConditionalExpression): string {
+    const test = node.test;
+    const subject = t.isBinaryExpression(test) && isSubject(test.left) ? test.left : test;
+    return this.placeholder(node, `${placeholderName(subject)}Text`);
+  }
+
+  // Build the message for an expression; pluralSubject is the expression replaced by # inside plural branches
+  message(node: t.Node, pluralSubject: string | null = null): string {
+    const inPlural = pluralSubject !== null;
+    if (t.isStringLiteral(node)) return this.text(node.value, inPlural);
+    const constant = this.constants.get(node);
+    if (constant !== undefined) return this.text(constant, inPlural);
+    if (t.isTemplateLiteral(node)) {
+      return node.quasis.map((quasi, index) => {
+        const text = this.text(quasi.value.cooked ?? quasi.value.raw, inPlural);
+        const expression = node.expressions[index];
+        return expression ? text + this.message(expression, pluralSubject) : text;
+      }).join('');
+    }
+    if (pluralSubject !== null && this.source(node) === pluralSubject) return '#';
+    if (t.isConditionalExpression(node)) {
+      if (this.style === 'icu') return this.plural(node) ?? this.select(node, pluralSubject);
+      return this.conditionalPlaceholder(node);
+    }
+    return this.placeholder(node);
+  }
+
+  // count === 1 ? 'item' : 'items' -> {count, plural, one {item} other {items}}, chained ternaries included
+  private plural(node: t.ConditionalExpression): string | null {
+    const first = numericComparison(node.test);
+    if (!first) return null;
+    const subject = this.source(first.subject);
+
+    // Negated forms only make sense as a single level: count !== 1 ? 'items' : 'item'
+    if ((first.operator === '!==' || first.operator === '!=' || first.operator === '>') && first.value === 1) {
+      return this.pluralMessage(first.subject, [{ selector: 'one', branch: node.alternate }], node.consequent);
+    }
+
+    const cases: PluralCase[] = [];
+    let current: t.Node = node;
+    while (t.isConditionalExpression(current)) {
+      const comparison = numericComparison(current.test);
+      if (!comparison || this.source(comparison.subject) !== subject || (comparison.operator !== '===' && comparison.operator !== '==')) break;
+      cases.push({ selector: comparison.value === 1 ? 'one' : `=${comparison.value}`, branch: current.consequent });
+      current = current.alternate;
+    }
+    if (cases.length === 0) return null;
+    return this.pluralMessage(first.subject, cases, current);
+  }
+
+  private pluralMessage(subject: t.Node, cases: PluralCase[], other: t.Node): string {
+    const source = this.source(subject);
+    const branches = [...cases, { selector: 'other', branch: other }]
+      .map(({ selector, branch }) => `${selector} {${this.message(branch, source)}}`);
+    return `{${this.name(subject)}, plural, ${branches.join(' ')}}`;
+  }
+
+  // isAdmin ? 'Admin' : 'User' -> {isAdmin, select, true {Admin} other {User}}, role === 'x' chains included
+  // Inside a plural branch, # still stands for the plural subject in its branches
+  private select(node: t.ConditionalExpression, pluralSubject: string | null): string {
+    const first = stringComparison(node.test);
+    if (!first) {
+      if (!isSubject(node.test)) return this.conditionalPlaceholder(node);
+      const [consequent, alternate] = [node.consequent, node.alternate].map(branch => this.message(branch, pluralSubject));
+      return `{${this.name(node.test)}, select, true {${consequent}} other {${alternate}}}`;
+    }
+
+    const subject = this.source(first.subject);
+    const branches: string[] = [];
+    let current: t.Node = node;
+    while (t.isConditionalExpression(current)) {
+      const comparison = stringComparison(current.test);
+      if (!comparison || this.source(comparison.subject) !== subject) break;
+      branches.push(`${comparison.value} {${this.message(current.consequent, pluralSubject)}}`);
+      current = current.alternate;
+    }
+    branches.push(`other {${this.message(current, pluralSubject)}}`);
+    return `{${this.name(first.subject)}, select, ${branches.join(' ')}}`;
+  }
+}
+
+// Turn a template literal (or, in ICU mode, a ternary) into a message with named placeholders
+export function interpolate(
+  node: t.Node,
+  sourceCode: string,
+  style: PlaceholderStyle = 'mustache',
+  constants = new Map<t.Node, string>() // Expressions known to hold a string, written as text
+): InterpolatedMessage | null {
+  if (!t.isTemplateLiteral(node) && !(style === 'icu' && t.isConditionalExpression(node))) return null;
+  const builder = new MessageBuilder(sourceCode, style, constants);
+  const message = builder.message(node);
+  return { message, placeholders: builder.placeholders };
+}
+
+// Values object for a translation call: { userName: user.name, count }
+export function placeholderArguments(placeholders: Record<string, string>): string {
+  const entries = Object.entries(placeholders).map(([name, expression]) => name === expression ? name : `${name}: ${expression}`);
+  return `{ ${entries.join(', ')} }`;
+}
@@ -0,0 +1,75 @@
+const isObject = (item: any): item is Record<string, any> => item !== null && typeof item === 'object';
+
+// Flatten nested objects (and arrays) into separator-joined keys: { a: { b: 'x' } } -> { 'a.b': 'x' }
+export function flattenKeys(data: Record<string, any>, separator = '.'): Record<string, any> {
+  const result: Record<string, any> = {};
+  const walk = (value: any, prefix: string) => {
+    if (isObject(value) && Object.keys(value).length > 0) {
+      for (const [key, child] of Object.entries(value)) {
+        walk(child, prefix ? `${prefix}${separator}${key}` : key);
+      }
+    } else {
+      result[prefix] = value;
+    }
+  };
+  for (const [key, value] of Object.entries(data)) walk(value, key);
+  return result;
+}
+
+// "nested" writes { a: { b: 'x' } }, "flat" writes { 'a.b': 'x' }
+export type KeyStyle = 'nested' | 'flat';
+
+const isPlainObject = (item: any): item is Record<string, any> => isObject(item) && !Array.isArray(item);
+
+// Objects keyed 0..n-1 came from flattened arrays and turn back into arrays
+function restoreArray(value: Record<string, any>): Record<string, any> | any[] {
+  const keys = Object.keys(value);
+  return keys.length > 0 && keys.every((key, index) => key === String(index)) ? Object.values(value) : value;
+}
+
+// Split separator-joined keys into nested objects at every level: { 'a.b': 'x' } -> { a: { b: 'x' } }
+// A key that would nest below an existing string value is kept joined instead of dropping either value
+export function unflattenKeys(data: Record<string, any>, separator = '.'): Record<string, any> {
+  const result: Record<string, any> = {};
+  for (const [key, value] of Object.entries(data)) {
+    const normalized = isPlainObject(value) ? unflattenKeys(value, separator) : value;
+    const segments = key.split(separator);
+    let target = result;
+    let index = 0;
+    for (; index < segments.length - 1; index++) {
+      const existing = target[segments[index]];
+      if (existing === undefined) target[segments[index]] = {};
+      else if (!isPlainObject(existing)) break;
+      target = target[segments[index]];
+    }
+    const rest = segments.slice(index).join(separator);
+    const existing = target[rest];
+    if (isPlainObject(existing) && isPlainObject(normalized)) {
+      target[rest] = { ...existing, ...normalized };
+    } else if (isPlainObject(existing)) {
+      // A string where nested keys already live: keep the nested keys joined next to it
+      delete target[rest];
+      target[rest] = normalized;
+      for (const [child, childValue] of Object.entries(existing)) target[`${rest}${separator}${child}`] = childValue;
+    } else {
+      target[rest] = normalized;
+    }
+  }
+  const restore = (value: any): any => isPlainObject(value)
+    ? restoreArray(Object.fromEntries(Object.entries(value).map(([key, child]) => [key, restore(child)])))
+    : value;
+  return Object.fromEntries(Object.entries(result).map(([key, value]) => [key, restore(value)]));
+}
+
+// Bring locale data into one layout, whatever mix of dotted and nested keys it has
+export function applyKeyStyle(data: Record<string, any>, style: KeyStyle, separator = '.'): Record<string, any> {
+  return style === 'flat' ? flattenKeys(data, separator) : unflattenKeys(data, separator);
+}
+
+// Layout of existing locale data: nested as soon as any top-level value is an object, flat when a key
+// is separator-joined. Data with neither, such as { title: 'x' }, fits both, so the caller decides
+export function detectKeyStyle(data: Record<string, any>, separator = '.'): KeyStyle | undefined {
+  if (Object.values(data).some(isPlainObject)) return 'nested';
+  if (Object.keys(data).some(key => key.includes(separator))) return 'flat';
+  return undefined;
+}
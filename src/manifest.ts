@@ -0,0 +1,133 @@
+import * as path from 'path';
+import type * as t from '@babel/types';
+
+// Where a key's value or usage is written in source code
+export interface SourceLocation {
+  file: string;
+  line: number;
+  column: number;
+}
+
+// A key an extraction produced, reported per usage (translation calls) or per value (locale modules)
+export interface ExtractedEntry extends SourceLocation {
+  key: string; // Relative to the namespace
+  namespace: string; // '' when the key has no namespace
+  value: any;
+  comment?: string; // Translator comment: a `/* i18n: ... */` comment or the message descriptor's description
+}
+
+// A usage or value extraction left out, and why
+export interface SkippedNode extends SourceLocation {
+  reason: string;
+  key?: string; // Key (or static key prefix) the node belonged to
+  text?: string; // Hardcoded text the codemod did not rewrite
+  nodeType?: string;
+}
+
+export interface ManifestLocation extends SourceLocation {
+  comment?: string;
+}
+
+// A value a tool generated instead of a translator
+export interface MachineGenerated {
+  provider: string; // "pseudo", "copy" or the name of a local translation provider
+  generatedAt: string;
+}
+
+export interface ManifestEntry {
+  comments: string[];
+  locations: ManifestLocation[]; // Files relative to the manifest
+  machineGenerated?: MachineGenerated;
+}
+
+// Key -> source locations, translator comments and generated values, kept next to a locale file as context for translators
+export interface ExtractionManifest {
+  version: 1;
+  localeFile: string; // Relative to the manifest
+  entries: Record<string, ManifestEntry>;
+}
+
+export const MANIFEST_SUFFIX = '.manifest.json';
+
+// locales/en/common.json -> locales/en/common.manifest.json
+export function manifestPath(localePath: string): string {
+  const base = path.basename(localePath, path.extname(localePath));
+  return path.join(path.dirname(localePath), `${base}${MANIFEST_SUFFIX}`);
+}
+
+const TRANSLATOR_COMMENT = /^\s*\**\s*i18n:\s*([\s\S]*?)\s*$/;
+
+// Translator comments of a file by the line they apply to. An "i18n: ..." block or line comment
+// describes the key on the line it ends on and on the line below, so it works above a call or
+// property, inline before the key and as a {/* ... */} container in JSX.
+export function translatorComments(comments: readonly t.Comment[] | null | undefined): Map<number, string> {
+  const byLine = new Map<number, string>();
+  for (const comment of comments || []) {
+    const text = TRANSLATOR_COMMENT.exec(comment.value)?.[1];
+    if (!text || !comment.loc) continue;
+    byLine.set(comment.loc.end.line, text);
+    byLine.set(comment.loc.end.line + 1, text);
+  }
+  return byLine;
+}
+
+/**
+ * Merge the entries of one extraction into a manifest. Locations in the files that were just
+ * extracted are replaced, locations in other files are kept, and keys left without any are dropped.
+ */
+export function mergeManifest(
+  previous: ExtractionManifest | null,
+  manifestFile: string,
+  localeFile: string,
+  sourceFiles: string[],
+  entries: { key: string; location: ManifestLocation }[]
+): ExtractionManifest {
+  const baseDir = path.dirname(manifestFile);
+  const relative = (file: string) => path.relative(baseDir, file).split(path.sep).join('/');
+  const extracted = new Set(sourceFiles.map(relative));
+
+  const locations = new Map<string, ManifestLocation[]>();
+  for (const [key, entry] of Object.entries(previous?.entries || {})) {
+    const kept = entry.locations.filter(location => !extracted.has(location.file));
+    if (kept.length > 0) locations.set(key, kept);
+  }
+  for (const { key, location } of entries) {
+    const list = locations.get(key) || [];
+    list.push({ ...location, file: relative(location.file) });
+    locations.set(key, list);
+  }
+
+  const result: ExtractionManifest = { version: 1, localeFile: relative(localeFile), entries: {} };
+  for (const key of [...locations.keys()].sort()) {
+    const list = locations.get(key)!.sort((a, b) => a.file.localeCompare(b.file) || a.line - b.line || a.column - b.column);
+    const comments = [...new Set(list.map(location => location.comment).filter((comment): comment is string => !!comment))];
+    const machineGenerated = previous?.entries[key]?.machineGenerated;
+    result.entries[key] = { comments, locations: list, ...(machineGenerated ? { machineGenerated } : {}) };
+  }
+  return result;
+}
+
+/**
+ * Tag freshly generated values in a manifest. Entries of keys the locale file no longer has are
+ * dropped; the others keep their locations, comments and earlier tags.
+ */
+export function markGenerated(
+  previous: ExtractionManifest | null,
+  manifestFile: string,
+  localeFile: string,
+  keys: string[], // Every key of the locale file
+  generated: string[],
+  tag: MachineGenerated
+): ExtractionManifest {
+  const present = new Set(keys);
+  const entries: Record<string, ManifestEntry> = {};
+  for (const [key, entry] of Object.entries(previous?.entries || {})) {
+    if (present.has(key)) entries[key] = entry;
+  }
+  for (const key of generated) entries[key] = { ...(entries[key] || { comments: [], locations: [] }), machineGenerated: tag };
+
+  const localePath = path.relative(path.dirname(manifestFile), localeFile).split(path.sep).join('/');
+  const result: ExtractionManifest = { version: 1, localeFile: localePath, entries: {} };
+  for (const key of Object.keys(entries).sort()) result.entries[key] = entries[key];
+  return result;
+}
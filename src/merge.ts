@@ -0,0 +1,127 @@
+// How extracted values are merged into a locale file that already has a value for the same key
+export type MergeStrategy = 'keep-existing' | 'overwrite' | 'fill-empty-only' | 'fail-on-conflict';
+
+export const MERGE_STRATEGIES: MergeStrategy[] = ['keep-existing', 'overwrite', 'fill-empty-only', 'fail-on-conflict'];
+export const DEFAULT_MERGE_STRATEGY: MergeStrategy = 'fill-empty-only';
+
+export interface MergeChange {
+  key: string; // Separator-joined path, array indexes included
+  existing: unknown;
+  incoming: unknown;
+}
+
+export interface MergeReport {
+  added: string[];
+  changed: MergeChange[]; // Existing value replaced by the incoming one
+  conflicts: MergeChange[]; // Existing value kept although the incoming one differs
+  unchanged: string[];
+}
+
+export interface MergeResult {
+  data: Record<string, any>;
+  report: MergeReport;
+}
+
+// Thrown by callers when the fail-on-conflict strategy finds differing values
+export class MergeConflictError extends Error {
+  constructor(public readonly file: string, public readonly conflicts: MergeChange[]) {
+    super(`${conflicts.length} conflicting keys in ${file}: ${conflicts.map(conflict => conflict.key).join(', ')}`);
+    this.name = 'MergeConflictError';
+  }
+}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+// Own keys only: "constructor" or "toString" in a locale file are keys like any other
+function hasKey(value: Record<string, any>, key: string): boolean {
+  return Object.prototype.hasOwnProperty.call(value, key);
+}
+
+function isEmpty(value: unknown): boolean {
+  return value === '' || value === null || value === undefined;
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, index) => isEqual(item, b[index]));
+  }
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const keys = Object.keys(a);
+    return keys.length === Object.keys(b).length && keys.every(key => hasKey(b, key) && isEqual(a[key], b[key]));
+  }
+  return false;
+}
+
+// Leaf keys of a value that is added as a whole, so the report lists what actually appeared
+function leafKeys(value: unknown, key: string, separator: string): string[] {
+  if (isPlainObject(value) && Object.keys(value).length > 0) {
+    return Object.entries(value).flatMap(([child, childValue]) => leafKeys(childValue, `${key}${separator}${child}`, separator));
+  }
+  return [key];
+}
+
+/**
+ * Merge incoming locale data into existing data without mutating either.
+ *
+ * Plain objects are merged key by key. Arrays, and values whose types differ (a string
+ * where the file has an object), are compared as a whole and never merged element-wise.
+ * An empty incoming value (a `t('key')` without default) never replaces an existing value.
+ * Any other difference is resolved by the strategy; fail-on-conflict keeps the existing
+ * value and leaves it to the caller to reject the result. Report keys are joined with the separator.
+ */
+export function mergeLocaleData(
+  existing: Record<string, any>,
+  incoming: Record<string, any>,
+  strategy: MergeStrategy = DEFAULT_MERGE_STRATEGY,
+  separator = '.'
+): MergeResult {
+  const report: MergeReport = { added: [], changed: [], conflicts: [], unchanged: [] };
+
+  const merge = (target: Record<string, any>, source: Record<string, any>, prefix: string): Record<string, any> => {
+    const output: Record<string, any> = { ...target };
+    for (const [name, value] of Object.entries(source)) {
+      const key = prefix ? `${prefix}${separator}${name}` : name;
+      if (!hasKey(target, name)) {
+        output[name] = value;
+        report.added.push(...leafKeys(value, key, separator));
+        continue;
+      }
+
+      const current = target[name];
+      if (isPlainObject(current) && isPlainObject(value)) {
+        output[name] = merge(current, value, key);
+      } else if (isEqual(current, value) || isEmpty(value)) {
+        report.unchanged.push(key);
+      } else if (strategy === 'overwrite' || (strategy === 'fill-empty-only' && isEmpty(current))) {
+        output[name] = value;
+        report.changed.push({ key, existing: current, incoming: value });
+      } else {
+        report.conflicts.push({ key, existing: current, incoming: value });
+      }
+    }
+    return output;
+  };
+
+  return { data: merge(existing, incoming, ''), report };
+}
+
+// Human-readable summary for tool responses; the brief form leaves out added and unchanged keys
+export function formatMergeReport(report: MergeReport, brief = false): string[] {
+  const show = (value: unknown) => JSON.stringify(value);
+  const lines = [
+    `Added ${report.added.length}, changed ${report.changed.length}, conflicting ${report.conflicts.length}, unchanged ${report.unchanged.length} keys.`,
+  ];
+  if (report.added.length > 0 && !brief) lines.push('Added:', ...report.added.map(key => `- ${key}`));
+  if (report.changed.length > 0) {
+    lines.push('Changed:', ...report.changed.map(change => `- ${change.key}: ${show(change.existing)} → ${show(change.incoming)}`));
+  }
+  if (report.conflicts.length > 0) {
+    lines.push('Conflicting (existing value kept):', ...report.conflicts.map(conflict =>
+      `- ${conflict.key}: ${show(conflict.existing)} vs extracted ${show(conflict.incoming)}`));
+  }
+  if (report.unchanged.length > 0 && !brief) lines.push(`Unchanged: ${report.unchanged.join(', ')}`);
+  return lines;
+}
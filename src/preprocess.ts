@@ -0,0 +1,371 @@
+import * as parser from '@babel/parser';
+import * as t from '@babel/types';
+import * as path from 'path';
+
+// Source files that mix markup with JavaScript in script blocks and template expressions
+export const TEMPLATE_EXTENSIONS = ['.vue', '.svelte', '.html', '.mdx'];
+
+type TemplateSyntax = 'vue' | 'svelte' | 'angular' | 'mdx';
+
+const SYNTAXES: Record<string, TemplateSyntax> = { '.vue': 'vue', '.svelte': 'svelte', '.html': 'angular', '.mdx': 'mdx' };
+
+// Elements whose content is neither markup nor script, e.g. Vue's <i18n> custom block
+const RAW_TEXT_ELEMENTS = ['style', 'i18n'];
+
+// Calls that translation directives and pipes stand for, so adapters find them like calls in script code
+const DIRECTIVE_CALLS: Record<string, string[]> = {
+  'v-t': ['$t'], // vue-i18n: <p v-t="'key'">
+  '[translate]': ['translate', 'instant'], // ngx-translate: <p [translate]="'key'">
+};
+const TRANSLATE_PIPE = 'translate'; // ngx-translate: {{ 'key' | translate }}
+const PIPE_CALL = ['translate', 'instant'];
+
+// A range of the file that holds JavaScript
+interface Block {
+  kind: 'script' | 'expression';
+  start: number;
+  end: number;
+  directive?: string; // Attribute of a translation directive, see DIRECTIVE_CALLS
+}
+
+export function isTemplateSource(filePath: string | null | undefined): boolean {
+  return !!filePath && path.extname(filePath).toLowerCase() in SYNTAXES;
+}
+
+// Index just past the string literal starting at `start`, template literal substitutions included
+function stringEnd(source: string, start: number): number {
+  const quote = source[start];
+  for (let i = start + 1; i < source.length; i++) {
+    if (source[i] === '\\') {
+      i++;
+    } else if (source[i] === quote) {
+      return i + 1;
+    } else if (quote === '`' && source.startsWith('${', i)) {
+      const end = expressionEnd(source, i + 2, '}');
+      if (end === -1) return source.length;
+      i = end;
+    }
+  }
+  return source.length;
+}
+
+// Index of the `close` that ends the expression starting at `start`, skipping strings and nested braces; -1 if none
+function expressionEnd(source: string, start: number, close: '}' | '}}'): number {
+  let depth = 0;
+  for (let i = start; i < source.length; i++) {
+    const char = source[i];
+    if (char === '"' || char === "'" || char === '`') {
+      i = stringEnd(source, i) - 1;
+    } else if (char === '{') {
+      depth++;
+    } else if (char === '}') {
+      if (depth > 0) depth--;
+      else if (close === '}' || source[i + 1] === '}') return i;
+    }
+  }
+  return -1;
+}
+
+// [start, end) ranges between the separators outside strings and brackets; "|" doesn't split "||"
+function splitTopLevel(source: string, start: number, end: number, separator: '|' | ':'): [number, number][] {
+  const ranges: [number, number][] = [];
+  let depth = 0;
+  let from = start;
+  for (let i = start; i < end; i++) {
+    const char = source[i];
+    if (char === '"' || char === "'" || char === '`') {
+      i = Math.min(stringEnd(source, i), end) - 1;
+    } else if ('([{'.includes(char)) {
+      depth++;
+    } else if (')]}'.includes(char)) {
+      depth--;
+    } else if (depth === 0 && char === separator && !(separator === '|' && (source[i + 1] === '|' || source[i - 1] === '|'))) {
+      ranges.push([from, i]);
+      from = i + 1;
+    }
+  }
+  ranges.push([from, end]);
+  return ranges;
+}
+
+// Svelte logic blocks and tags hold an expression after their keyword: {#if x}, {:else if x}, {#each xs as x}, {@html x}
+function svelteExpression(source: string, start: number, end: number): Block | null {
+  const content = source.slice(start, end);
+  if (/^\s*\//.test(content)) return null;
+  const tag = /^\s*[#:@](?:else\s+if|[a-z]+)/.exec(content);
+  if (!tag) return { kind: 'expression', start, end };
+  const clause = /\s(?:as|then|catch)\s/.exec(content);
+  const expressionLength = clause && clause.index >= tag[0].length ? clause.index : content.length;
+  if (content.slice(tag[0].length, expressionLength).trim() === '') return null;
+  return { kind: 'expression', start: start + tag[0].length, end: start + expressionLength };
+}
+
+// Add the expression of the {{ }} interpolation (a { } one in Svelte and MDX) at `start` and return the index after it
+function interpolation(source: string, start: number, syntax: TemplateSyntax, blocks: Block[]): number {
+  const open = syntax === 'svelte' || syntax === 'mdx' ? 1 : 2;
+  const end = expressionEnd(source, start + open, open === 1 ? '}' : '}}');
+  if (end === -1) return start + open;
+  const block = syntax === 'svelte' ? svelteExpression(source, start + 1, end) : { kind: 'expression' as const, start: start + open, end };
+  if (block) blocks.push(block);
+  return end + open;
+}
+
+// Add the interpolations inside an attribute value or text range
+function interpolations(source: string, start: number, end: number, syntax: TemplateSyntax, blocks: Block[]): void {
+  const opening = syntax === 'svelte' ? '{' : '{{';
+  for (let i = source.indexOf(opening, start); i !== -1 && i < end; i = source.indexOf(opening, i)) {
+    i = interpolation(source, i, syntax, blocks);
+  }
+}
+
+// Attributes whose value is an expression: Vue's :prop, @event, #slot and v-*; Angular's [prop], (event), *directive
+function isBinding(name: string, syntax: TemplateSyntax): boolean {
+  if (syntax === 'vue') return /^(?:[:@#]|v-)/.test(name);
+  return /^(?:\[.+\]|\(.+\)|\*|bind-|on-|bindon-)/.test(name);
+}
+
+// Whether a <script> element holds JavaScript or TypeScript rather than JSON, a template or another language
+function isScript(attributes: Record<string, string>): boolean {
+  if (attributes.type !== undefined && !/javascript|typescript|module/i.test(attributes.type)) return false;
+  return attributes.lang === undefined || ['js', 'ts', 'jsx', 'tsx'].includes(attributes.lang);
+}
+
+// Add the blocks of the tag at `start`, and of the script it opens, and return the index after them
+function tagBlocks(source: string, start: number, syntax: TemplateSyntax, blocks: Block[]): number {
+  const name = /^<([A-Za-z][\w:.-]*)/.exec(source.slice(start, start + 128))![1];
+  const attributes: Record<string, string> = {};
+  let i = start + name.length + 1;
+  while (i < source.length && source[i] !== '>') {
+    if (/[\s/]/.test(source[i])) {
+      i++;
+    } else if (syntax === 'svelte' && source[i] === '{') {
+      i = interpolation(source, i, syntax, blocks);
+    } else {
+      const attribute = /^[^\s=>/"'{]+/.exec(source.slice(i, i + 256))?.[0] ?? source[i];
+      i += attribute.length;
+      const equals = /^\s*=\s*/.exec(source.slice(i, i + 64));
+      if (!equals) continue;
+      i += equals[0].length;
+
+      let valueStart = i;
+      let valueEnd: number;
+      if (source[i] === '"' || source[i] === "'") {
+        valueStart = i + 1;
+        valueEnd = source.indexOf(source[i], valueStart);
+        if (valueEnd === -1) valueEnd = source.length;
+        i = valueEnd + 1;
+      } else if (syntax === 'svelte' && source[i] === '{') {
+        i = interpolation(source, i, syntax, blocks);
+        continue;
+      } else {
+        valueEnd = i + (/^[^\s>]*/.exec(source.slice(i, i + 256))?.[0].length ?? 0);
+        i = valueEnd;
+      }
+      attributes[attribute] = source.slice(valueStart, valueEnd);
+
+      if (syntax !== 'svelte' && isBinding(attribute, syntax)) {
+        blocks.push({ kind: 'expression', start: valueStart, end: valueEnd, ...(attribute in DIRECTIVE_CALLS ? { directive: attribute } : {}) });
+      } else {
+        interpolations(source, valueStart, valueEnd, syntax, blocks);
+      }
+    }
+  }
+  const contentStart = i + 1;
+  if (source[i - 1] === '/') return contentStart;
+
+  const element = name.toLowerCase();
+  if (element !== 'script' && !RAW_TEXT_ELEMENTS.includes(element)) return contentStart;
+  const closing = new RegExp(`</${element}\\s*>`, 'ig');
+  closing.lastIndex = contentStart;
+  const match = closing.exec(source);
+  const contentEnd = match ? match.index : source.length;
+  if (element === 'script' && isScript(attributes)) blocks.push({ kind: 'script', start: contentStart, end: contentEnd });
+  return match ? match.index + match[0].length : source.length;
+}
+
+// Script blocks and template expressions of a Vue, Svelte or Angular template file
+function markupBlocks(source: string, syntax: TemplateSyntax): Block[] {
+  const blocks: Block[] = [];
+  let i = 0;
+  while (i < source.length) {
+    if (source.startsWith('<!--', i)) {
+      const end = source.indexOf('-->', i + 4);
+      i = end === -1 ? source.length : end + 3;
+    } else if (source[i] === '<' && /[A-Za-z]/.test(source[i + 1] ?? '')) {
+      i = tagBlocks(source, i, syntax, blocks);
+    } else if (syntax === 'svelte' ? source[i] === '{' : source.startsWith('{{', i)) {
+      i = interpolation(source, i, syntax, blocks);
+    } else {
+      i++;
+    }
+  }
+  return blocks;
+}
+
+// ESM blocks (import/export lines up to the next blank line) and { } expressions of an MDX file, outside of code
+function mdxBlocks(source: string): Block[] {
+  const blocks: Block[] = [];
+  let fence: string | null = null;
+  let i = 0;
+  while (i < source.length) {
+    if (i === 0 || source[i - 1] === '\n') {
+      const newline = source.indexOf('\n', i);
+      const lineEnd = newline === -1 ? source.length : newline;
+      const line = source.slice(i, lineEnd);
+      const fenceMarker = /^\s*(`{3,}|~{3,})/.exec(line)?.[1];
+      if (fence !== null || fenceMarker) {
+        if (fence === null) fence = fenceMarker!;
+        else if (fenceMarker && fenceMarker[0] === fence[0] && fenceMarker.length >= fence.length) fence = null;
+        i = lineEnd + 1;
+        continue;
+      }
+      if (/^(?:import|export)\b/.test(line)) {
+        const blankLine = /\n[ \t]*(?:\n|$)/g;
+        blankLine.lastIndex = i;
+        const end = blankLine.exec(source)?.index ?? source.length;
+        blocks.push({ kind: 'script', start: i, end });
+        i = end;
+        continue;
+      }
+    }
+
+    if (source[i] === '`') {
+      // Inline code ends at the next run of as many backticks
+      const run = /^`+/.exec(source.slice(i, i + 16))![0];
+      const end = source.indexOf(run, i + run.length);
+      i = end === -1 ? i + run.length : end + run.length;
+    } else if (source[i] === '{') {
+      i = interpolation(source, i, 'mdx', blocks);
+    } else {
+      i++;
+    }
+  }
+  return blocks;
+}
+
+// "vue-i18n:useI18n" for import { useI18n } from 'vue-i18n'; two imports of a name are the same binding when these match
+function importOrigin(declaration: t.ImportDeclaration, specifier: t.ImportDeclaration['specifiers'][number]): string {
+  if (!t.isImportSpecifier(specifier)) return `${declaration.source.value}:${specifier.type}`;
+  return `${declaration.source.value}:${t.isIdentifier(specifier.imported) ? specifier.imported.name : specifier.imported.value}`;
+}
+
+/**
+ * Statements of a script block, parsed as its own program, ready to join the blocks before it in
+ * one program. A binding an earlier block imported the same way is imported once, as in the compiled
+ * component (Vue's <script> and <script setup> often both import it). `declared` maps the top-level
+ * names of the earlier blocks to their import origin, null for other declarations.
+ */
+function mergeScript(statements: t.Statement[], declared: Map<string, string | null>): t.Statement[] {
+  const declare = (name: string, origin: string | null) => {
+    if (declared.has(name)) throw new Error(`Identifier '${name}' has already been declared in another script block`);
+    declared.set(name, origin);
+  };
+  const merged: t.Statement[] = [];
+  for (const statement of statements) {
+    if (!t.isImportDeclaration(statement)) {
+      // var may be declared again, as in a single program
+      if (!t.isVariableDeclaration(statement, { kind: 'var' })) {
+        for (const name of Object.keys(t.getOuterBindingIdentifiers(statement))) declare(name, null);
+      }
+      merged.push(statement);
+      continue;
+    }
+    const specifiers = statement.specifiers.filter(specifier => {
+      const origin = importOrigin(statement, specifier);
+      if (declared.get(specifier.local.name) === origin) return false;
+      declare(specifier.local.name, origin);
+      return true;
+    });
+    if (specifiers.length === statement.specifiers.length) merged.push(statement);
+    else if (specifiers.length > 0) merged.push({ ...statement, specifiers });
+  }
+  return merged;
+}
+
+/**
+ * Parse a Vue single-file component, Svelte component, Angular template or MDX document into one
+ * program: its script blocks, each parsed on its own and merged, followed by each template
+ * expression as an expression statement.
+ * Every part is parsed at its offset in the file, so node positions (and the line and column of
+ * extracted keys) point into the original file. Template expressions that aren't valid JavaScript,
+ * such as v-for or *ngFor microsyntax, are skipped. Angular pipes are dropped, except translate,
+ * which becomes a translate.instant() call, as do the v-t and [translate] directives.
+ */
+export function parseTemplateSource(sourceCode: string, filePath: string, options: parser.ParserOptions): t.File {
+  const syntax = SYNTAXES[path.extname(filePath).toLowerCase()];
+  const lineStarts = [0];
+  for (let i = 0; i < sourceCode.length; i++) {
+    if (sourceCode[i] === '\n') lineStarts.push(i + 1);
+  }
+  const position = (index: number): t.SourceLocation['start'] => {
+    let low = 0;
+    let high = lineStarts.length - 1;
+    while (low < high) {
+      const middle = Math.ceil((low + high) / 2);
+      if (lineStarts[middle] <= index) low = middle;
+      else high = middle - 1;
+    }
+    return { line: low + 1, column: index - lineStarts[low], index };
+  };
+  const optionsAt = (start: number): parser.ParserOptions => {
+    const { line, column } = position(start);
+    return { ...options, startIndex: start, startLine: line, startColumn: column };
+  };
+  const expressionAt = (start: number, end: number): t.Expression | null => {
+    if (sourceCode.slice(start, end).trim() === '') return null;
+    try {
+      return parser.parseExpression(sourceCode.slice(start, end), { ...optionsAt(start), errorRecovery: false });
+    } catch {
+      return null;
+    }
+  };
+  // A call the template doesn't spell out, spanning the source it was made from
+  const call = (names: string[], args: t.Expression[], start: number, end: number): t.CallExpression => {
+    const identifiers = names.map(name => t.identifier(name));
+    const callee = identifiers.slice(1).reduce<t.Expression>((object, property) => t.memberExpression(object, property), identifiers[0]);
+    return { ...t.callExpression(callee, args), start, end, loc: { start: position(start), end: position(end), filename: filePath, identifierName: undefined } };
+  };
+
+  const body: t.Statement[] = [];
+  const comments: t.Comment[] = [];
+  const declared = new Map<string, string | null>();
+  const blocks = syntax === 'mdx' ? mdxBlocks(sourceCode) : markupBlocks(sourceCode, syntax);
+  for (const block of blocks) {
+    if (block.kind === 'script') {
+      const parsed = parser.parse(sourceCode.slice(block.start, block.end), optionsAt(block.start));
+      body.push(...mergeScript(parsed.program.body, declared));
+      comments.push(...(parsed.comments || []));
+      continue;
+    }
+
+    let expression: t.Expression | null;
+    if (syntax === 'angular') {
+      const [base, ...pipes] = splitTopLevel(sourceCode, block.start, block.end, '|');
+      expression = expressionAt(...base);
+      for (const pipe of pipes) {
+        const [name, ...args] = splitTopLevel(sourceCode, pipe[0], pipe[1], ':');
+        if (!expression || sourceCode.slice(...name).trim() !== TRANSLATE_PIPE) continue;
+        const parsedArgs = args.map(arg => expressionAt(...arg)).filter((arg): arg is t.Expression => arg !== null);
+        expression = call(PIPE_CALL, [expression, ...parsedArgs], expression.start!, pipe[1]);
+      }
+    } else {
+      expression = expressionAt(block.start, block.end);
+    }
+    if (!expression) continue;
+
+    if (block.directive) {
+      // v-t also takes { path: 'key', args }
+      const pathProperty = t.isObjectExpression(expression)
+        ? expression.properties.find((property): property is t.ObjectProperty =>
+            t.isObjectProperty(property) && t.isIdentifier(property.key) && property.key.name === 'path')
+        : undefined;
+      const key = pathProperty && t.isExpression(pathProperty.value) ? pathProperty.value : expression;
+      expression = call(DIRECTIVE_CALLS[block.directive], [key], key.start!, key.end!);
+    }
+    body.push({ ...t.expressionStatement(expression), start: expression.start, end: expression.end, loc: expression.loc });
+  }
+
+  const loc = { start: position(0), end: position(sourceCode.length), filename: filePath, identifierName: undefined };
+  const program = { ...t.program(body, [], 'module'), start: 0, end: sourceCode.length, loc };
+  return { ...t.file(program, comments), start: 0, end: sourceCode.length, loc };
+}
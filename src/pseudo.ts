@@ -0,0 +1,125 @@
+import { IcuSyntaxError, parseIcu, printIcu, type IcuNode } from './icu.js';
+
+export interface PseudoOptions {
+  accents?: boolean; // Swap letters for accented look-alikes (default: true)
+  expansion?: number; // Padding added as a fraction of the visible text length, e.g. 0.3 for +30% (default: 0.3)
+  brackets?: boolean; // Wrap messages in [ ] to spot truncation and concatenation (default: true)
+  rtl?: boolean; // Wrap text in right-to-left override marks to test mirrored layouts (default: false)
+}
+
+export const DEFAULT_EXPANSION = 0.3;
+
+const PLAIN = [...'abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ'];
+const ACCENTED = [...'åƀçđéƒĝĥîĵķĺɱñöþǫŕšţûṽŵẋýžÅƁÇĐÉƑĜĤÎĴĶĹṀÑÖÞǪŔŠŢÛṼŴẊÝŽ'];
+const ACCENT_MAP = new Map(PLAIN.map((char, index) => [char, ACCENTED[index]]));
+
+// U+202E RIGHT-TO-LEFT OVERRIDE ... U+202C POP DIRECTIONAL FORMATTING
+const RTL_START = '\u202E';
+const RTL_END = '\u202C';
+
+// Never changed: {{mustache}} and i18next $t() nesting, HTML and <0> component tags, entities and printf placeholders
+const PROTECTED = /\{\{[^{}]*\}\}|\$t\([^)]*\)|<\/?[A-Za-z0-9][^<>]*>|&(?:[A-Za-z]+|#\d+|#x[0-9A-Fa-f]+);|%(?:\d+\$)?[-+ 0#]*\d*(?:\.\d+)?[@sdifuxXoeEgGc%]/g;
+
+// Same, plus single-brace arguments of messages that aren't valid ICU (mustache ones come first)
+const PROTECTED_BRACES = new RegExp(`${PROTECTED.source}|\\{[^{}]*\\}`, 'g');
+
+class PseudoLocalizer {
+  private accents: boolean;
+  private rtl: boolean;
+
+  constructor(private options: PseudoOptions) {
+    this.accents = options.accents ?? true;
+    this.rtl = options.rtl ?? false;
+  }
+
+  localize(message: string): string {
+    if (message.trim() === '') return message;
+    // {{mustache}} placeholders fail to parse as ICU and fall back to protected tokens
+    if (/[{}]/.test(message)) {
+      try {
+        const nodes = parseIcu(message);
+        return this.frame(printIcu(this.nodes(nodes)), this.visibleLength(nodes));
+      } catch (error: unknown) {
+        if (!(error instanceof IcuSyntaxError)) throw error;
+        return this.frame(this.text(message, PROTECTED_BRACES), this.textLength(message, PROTECTED_BRACES));
+      }
+    }
+    return this.frame(this.text(message, PROTECTED), this.textLength(message, PROTECTED));
+  }
+
+  // Padding and brackets around a transformed message; neither is ICU syntax
+  private frame(body: string, visibleLength: number): string {
+    const padding = '~'.repeat(Math.ceil(visibleLength * (this.options.expansion ?? DEFAULT_EXPANSION)));
+    return this.options.brackets ?? true ? `[${body}${padding}]` : `${body}${padding}`;
+  }
+
+  // Only text nodes change; arguments, selectors and "#" are kept
+  private nodes(nodes: IcuNode[]): IcuNode[] {
+    return nodes.map(node => {
+      if (node.type === 'text') return { type: 'text', value: this.text(node.value, PROTECTED) };
+      if (node.type === 'plural' || node.type === 'selectordinal' || node.type === 'select') {
+        const options = Object.fromEntries(Object.entries(node.options).map(([selector, branch]) => [selector, this.nodes(branch)]));
+        return { ...node, options };
+      }
+      return node;
+    });
+  }
+
+  // Characters a reader sees, counting the longest branch of plurals and selects
+  private visibleLength(nodes: IcuNode[]): number {
+    return nodes.reduce((length, node) => {
+      if (node.type === 'text') return length + this.textLength(node.value, PROTECTED);
+      if (node.type === 'plural' || node.type === 'selectordinal' || node.type === 'select') {
+        return length + Math.max(...Object.values(node.options).map(branch => this.visibleLength(branch)));
+      }
+      return length;
+    }, 0);
+  }
+
+  private text(value: string, protectedPattern: RegExp): string {
+    return this.split(value, protectedPattern).map(({ text, kept }) => kept ? text : this.transform(text)).join('');
+  }
+
+  private textLength(value: string, protectedPattern: RegExp): number {
+    return this.split(value, protectedPattern).reduce((length, { text, kept }) => kept ? length : length + [...text].length, 0);
+  }
+
+  private transform(text: string): string {
+    const accented = this.accents ? [...text].map(char => ACCENT_MAP.get(char) ?? char).join('') : text;
+    return this.rtl && accented.trim() !== '' ? `${RTL_START}${accented}${RTL_END}` : accented;
+  }
+
+  // Text split into runs to transform and protected tokens to keep as they are
+  private split(value: string, protectedPattern: RegExp): { text: string; kept: boolean }[] {
+    const parts: { text: string; kept: boolean }[] = [];
+    let last = 0;
+    for (const match of value.matchAll(protectedPattern)) {
+      if (match.index! > last) parts.push({ text: value.slice(last, match.index), kept: false });
+      parts.push({ text: match[0], kept: true });
+      last = match.index! + match[0].length;
+    }
+    if (last < value.length) parts.push({ text: value.slice(last), kept: false });
+    return parts;
+  }
+}
+
+/**
+ * Pseudo-localize a message: accented letters, padding for text expansion, brackets and optionally
+ * right-to-left override marks, leaving placeholders ({{x}}, ICU arguments, printf), HTML tags and
+ * entities untouched. ICU messages are parsed so only their text changes and they stay valid.
+ */
+export function pseudoLocalize(message: string, options: PseudoOptions = {}): string {
+  return new PseudoLocalizer(options).localize(message);
+}
+
+// Pseudo-localize every string of locale data, keeping its structure and non-string values
+export function pseudoLocalizeData(data: any, options: PseudoOptions = {}): any {
+  const localizer = new PseudoLocalizer(options);
+  const walk = (value: any): any => {
+    if (typeof value === 'string') return localizer.localize(value);
+    if (Array.isArray(value)) return value.map(walk);
+    if (value && typeof value === 'object') return Object.fromEntries(Object.entries(value).map(([key, child]) => [key, walk(child)]));
+    return value;
+  };
+  return walk(data);
+}
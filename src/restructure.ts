@@ -0,0 +1,177 @@
+import type { NodePath } from '@babel/traverse';
+import * as t from '@babel/types';
+import { extractKeys, type AdapterName, type AdapterOptions } from './adapters/index.js';
+import { parseSource, traverse, type ParserPluginName } from './ast.js';
+import { applyEdits, type Edit } from './codemod.js';
+import { applyKeyStyle, detectKeyStyle, flattenKeys, type KeyStyle } from './keys.js';
+import type { NamespaceScope } from './sync.js';
+
+// Rename or move a key subtree: { from: 'Home.title', to: 'Landing.heading' }
+export interface KeyMove {
+  from: string;
+  to: string;
+}
+
+export interface KeyMoveResult {
+  data: Record<string, any>;
+  moved: (KeyMove & { keys: number })[];
+}
+
+export interface KeyReferenceChange {
+  line: number;
+  column: number;
+  from: string;
+  to: string;
+}
+
+export interface KeyReferenceSkip {
+  line: number;
+  column: number;
+  key: string;
+  reason: string;
+}
+
+export interface KeyReferenceOptions extends AdapterOptions {
+  separator?: string;
+  adapters?: AdapterName[];
+  parserPlugins?: ParserPluginName[];
+  filePath?: string; // Source file name; template files have their references rewritten in script and template alike
+  scope?: NamespaceScope; // Moves of a namespace file, relative to its namespace
+}
+
+export interface KeyReferenceResult {
+  code: string;
+  changes: KeyReferenceChange[];
+  skipped: KeyReferenceSkip[];
+}
+
+// Where a moved key ends up, or null when the key is not part of the moved subtree
+export function movedKey(key: string, move: KeyMove, separator = '.'): string | null {
+  if (key === move.from) return move.to;
+  if (key.startsWith(`${move.from}${separator}`)) return `${move.to}${key.slice(move.from.length)}`;
+  return null;
+}
+
+// Whether a key can be added without clashing with an existing key, its parents or its children
+function collides(keys: Set<string>, key: string, separator: string): string | null {
+  if (keys.has(key)) return key;
+  for (const existing of keys) {
+    if (existing.startsWith(`${key}${separator}`) || key.startsWith(`${existing}${separator}`)) return existing;
+  }
+  return null;
+}
+
+// Apply moves one after another, keeping key order, and write the result in the requested (or current) layout
+export function moveKeys(data: Record<string, any>, moves: KeyMove[], style?: KeyStyle, separator = '.'): KeyMoveResult {
+  let entries = Object.entries(flattenKeys(data, separator));
+  const moved: KeyMoveResult['moved'] = [];
+
+  for (const move of moves) {
+    const targets = entries.map(([key]) => movedKey(key, move, separator));
+    const count = targets.filter(target => target !== null).length;
+    if (count === 0) throw new Error(`Key ${move.from} not found`);
+
+    const remaining = new Set(entries.filter((_, index) => targets[index] === null).map(([key]) => key));
+    for (const target of targets) {
+      if (target === null) continue;
+      const clash = collides(remaining, target, separator);
+      if (clash !== null) throw new Error(`Cannot move ${move.from} to ${move.to}: ${clash} already exists`);
+      remaining.add(target);
+    }
+
+    entries = entries.map(([key, value], index) => [targets[index] ?? key, value]);
+    moved.push({ ...move, keys: count });
+  }
+
+  return { data: applyKeyStyle(Object.fromEntries(entries), style || detectKeyStyle(data, separator) || 'nested', separator), moved };
+}
+
+// The string literal holding the key of a translation call, message descriptor or <Trans>/<FormattedMessage> element
+function keyLiteral(node: t.Node): t.StringLiteral | null {
+  const idProperty = (object: t.ObjectExpression) => {
+    const property = object.properties.find((prop): prop is t.ObjectProperty =>
+      t.isObjectProperty(prop) && !prop.computed && t.isIdentifier(prop.key) && prop.key.name === 'id');
+    return property && t.isStringLiteral(property.value) ? property.value : null;
+  };
+  if (t.isCallExpression(node)) {
+    const [first] = node.arguments;
+    if (t.isStringLiteral(first)) return first;
+    return t.isObjectExpression(first) ? idProperty(first) : null;
+  }
+  if (t.isObjectExpression(node)) return idProperty(node);
+  const opening = t.isJSXElement(node) ? node.openingElement : t.isJSXOpeningElement(node) ? node : null;
+  if (opening) {
+    for (const attribute of opening.attributes) {
+      if (!t.isJSXAttribute(attribute) || !t.isJSXIdentifier(attribute.name)) continue;
+      if (!['i18nKey', 'id'].includes(attribute.name.name)) continue;
+      if (t.isStringLiteral(attribute.value)) return attribute.value;
+      if (t.isJSXExpressionContainer(attribute.value) && t.isStringLiteral(attribute.value.expression)) return attribute.value.expression;
+    }
+  }
+  return null;
+}
+
+/**
+ * Point key references in source code at their moved keys. Keys are matched by their full,
+ * namespace-prefixed name, so `t('title')` under `useTranslations('Home')` follows a move of
+ * `Home.title`. A key moved out of its namespace can't be expressed by the same call and is
+ * reported as skipped instead. With a scope, moves are keys of that namespace's file and only
+ * references to the namespace are matched, by their bare key.
+ */
+export function rewriteKeyReferences(sourceCode: string, moves: KeyMove[], options: KeyReferenceOptions = {}): KeyReferenceResult {
+  const separator = options.separator || '.';
+  const ast = parseSource(sourceCode, options.parserPlugins, options.filePath);
+  const usages = new Map(extractKeys(ast, options.adapters, options).map(usage => [usage.start, usage]));
+  const edits: Edit[] = [];
+  const changes: KeyReferenceChange[] = [];
+  const skipped: KeyReferenceSkip[] = [];
+  const handled = new Set<number>();
+
+  traverse(ast, {
+    enter: (path: NodePath) => {
+      const start = path.node.start;
+      if (start == null || handled.has(start)) return;
+      const usage = usages.get(start);
+      if (!usage) return;
+      const scope = options.scope;
+      if (scope && (usage.namespace || scope.defaultNamespace) !== scope.namespace) return;
+      const namespace = scope ? '' : usage.namespace;
+      const fullKey = namespace ? `${namespace}${separator}${usage.key}` : usage.key;
+      if (usage.dynamic) {
+        // Only the static prefix is known, so the call is flagged when a move touches it
+        handled.add(start);
+        if (moves.some(move => fullKey.startsWith(`${move.from}${separator}`) || move.from.startsWith(fullKey))) {
+          skipped.push({ line: usage.line, column: usage.column, key: `${fullKey}*`, reason: 'key is built at runtime' });
+        }
+        return;
+      }
+      const literal = keyLiteral(path.node);
+      if (!literal) return;
+      handled.add(start);
+      const line = literal.loc?.start.line ?? 0;
+      const column = literal.loc?.start.column ?? 0;
+
+      let target = fullKey;
+      for (const move of moves) target = movedKey(target, move, separator) ?? target;
+      if (target === fullKey) return;
+
+      const namespacePrefix = namespace ? `${namespace}${separator}` : '';
+      if (!target.startsWith(namespacePrefix)) {
+        skipped.push({ line, column, key: fullKey, reason: `${target} is outside namespace ${namespace}` });
+        return;
+      }
+      // Keep whatever precedes the relative key in the literal, e.g. the "ns:" of i18next keys
+      if (!literal.value.endsWith(usage.key)) {
+        skipped.push({ line, column, key: fullKey, reason: 'key literal does not match the extracted key' });
+        return;
+      }
+
+      const value = literal.value.slice(0, literal.value.length - usage.key.length) + target.slice(namespacePrefix.length);
+      const quote = sourceCode[literal.start!];
+      edits.push({ start: literal.start!, end: literal.end!, text: `${quote}${value}${quote}` });
+      changes.push({ line, column, from: fullKey, to: target });
+    },
+  });
+
+  return { code: applyEdits(sourceCode, edits), changes, skipped };
+}
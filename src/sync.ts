@@ -0,0 +1,100 @@
+import type { ExtractedKey } from './adapters/index.js';
+
+// A key referenced in source code, namespace-prefixed like the keys of a locale file (bare in a namespace file)
+export interface KeyUsage {
+  key: string; // Static prefix when dynamic
+  defaultValue: string | null;
+  dynamic: boolean;
+  file: string;
+  line: number;
+  column: number;
+}
+
+export interface KeyWildcard {
+  prefix: string;
+  usages: KeyUsage[];
+  covered: string[]; // Locale keys kept alive by the wildcard
+}
+
+export interface SyncReport {
+  used: number; // Distinct static keys used in code
+  missing: KeyUsage[]; // First usage of each key the locale file lacks
+  unused: string[];
+  wildcards: KeyWildcard[];
+}
+
+export interface SyncOptions {
+  addMissing?: boolean;
+  missingValue?: 'default' | 'empty'; // "default" writes the default value from code when there is one
+  pruneUnused?: boolean;
+}
+
+// The namespace a locale file holds on its own (locales/en/common.json), whose keys it stores without prefix
+export interface NamespaceScope {
+  namespace: string;
+  defaultNamespace: string; // Namespace of keys used without one
+}
+
+// Turn adapter results for one file into namespace-prefixed usages, or the bare keys of one namespace when scoped
+export function keyUsages(keys: ExtractedKey[], file: string, separator = '.', scope?: NamespaceScope): KeyUsage[] {
+  const inScope = scope ? keys.filter(({ namespace }) => (namespace || scope.defaultNamespace) === scope.namespace) : keys;
+  return inScope.map(({ namespace, key, defaultValue, dynamic, line, column }) => ({
+    key: namespace && !scope ? `${namespace}${separator}${key}` : key,
+    defaultValue,
+    dynamic: !!dynamic,
+    file,
+    line,
+    column,
+  }));
+}
+
+// Whether a locale key is the used key itself or lives below it (t('list') returning an array or object)
+function isWithin(localeKey: string, usedKey: string, separator: string): boolean {
+  return localeKey === usedKey || localeKey.startsWith(`${usedKey}${separator}`);
+}
+
+/**
+ * Compare keys used in code with the (flattened) keys of a locale file. Keys built at runtime
+ * become prefix wildcards: `t(`status.${s}`)` keeps every `status.*` key from being reported
+ * as unused, and a dynamic key without static prefix protects its whole namespace.
+ */
+export function compareKeys(usages: KeyUsage[], localeKeys: string[], separator = '.'): SyncReport {
+  const staticUsages = new Map<string, KeyUsage>();
+  const wildcards = new Map<string, KeyWildcard>();
+  for (const usage of usages) {
+    if (usage.dynamic) {
+      const wildcard = wildcards.get(usage.key) || { prefix: usage.key, usages: [], covered: [] };
+      wildcard.usages.push(usage);
+      wildcards.set(usage.key, wildcard);
+    } else if (!staticUsages.has(usage.key)) {
+      staticUsages.set(usage.key, usage);
+    }
+  }
+
+  const missing = [...staticUsages.values()].filter(usage => !localeKeys.some(key => isWithin(key, usage.key, separator)));
+
+  const unused: string[] = [];
+  for (const key of localeKeys) {
+    if ([...staticUsages.keys()].some(used => isWithin(key, used, separator))) continue;
+    const wildcard = [...wildcards.values()].find(candidate => key.startsWith(candidate.prefix));
+    if (wildcard) wildcard.covered.push(key);
+    else unused.push(key);
+  }
+
+  return { used: staticUsages.size, missing, unused, wildcards: [...wildcards.values()] };
+}
+
+// Apply a report to flattened locale data: append missing keys and drop unused ones, keeping the order of the rest
+export function syncLocaleKeys(flatData: Record<string, any>, report: SyncReport, options: SyncOptions): Record<string, any> {
+  const unused = new Set(options.pruneUnused ? report.unused : []);
+  const result: Record<string, any> = {};
+  for (const [key, value] of Object.entries(flatData)) {
+    if (!unused.has(key)) result[key] = value;
+  }
+  if (options.addMissing) {
+    for (const usage of report.missing) {
+      result[usage.key] = options.missingValue === 'empty' ? '' : usage.defaultValue ?? '';
+    }
+  }
+  return result;
+}
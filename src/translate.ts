@@ -0,0 +1,122 @@
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+import { flattenKeys, unflattenKeys } from './keys.js';
+import { pseudoLocalize } from './pseudo.js';
+import { messagePlaceholders } from './validate.js';
+
+// One message to translate
+export interface TranslationRequest {
+  key: string;
+  text: string; // Message in the source locale
+  sourceLocale: string;
+  targetLocale: string;
+  comment?: string; // Translator comment from the source locale's manifest
+}
+
+/**
+ * Fills untranslated entries without leaving the machine: an offline engine, a translation memory
+ * or a mock. Local modules export one as default (or a function returning one); the result has one
+ * entry per request, null when the provider has no translation for it.
+ */
+export interface TranslationProvider {
+  name: string;
+  translate(requests: TranslationRequest[]): Promise<(string | null)[]>;
+}
+
+export const TRANSLATION_PROVIDERS: Record<string, TranslationProvider> = {
+  // Pseudo-localized source text, to exercise a locale before real translations exist
+  pseudo: { name: 'pseudo', translate: async requests => requests.map(request => pseudoLocalize(request.text)) },
+  // The source text itself
+  copy: { name: 'copy', translate: async requests => requests.map(request => request.text) },
+};
+
+export const BUILT_IN_PROVIDERS = Object.keys(TRANSLATION_PROVIDERS);
+
+const isProvider = (value: any): value is TranslationProvider => !!value && typeof value.translate === 'function';
+
+// A built-in provider by name, else the module at a path relative to baseDir
+export async function loadTranslationProvider(spec: string, baseDir: string): Promise<TranslationProvider> {
+  if (spec in TRANSLATION_PROVIDERS) return TRANSLATION_PROVIDERS[spec];
+  const file = path.resolve(baseDir, spec);
+  const module = await import(pathToFileURL(file).href);
+  let provider = module.default ?? module.provider;
+  if (typeof provider === 'function' && !isProvider(provider)) provider = await provider();
+  if (!isProvider(provider)) {
+    throw new Error(`${file} does not export a translation provider (an object with a translate(requests) method)`);
+  }
+  return { name: provider.name || path.basename(file), translate: requests => provider.translate(requests) };
+}
+
+export interface RejectedTranslation {
+  key: string;
+  reason: string;
+}
+
+export interface FillResult {
+  data: Record<string, any>; // Flat, separator-joined keys
+  filled: string[];
+  rejected: RejectedTranslation[];
+}
+
+export interface FillOptions {
+  sourceLocale: string;
+  targetLocale: string;
+  separator?: string;
+  comments?: Record<string, string>; // Key -> translator comment
+}
+
+/**
+ * Ask a provider for every reference message the target lacks or has empty, and add the answers.
+ * Answers that change the message's placeholders or aren't valid ICU are rejected, not written.
+ */
+export async function fillTranslations(
+  provider: TranslationProvider,
+  reference: Record<string, any>,
+  target: Record<string, any>,
+  options: FillOptions
+): Promise<FillResult> {
+  const separator = options.separator || '.';
+  const data = flattenKeys(unflattenKeys(target, separator), separator);
+  const requests: TranslationRequest[] = [];
+  for (const [key, text] of Object.entries(flattenKeys(unflattenKeys(reference, separator), separator))) {
+    if (typeof text !== 'string' || text.trim() === '') continue;
+    const current = data[key];
+    if (current !== undefined && current !== null && !(typeof current === 'string' && current.trim() === '')) continue;
+    const comment = options.comments?.[key];
+    requests.push({ key, text, sourceLocale: options.sourceLocale, targetLocale: options.targetLocale, ...(comment ? { comment } : {}) });
+  }
+  if (requests.length === 0) return { data, filled: [], rejected: [] };
+
+  const translations = await provider.translate(requests);
+  if (!Array.isArray(translations) || translations.length !== requests.length) {
+    throw new Error(`Translation provider "${provider.name}" returned ${Array.isArray(translations) ? translations.length : 'no'} translations for ${requests.length} messages`);
+  }
+
+  const filled: string[] = [];
+  const rejected: RejectedTranslation[] = [];
+  requests.forEach(({ key, text }, index) => {
+    const translation = translations[index];
+    if (typeof translation !== 'string' || translation.trim() === '') {
+      rejected.push({ key, reason: 'no translation' });
+      return;
+    }
+    const placeholders = messagePlaceholders(translation);
+    if ('error' in placeholders) {
+      rejected.push({ key, reason: `invalid ICU: ${placeholders.error}` });
+      return;
+    }
+    const expected = messagePlaceholders(text);
+    if (!('error' in expected)) {
+      const missing = expected.names.filter(name => !placeholders.names.includes(name));
+      const extra = placeholders.names.filter(name => !expected.names.includes(name));
+      if (missing.length > 0 || extra.length > 0) {
+        const problems = [missing.length > 0 ? `missing ${missing.join(', ')}` : '', extra.length > 0 ? `extra ${extra.join(', ')}` : ''];
+        rejected.push({ key, reason: `placeholders differ (${problems.filter(Boolean).join('; ')})` });
+        return;
+      }
+    }
+    data[key] = translation;
+    filled.push(key);
+  });
+  return { data, filled, rejected };
+}
@@ -0,0 +1,251 @@
+import * as path from 'path';
+import { icuArguments, IcuSyntaxError, parseIcu } from './icu.js';
+import { flattenKeys, unflattenKeys } from './keys.js';
+
+export type ValueType = 'string' | 'number' | 'boolean' | 'null' | 'object' | 'array';
+
+export interface PlaceholderMismatch {
+  key: string;
+  missing: string[]; // In the reference message but not in the translation
+  extra: string[]; // In the translation but not in the reference message
+}
+
+export interface TypeMismatch {
+  key: string;
+  expected: ValueType;
+  actual: ValueType;
+}
+
+export interface InvalidMessage {
+  key: string;
+  error: string;
+}
+
+export interface LocaleValidation {
+  locale: string;
+  file: string;
+  total: number; // Leaf keys of the reference locale
+  translated: number; // Present, non-empty and of the reference type
+  completeness: number; // Percentage of translated keys, one decimal
+  missing: string[];
+  extra: string[];
+  empty: string[];
+  identical: string[]; // Same text as the reference, likely not translated yet
+  placeholderMismatches: PlaceholderMismatch[];
+  invalidIcu: InvalidMessage[];
+  typeMismatches: TypeMismatch[];
+}
+
+export interface ValidationReport {
+  reference: { locale: string; file: string; keys: number; invalidIcu: InvalidMessage[] };
+  locales: LocaleValidation[];
+}
+
+export interface LocaleData {
+  locale: string;
+  file: string;
+  data: Record<string, any>;
+}
+
+const LOCALE_NAME = /^[a-z]{2,3}(?:[-_][A-Za-z0-9]{2,8})*$/;
+
+/**
+ * Whether a locale file is named by its directory (locales/de/common.json) rather than by itself
+ * (locales/de.json). A configured locale decides first. Otherwise the directory wins when both names
+ * look like locales, since short namespace names such as nav, faq or ui look like locales as well.
+ */
+function localeInDirectory(filePath: string, locales: string[]): boolean {
+  const base = path.basename(filePath, path.extname(filePath));
+  const directory = path.basename(path.dirname(path.resolve(filePath)));
+  if (locales.includes(directory)) return true;
+  if (locales.includes(base)) return false;
+  return LOCALE_NAME.test(directory) || !LOCALE_NAME.test(base);
+}
+
+// "de" from locales/de.json, "de" from locales/de/common.json
+export function localeFromPath(filePath: string, locales: string[] = []): string {
+  return localeInDirectory(filePath, locales)
+    ? path.basename(path.dirname(path.resolve(filePath)))
+    : path.basename(filePath, path.extname(filePath));
+}
+
+// "common" from locales/de/common.json, null for locales/de.json and files outside a locale directory
+export function namespaceFromPath(filePath: string, locales: string[] = []): string | null {
+  const directory = path.basename(path.dirname(path.resolve(filePath)));
+  if (!locales.includes(directory) && !LOCALE_NAME.test(directory)) return null;
+  return localeInDirectory(filePath, locales) ? path.basename(filePath, path.extname(filePath)) : null;
+}
+
+// The same locale file for another locale: locales/en.json -> locales/de.json, locales/en/common.json -> locales/de/common.json
+export function swapLocale(filePath: string, locale: string, locales: string[] = []): string {
+  if (!localeInDirectory(filePath, locales)) return path.join(path.dirname(filePath), `${locale}${path.extname(filePath)}`);
+  const localeDir = path.dirname(filePath);
+  return path.join(path.dirname(localeDir), locale, path.basename(filePath));
+}
+
+function valueType(value: any): ValueType {
+  if (value === null || value === undefined) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value === 'object' ? 'object' : (typeof value as ValueType);
+}
+
+const isContainer = (type: ValueType) => type === 'object' || type === 'array';
+
+// Keys of every leaf below a value, the value's own key when it is a leaf
+function leafKeys(value: any, key: string, separator: string): string[] {
+  return isContainer(valueType(value)) && Object.keys(value).length > 0
+    ? Object.keys(flattenKeys(value, separator)).map(child => `${key}${separator}${child}`)
+    : [key];
+}
+
+/**
+ * Placeholder names of a message: {{name}} when it uses mustache interpolation, ICU arguments
+ * otherwise. ICU messages are parsed, so a syntax error is returned instead of names.
+ */
+export function messagePlaceholders(message: string): { names: string[] } | { error: string } {
+  if (message.includes('{{')) {
+    return { names: [...new Set([...message.matchAll(/\{\{-?\s*([^{}\s,]+)[^{}]*\}\}/g)].map(match => match[1]))] };
+  }
+  if (!/[{}]/.test(message)) return { names: [] };
+  try {
+    return { names: icuArguments(parseIcu(message)) };
+  } catch (error: unknown) {
+    if (error instanceof IcuSyntaxError) return { error: error.message };
+    throw error;
+  }
+}
+
+// Whether a message has letters outside its placeholders; text without ("42", "{count}", "{{count}}") reads the same in every language
+function hasText(message: string): boolean {
+  const placeholder = /\{\{[^{}]*\}\}|\{\s*[^{}\s,]+\s*(?:,[^{}]*)?\}/g;
+  let text = message;
+  for (let previous = ''; previous !== text; ) {
+    previous = text;
+    text = text.replace(placeholder, '');
+  }
+  return /\p{L}/u.test(text);
+}
+
+class LocaleValidator {
+  result: LocaleValidation;
+
+  constructor(target: LocaleData, private separator: string) {
+    this.result = {
+      locale: target.locale,
+      file: target.file,
+      total: 0,
+      translated: 0,
+      completeness: 100,
+      missing: [],
+      extra: [],
+      empty: [],
+      identical: [],
+      placeholderMismatches: [],
+      invalidIcu: [],
+      typeMismatches: [],
+    };
+  }
+
+  validate(reference: Record<string, any>, target: Record<string, any>): LocaleValidation {
+    this.compare(reference, target, '');
+    const { total, translated } = this.result;
+    this.result.completeness = total === 0 ? 100 : Math.round((translated / total) * 1000) / 10;
+    return this.result;
+  }
+
+  private compare(reference: Record<string, any>, target: Record<string, any>, prefix: string) {
+    const join = (key: string) => prefix ? `${prefix}${this.separator}${key}` : key;
+    for (const [key, referenceValue] of Object.entries(reference)) {
+      const fullKey = join(key);
+      const expected = valueType(referenceValue);
+      if (!(key in target)) {
+        const leaves = leafKeys(referenceValue, fullKey, this.separator);
+        this.result.total += leaves.length;
+        this.result.missing.push(...leaves);
+        continue;
+      }
+      const value = target[key];
+      const actual = valueType(value);
+      if (isContainer(expected) && expected === actual && Object.keys(referenceValue).length > 0) {
+        this.compare(referenceValue, value, fullKey);
+      } else if (actual === 'null' && expected !== 'null') {
+        this.result.total += leafKeys(referenceValue, fullKey, this.separator).length;
+        this.result.empty.push(fullKey);
+      } else if (expected !== actual) {
+        this.result.total += leafKeys(referenceValue, fullKey, this.separator).length;
+        this.result.typeMismatches.push({ key: fullKey, expected, actual });
+      } else {
+        this.compareLeaf(fullKey, referenceValue, value);
+      }
+    }
+    for (const [key, value] of Object.entries(target)) {
+      if (!(key in reference)) this.result.extra.push(...leafKeys(value, join(key), this.separator));
+    }
+  }
+
+  private compareLeaf(key: string, referenceValue: any, value: any) {
+    this.result.total++;
+    if (typeof value !== 'string') {
+      this.result.translated++;
+      return;
+    }
+    if (value.trim() === '') {
+      if (referenceValue.trim() === '') this.result.translated++;
+      else this.result.empty.push(key);
+      return;
+    }
+    this.result.translated++;
+    if (value === referenceValue && hasText(value)) this.result.identical.push(key);
+
+    const placeholders = messagePlaceholders(value);
+    if ('error' in placeholders) {
+      this.result.invalidIcu.push({ key, error: placeholders.error });
+      return;
+    }
+    const expected = messagePlaceholders(referenceValue);
+    if ('error' in expected) return; // Reported once, on the reference
+    const missing = expected.names.filter(name => !placeholders.names.includes(name));
+    const extra = placeholders.names.filter(name => !expected.names.includes(name));
+    if (missing.length > 0 || extra.length > 0) this.result.placeholderMismatches.push({ key, missing, extra });
+  }
+}
+
+/**
+ * Check every locale against the reference locale: missing, extra and empty keys, untranslated
+ * copies of the reference text, placeholder mismatches, ICU syntax and value types. Flat and
+ * nested layouts are compared alike.
+ */
+export function validateLocales(reference: LocaleData, locales: LocaleData[], separator = '.'): ValidationReport {
+  const referenceData = unflattenKeys(reference.data, separator);
+  const referenceLeaves = flattenKeys(referenceData, separator);
+  const invalidIcu: InvalidMessage[] = [];
+  for (const [key, value] of Object.entries(referenceLeaves)) {
+    if (typeof value !== 'string') continue;
+    const placeholders = messagePlaceholders(value);
+    if ('error' in placeholders) invalidIcu.push({ key, error: placeholders.error });
+  }
+
+  return {
+    reference: { locale: reference.locale, file: reference.file, keys: Object.keys(referenceLeaves).length, invalidIcu },
+    locales: locales.map(locale =>
+      new LocaleValidator(locale, separator).validate(referenceData, unflattenKeys(locale.data, separator))
+    ),
+  };
+}
+
+// Add the keys a locale is missing, as empty strings or as copies of the reference values
+export function scaffoldMissing(
+  data: Record<string, any>,
+  reference: Record<string, any>,
+  missing: string[],
+  fill: 'empty' | 'source',
+  separator = '.'
+): Record<string, any> {
+  const result = flattenKeys(data, separator);
+  const referenceLeaves = flattenKeys(unflattenKeys(reference, separator), separator);
+  for (const key of missing) {
+    const value = referenceLeaves[key];
+    result[key] = fill === 'empty' && typeof value === 'string' ? '' : value;
+  }
+  return result;
+}
@@ -0,0 +1,83 @@
+import { existsSync, watch, type FSWatcher } from 'fs';
+import * as path from 'path';
+import { SOURCE_EXTENSIONS } from './batch.js';
+import { globToRegExp, matchesAny } from './glob.js';
+
+export interface WatchOptions {
+  include: string[];
+  exclude: string[];
+  debounceMs?: number; // Quiet time after the last change before onChange runs (default: 300)
+  onError?: (error: Error) => void; // The watcher failed (e.g. the root directory was deleted) and has been closed
+}
+
+export interface SourceWatcher {
+  close(): void;
+}
+
+/**
+ * Watch a directory tree with fs.watch and call onChange with the relative paths of the source files
+ * that changed, once per burst of edits. Runs never overlap: changes during a run are collected for
+ * the next one. Deleted files are reported like edited ones. When the watcher itself fails, it is
+ * closed and the error goes to options.onError.
+ */
+export function watchSources(rootDir: string, options: WatchOptions, onChange: (files: string[]) => Promise<void>): SourceWatcher {
+  const includePatterns = options.include.map(globToRegExp);
+  const excludePatterns = options.exclude.map(globToRegExp);
+  const pending = new Set<string>();
+  let timer: NodeJS.Timeout | null = null;
+  let running = false;
+
+  const flush = async () => {
+    timer = null;
+    if (running || pending.size === 0) return;
+    running = true;
+    const files = [...pending].sort();
+    pending.clear();
+    try {
+      await onChange(files);
+    } finally {
+      running = false;
+      if (pending.size > 0) schedule();
+    }
+  };
+  const schedule = () => {
+    if (timer) clearTimeout(timer);
+    timer = setTimeout(() => void flush(), options.debounceMs ?? 300);
+  };
+
+  const watcher: FSWatcher = watch(rootDir, { recursive: true }, (event, filename) => {
+    // Linux reports the deletion of the root itself as a rename rather than an error
+    if (event === 'rename' && !existsSync(rootDir)) {
+      fail(new Error(`${rootDir} no longer exists`));
+      return;
+    }
+    if (!filename) return;
+    const relativePath = filename.toString().split(path.sep).join('/');
+    if (
+      !SOURCE_EXTENSIONS.includes(path.extname(relativePath)) ||
+      !matchesAny(relativePath, includePatterns) ||
+      matchesAny(relativePath, excludePatterns)
+    ) {
+      return;
+    }
+    pending.add(relativePath);
+    schedule();
+  });
+
+  const close = () => {
+    if (timer) clearTimeout(timer);
+    pending.clear();
+    watcher.close();
+  };
+  let failed = false;
+  const fail = (error: Error) => {
+    if (failed) return;
+    failed = true;
+    close();
+    options.onError?.(error);
+  };
+  // Without a listener an 'error' event would be thrown and end the process
+  watcher.on('error', fail);
+
+  return { close };
+}